@@ -4,7 +4,7 @@
  * Description: Next.js App component with global theme and message handling
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 01-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -17,6 +17,7 @@ import ErrorBoundary from '../src/components/ErrorBoundary';
 import { AuthProvider } from '../src/contexts/AuthContext';
 import { AuthGuard } from '../src/components/AuthGuard';
 import { AlertProvider } from '../src/contexts/AlertContext';
+import { TierRegistryProvider } from '../src/contexts/TierRegistryContext';
 
 // Extend Window interface to include our custom properties
 declare global {
@@ -50,21 +51,23 @@ export default function App({ Component, pageProps, router }: AppProps) {
               <Component {...pageProps} />
             ) : (
               <AuthGuard>
-                <Box
-                  style={{
-                    display: 'flex',
-                    flexDirection: 'column',
-                    minHeight: '100vh',
-                  }}
-                >
-                  <Navigation />
-                  <Container
-                    component="main"
-                    style={{ flexGrow: 1, paddingTop: 24, paddingBottom: 24 }}
+                <TierRegistryProvider>
+                  <Box
+                    style={{
+                      display: 'flex',
+                      flexDirection: 'column',
+                      minHeight: '100vh',
+                    }}
                   >
-                    <Component {...pageProps} />
-                  </Container>
-                </Box>
+                    <Navigation />
+                    <Container
+                      component="main"
+                      style={{ flexGrow: 1, paddingTop: 24, paddingBottom: 24 }}
+                    >
+                      <Component {...pageProps} />
+                    </Container>
+                  </Box>
+                </TierRegistryProvider>
               </AuthGuard>
             )}
           </ErrorBoundary>
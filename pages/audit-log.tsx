@@ -0,0 +1,11 @@
+import AuditLog from '../src/components/AuditLog';
+import { PermissionGuard } from '../src/components/PermissionGuard';
+import { PERMISSIONS } from '../src/config/roles';
+
+export default function AuditLogPage() {
+  return (
+    <PermissionGuard permission={PERMISSIONS.AUDIT_READ}>
+      <AuditLog />
+    </PermissionGuard>
+  );
+}
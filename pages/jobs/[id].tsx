@@ -0,0 +1,16 @@
+import { useRouter } from 'next/router';
+import JobDetails from '../../src/components/JobDetails';
+
+const JobDetailsPage = () => {
+  const router = useRouter();
+  const { id } = router.query;
+
+  // The query is empty until the router is ready on first render
+  if (typeof id !== 'string') {
+    return null;
+  }
+
+  return <JobDetails jobId={id} />;
+};
+
+export default JobDetailsPage;
@@ -0,0 +1,25 @@
+import { useRouter } from 'next/router';
+import JobReport from '../../../src/components/JobReport';
+
+const JobReportPage = () => {
+  const router = useRouter();
+  const { id, filename, size, type } = router.query;
+
+  // The query is empty until the router is ready on first render
+  if (typeof id !== 'string') {
+    return null;
+  }
+
+  return (
+    <JobReport
+      jobId={id}
+      fileMeta={{
+        ...(typeof filename === 'string' && { filename }),
+        ...(typeof size === 'string' && { fileSize: Number(size) }),
+        ...(typeof type === 'string' && { fileType: type }),
+      }}
+    />
+  );
+};
+
+export default JobReportPage;
@@ -1,4 +1,4 @@
-import { Jobs } from '../src/components/Jobs';
+import { Jobs } from '../../src/components/Jobs';
 
 const JobsPage = () => {
   return <Jobs />;
@@ -0,0 +1,216 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/AnalysisDiffView.tsx
+ * Description: Highlights what the correction pass changed compared to the first pass
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { TestIds } from '../testIds';
+import {
+  diffAnalysisPasses,
+  summarizeAnalysisDiff,
+  formatDiffPath,
+  formatDiffValue,
+  type FieldChangeKind,
+} from '../utils/analysisDiff';
+
+// ────────────────────────────────────────
+// Change Display
+// ────────────────────────────────────────
+
+const CHANGE_STYLES: Record<
+  FieldChangeKind,
+  { label: string; color: 'success' | 'error' | 'warning' | 'default' }
+> = {
+  added: { label: 'Added', color: 'success' },
+  removed: { label: 'Removed', color: 'error' },
+  changed: { label: 'Changed', color: 'warning' },
+  unchanged: { label: 'Unchanged', color: 'default' },
+};
+
+// Row tints follow the chip colors
+const CHANGE_ROW_PALETTES: Record<
+  FieldChangeKind,
+  'success' | 'error' | 'warning' | null
+> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'warning',
+  unchanged: null,
+};
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface AnalysisDiffViewProps {
+  /** Output of the first (extraction) pass */
+  firstPass: unknown;
+
+  /** Output of the final (correction) pass */
+  finalPass: unknown;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const AnalysisDiffView: React.FC<AnalysisDiffViewProps> = ({
+  firstPass,
+  finalPass,
+}) => {
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+
+  const diffs = useMemo(
+    () => diffAnalysisPasses(firstPass, finalPass),
+    [firstPass, finalPass]
+  );
+  const summary = useMemo(() => summarizeAnalysisDiff(diffs), [diffs]);
+  const visibleDiffs = showUnchanged
+    ? diffs
+    : diffs.filter(diff => diff.kind !== 'unchanged');
+
+  const testIds = TestIds.transcripts.analysisResults.diff;
+
+  return (
+    <Card data-testid={testIds.container}>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Typography variant="h6" data-testid={testIds.summary}>
+              Pass 2 corrected {summary.corrected} of {summary.total} fields
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+              {(['changed', 'added', 'removed'] as const).map(kind => (
+                <Chip
+                  key={kind}
+                  label={`${summary[kind]} ${CHANGE_STYLES[kind].label.toLowerCase()}`}
+                  color={CHANGE_STYLES[kind].color}
+                  size="small"
+                  variant="outlined"
+                />
+              ))}
+            </Box>
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showUnchanged}
+                onChange={e => setShowUnchanged(e.target.checked)}
+                data-testid={testIds.showUnchanged}
+              />
+            }
+            label="Show unchanged fields"
+          />
+        </Box>
+
+        {visibleDiffs.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {summary.total === 0
+              ? 'No extracted fields to compare'
+              : 'The correction pass did not change any fields'}
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small" data-testid={testIds.table}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Pass 1</TableCell>
+                  <TableCell>Pass 2</TableCell>
+                  <TableCell>Change</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visibleDiffs.map(diff => {
+                  const pathLabel = formatDiffPath(diff.path);
+                  return (
+                    <TableRow
+                      key={diff.path.join('.')}
+                      sx={theme => {
+                        const palette = CHANGE_ROW_PALETTES[diff.kind];
+                        return palette
+                          ? {
+                              bgcolor: alpha(theme.palette[palette].main, 0.08),
+                            }
+                          : {};
+                      }}
+                      data-testid={testIds.row(diff.path.join('.'))}
+                    >
+                      <TableCell>
+                        <strong>{pathLabel}</strong>
+                      </TableCell>
+                      <TableCell
+                        sx={{
+                          ...(diff.kind !== 'unchanged' && {
+                            textDecoration:
+                              diff.kind === 'added' ? 'none' : 'line-through',
+                            color: 'text.secondary',
+                          }),
+                        }}
+                      >
+                        {formatDiffValue(diff.before)}
+                      </TableCell>
+                      <TableCell
+                        sx={{
+                          ...(diff.kind !== 'unchanged' && {
+                            fontWeight: 'bold',
+                          }),
+                        }}
+                      >
+                        {formatDiffValue(diff.after)}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={CHANGE_STYLES[diff.kind].label}
+                          color={CHANGE_STYLES[diff.kind].color}
+                          size="small"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnalysisDiffView;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/AnalysisDiffView.tsx
+// ──────────────────────────────────────────────────
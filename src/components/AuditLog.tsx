@@ -4,7 +4,7 @@
  * Description: Audit log management page for TondroAI CRM
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 27-06-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -39,7 +39,10 @@ import {
   TextField,
   InputAdornment,
   Collapse,
+  Link,
 } from '@mui/material';
+import NextLink from 'next/link';
+import { useRouter } from 'next/router';
 import {
   Visibility as VisibilityIcon,
   ExpandMore as ExpandMoreIcon,
@@ -52,6 +55,7 @@ import { TestIds } from '../testIds';
 import { useEntityState, usePagination, useEntityData } from '../hooks';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
 import { useAlert } from '@/contexts/AlertContext';
+import { getEntityDetailLink } from '@/utils/entityLinks';
 
 // ────────────────────────────────────────
 // Main Component
@@ -70,10 +74,12 @@ const AuditLog: React.FC = () => {
   } = useEntityState<AuditLogType>(
     {
       entity_type: '',
+      entity_id: '',
       action: '',
     },
     50
   );
+  const router = useRouter();
 
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
@@ -95,6 +101,24 @@ const AuditLog: React.FC = () => {
     fetchAuditLogs();
   }, [filters, pagination.page, pagination.pageSize]);
 
+  // Links such as /audit-log?entity_type=organization&entity_id=42 open
+  // the log filtered to that entity
+  const { entity_type: queryEntityType, entity_id: queryEntityId } =
+    router.query;
+  useEffect(() => {
+    if (!router.isReady || typeof queryEntityId !== 'string') return;
+
+    setFilters(prev => ({
+      ...prev,
+      entity_type:
+        typeof queryEntityType === 'string'
+          ? queryEntityType
+          : prev.entity_type,
+      entity_id: queryEntityId,
+    }));
+    setPagination(prev => ({ ...prev, page: 0 }));
+  }, [router.isReady, queryEntityType, queryEntityId]);
+
   const fetchAuditLogDetails = async (
     id: string
   ): Promise<AuditLogType | null> => {
@@ -118,6 +142,7 @@ const AuditLog: React.FC = () => {
   const handleClearFilters = (): void => {
     setFilters({
       entity_type: '',
+      entity_id: '',
       action: '',
     });
     setPagination(prev => ({ ...prev, page: 0 }));
@@ -295,6 +320,15 @@ const AuditLog: React.FC = () => {
               </Select>
             </FormControl>
           </Grid>
+          {filters.entity_id && (
+            <Grid item xs={12}>
+              <Chip
+                label={`Entity ID: ${filters.entity_id}`}
+                onDelete={() => handleFilterChange('entity_id', '')}
+                data-testid={TestIds.filterForm.entityId}
+              />
+            </Grid>
+          )}
         </Grid>
       </CardContent>
     </Card>
@@ -369,7 +403,13 @@ const AuditLog: React.FC = () => {
                             size="small"
                           />
                         </TableCell>
-                        <TableCell>{log.entity_id}</TableCell>
+                        <TableCell>
+                          <EntityLink
+                            entityType={log.entity_type}
+                            entityId={log.entity_id}
+                            testId={TestIds.auditLog.entityLink(String(log.id))}
+                          />
+                        </TableCell>
                         <TableCell>
                           <Chip
                             label={log.action}
@@ -487,6 +527,46 @@ const AuditLog: React.FC = () => {
   );
 };
 
+// ────────────────────────────────────────
+// Entity Link Component
+// ────────────────────────────────────────
+
+interface EntityLinkProps {
+  entityType: string;
+  entityId: string;
+  testId?: string;
+  onNavigate?: () => void;
+}
+
+/**
+ * Renders the entity ID as a link to the entity's detail view when the
+ * entity type has a routed page, or as plain text otherwise.
+ */
+const EntityLink: React.FC<EntityLinkProps> = ({
+  entityType,
+  entityId,
+  testId,
+  onNavigate,
+}) => {
+  const href = getEntityDetailLink(entityType, entityId);
+
+  if (!href) {
+    return <>{entityId}</>;
+  }
+
+  return (
+    <Link
+      component={NextLink}
+      href={href}
+      underline="hover"
+      {...(onNavigate && { onClick: onNavigate })}
+      {...(testId && { 'data-testid': testId })}
+    >
+      {entityId}
+    </Link>
+  );
+};
+
 // ────────────────────────────────────────
 // View Audit Log Dialog Component
 // ────────────────────────────────────────
@@ -586,7 +666,11 @@ const ViewAuditLogDialog: React.FC<ViewAuditLogDialogProps> = ({
                   Entity ID
                 </Typography>
                 <Typography variant="body1" gutterBottom>
-                  {detailedLog.entity_id}
+                  <EntityLink
+                    entityType={detailedLog.entity_type}
+                    entityId={detailedLog.entity_id}
+                    onNavigate={onClose}
+                  />
                 </Typography>
               </Grid>
               <Grid item xs={12} sm={6}>
@@ -0,0 +1,288 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/DomainDetailsDrawer.tsx
+ * Description: Domain details with DNS verification records and SSL status
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useMemo } from 'react';
+import {
+  Box,
+  Drawer,
+  Typography,
+  IconButton,
+  Chip,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Button,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  ContentCopy as ContentCopyIcon,
+  VerifiedUser as VerifiedUserIcon,
+} from '@mui/icons-material';
+import { apiHelpers } from '../services/api';
+import { type Domain, type SslCertificateStatus } from '../types';
+import { getStatusColor } from '../theme';
+import { TestIds } from '../testIds';
+import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '../config/roles';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { useAlert } from '@/contexts/AlertContext';
+import {
+  getVerificationRecords,
+  parseSslCertificate,
+  SSL_EXPIRY_WARNING_DAYS,
+} from '../utils/domainVerification';
+
+const SSL_STATUS_DISPLAY: Record<
+  SslCertificateStatus,
+  { label: string; color: 'success' | 'warning' | 'error' | 'default' }
+> = {
+  valid: { label: 'Valid', color: 'success' },
+  expiring: { label: 'Expiring Soon', color: 'warning' },
+  expired: { label: 'Expired', color: 'error' },
+  missing: { label: 'Not Issued', color: 'default' },
+  unknown: { label: 'Unknown', color: 'default' },
+};
+
+interface DomainDetailsDrawerProps {
+  domain: Domain | null;
+  onClose: () => void;
+  onVerified: (domain: Domain) => void;
+}
+
+const DomainDetailsDrawer: React.FC<DomainDetailsDrawerProps> = ({
+  domain,
+  onClose,
+  onVerified,
+}) => {
+  const { user, hasPermission } = useAuth();
+  const { showAlert } = useAlert();
+  const [verifying, setVerifying] = useState(false);
+
+  const records = useMemo(
+    () => (domain ? getVerificationRecords(domain) : []),
+    [domain]
+  );
+  const ssl = useMemo(
+    () => parseSslCertificate(domain?.ssl_certificate),
+    [domain?.ssl_certificate]
+  );
+
+  const handleCopy = (value: string) => {
+    navigator.clipboard
+      ?.writeText(value)
+      .then(() => showAlert('Copied to clipboard!'))
+      .catch(() => showAlert('Failed to copy to clipboard', 'error'));
+  };
+
+  const handleVerify = async () => {
+    if (!domain) return;
+
+    setVerifying(true);
+    try {
+      const response = await apiHelpers.updateDomain(String(domain.id), {
+        status: 'active',
+        user_id: user?.id,
+      });
+      showAlert('Domain marked as verified');
+      onVerified({ ...domain, ...response.data, status: 'active' });
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to verify domain'), 'error');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const sslDisplay = SSL_STATUS_DISPLAY[ssl.status];
+
+  return (
+    <Drawer
+      anchor="right"
+      open={Boolean(domain)}
+      onClose={onClose}
+      PaperProps={{ sx: { width: { xs: '100%', sm: 520 } } }}
+      data-testid={TestIds.domainDetails.drawer}
+    >
+      {domain && (
+        <Box sx={{ p: 3 }}>
+          <Box
+            sx={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              mb: 2,
+            }}
+          >
+            <Typography variant="h6">
+              {domain.domain_name || domain.name}
+            </Typography>
+            <IconButton
+              onClick={onClose}
+              data-testid={TestIds.domainDetails.closeButton}
+            >
+              <CloseIcon />
+            </IconButton>
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+            <Chip
+              label={domain.status}
+              color={getStatusColor(domain.status)}
+              size="small"
+              data-testid={TestIds.domainDetails.status}
+            />
+            {domain.parent_domain_id ? (
+              <Chip label="Subdomain" variant="outlined" size="small" />
+            ) : (
+              <Chip
+                label={domain.is_primary ? 'Primary' : 'Secondary'}
+                color={domain.is_primary ? 'primary' : 'default'}
+                size="small"
+              />
+            )}
+          </Box>
+
+          {/* DNS Verification */}
+          <Typography variant="subtitle1" gutterBottom>
+            DNS Verification
+          </Typography>
+          {domain.status === 'pending' ? (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Add the records below at the domain&apos;s DNS provider. These
+              records are informational: DNS is not checked automatically yet,
+              so confirm they resolve before marking the domain as verified.
+            </Alert>
+          ) : (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Keep these records in place so the domain stays verified.
+            </Typography>
+          )}
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Type</TableCell>
+                <TableCell>Host</TableCell>
+                <TableCell>Value</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {records.map(record => (
+                <TableRow
+                  key={record.type}
+                  data-testid={TestIds.domainDetails.verificationRecord(
+                    record.type
+                  )}
+                >
+                  <TableCell>{record.type}</TableCell>
+                  <TableCell sx={{ wordBreak: 'break-all' }}>
+                    {record.host}
+                  </TableCell>
+                  <TableCell
+                    sx={{ wordBreak: 'break-all', fontFamily: 'monospace' }}
+                  >
+                    {record.value}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="Copy value">
+                      <IconButton
+                        size="small"
+                        onClick={() => handleCopy(record.value)}
+                        data-testid={TestIds.domainDetails.copyRecordButton(
+                          record.type
+                        )}
+                      >
+                        <ContentCopyIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {!records.some(record => record.type === 'TXT') && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              No TXT verification token has been issued for this domain yet.
+            </Typography>
+          )}
+          {domain.status === 'pending' &&
+            hasPermission(PERMISSIONS.DOMAIN_UPDATE) && (
+              <Button
+                variant="contained"
+                startIcon={
+                  verifying ? (
+                    <CircularProgress size={16} />
+                  ) : (
+                    <VerifiedUserIcon />
+                  )
+                }
+                onClick={handleVerify}
+                disabled={verifying}
+                sx={{ mt: 2 }}
+                data-testid={TestIds.domainDetails.verifyButton}
+              >
+                Mark as Verified
+              </Button>
+            )}
+
+          <Divider sx={{ my: 3 }} />
+
+          {/* SSL Certificate */}
+          <Typography variant="subtitle1" gutterBottom>
+            SSL Certificate
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Status:
+            </Typography>
+            <Chip
+              label={sslDisplay.label}
+              color={sslDisplay.color}
+              size="small"
+              data-testid={TestIds.domainDetails.sslStatus}
+            />
+          </Box>
+          <Typography
+            variant="body2"
+            data-testid={TestIds.domainDetails.sslExpiry}
+          >
+            Expires:{' '}
+            {ssl.expires_at ? ssl.expires_at.toLocaleDateString() : 'N/A'}
+          </Typography>
+          {ssl.issuer && (
+            <Typography variant="body2">Issuer: {ssl.issuer}</Typography>
+          )}
+          {ssl.status === 'expiring' && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              The certificate expires within {SSL_EXPIRY_WARNING_DAYS} days.
+            </Alert>
+          )}
+          {ssl.status === 'expired' && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              The certificate has expired. Visitors will see security warnings
+              until it is renewed.
+            </Alert>
+          )}
+        </Box>
+      )}
+    </Drawer>
+  );
+};
+
+export default DomainDetailsDrawer;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/DomainDetailsDrawer.tsx
+// ──────────────────────────────────────────────────
@@ -4,11 +4,11 @@
  * Description: Domain management component for organizations
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 07-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -39,19 +39,78 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Domain as DomainIcon,
+  SubdirectoryArrowRight as SubdirectoryArrowRightIcon,
+  ExpandMore as ExpandMoreIcon,
+  ChevronRight as ChevronRightIcon,
+  Visibility as VisibilityIcon,
 } from '@mui/icons-material';
 import { apiHelpers } from '../services/api';
 import {
   type Domain,
   type CreateDomainRequest,
   type UpdateDomainRequest,
-  ERROR_MESSAGES,
 } from '../types';
 import { getStatusColor } from '../theme';
 import { TestIds } from '../testIds';
 import { useAuth } from '@/contexts/AuthContext';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { getDomainErrorMessage } from '@/utils/domainErrorMessage';
 import { useAlert } from '@/contexts/AlertContext';
+import DomainDetailsDrawer from './DomainDetailsDrawer';
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+interface DomainTreeNode {
+  domain: Domain;
+  children: DomainTreeNode[];
+}
+
+const getDomainLabel = (domain: Domain): string =>
+  domain.domain_name || domain.name || '';
+
+/**
+ * Groups a flat list of domains into a tree using parent_domain_id.
+ * Domains whose parent is not in the list are shown at the top level.
+ */
+const buildDomainTree = (domains: Domain[]): DomainTreeNode[] => {
+  const nodes = new Map<string, DomainTreeNode>();
+  domains.forEach(domain => {
+    nodes.set(String(domain.id), { domain, children: [] });
+  });
+
+  const roots: DomainTreeNode[] = [];
+  nodes.forEach(node => {
+    const parentId = node.domain.parent_domain_id;
+    const parent =
+      parentId !== null && parentId !== undefined
+        ? nodes.get(String(parentId))
+        : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+/**
+ * Checks that a subdomain name sits under its parent domain
+ *
+ * @example
+ * isSubdomainOf('mail.company.com', 'company.com'); // true
+ * isSubdomainOf('company.com', 'company.com'); // false
+ */
+const isSubdomainOf = (name: string, parentName: string): boolean =>
+  name.toLowerCase().endsWith(`.${parentName.toLowerCase()}`);
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
 
 interface DomainManagementProps {
   organizationId: string;
@@ -67,8 +126,14 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedDomain, setSelectedDomain] = useState<Domain | null>(null);
+  const [parentDomain, setParentDomain] = useState<Domain | null>(null);
+  const [detailsDomain, setDetailsDomain] = useState<Domain | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
   const { showAlert } = useAlert();
 
+  const domainTree = useMemo(() => buildDomainTree(domains), [domains]);
+  const pendingCount = domains.filter(d => d.status === 'pending').length;
+
   const fetchDomains = useCallback(async () => {
     setLoading(true);
     setError('');
@@ -104,19 +169,47 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
 
   const handleCreateDomain = async (formData: CreateDomainRequest) => {
     try {
-      await apiHelpers.createDomain(formData);
-      showAlert('Domain created successfully!');
+      if (formData.parent_domain_id) {
+        await apiHelpers.createSubdomain(formData.parent_domain_id, formData);
+        showAlert('Subdomain created successfully!');
+        // Make sure the new subdomain is visible under its parent
+        setCollapsedIds(prev => {
+          const next = new Set(prev);
+          next.delete(String(formData.parent_domain_id));
+          return next;
+        });
+      } else {
+        await apiHelpers.createDomain(formData);
+        showAlert('Domain created successfully!');
+      }
       setCreateDialogOpen(false);
+      setParentDomain(null);
       fetchDomains();
     } catch (error: any) {
-      const errorMessage = getApiErrorMessage(error, 'Failed to create domain');
-      const userFriendlyMessage =
-        ERROR_MESSAGES[errorMessage as keyof typeof ERROR_MESSAGES] ||
-        errorMessage;
-      showAlert(userFriendlyMessage, 'error');
+      showAlert(
+        getDomainErrorMessage(
+          error,
+          formData.parent_domain_id
+            ? 'Failed to create subdomain'
+            : 'Failed to create domain'
+        ),
+        'error'
+      );
     }
   };
 
+  const handleToggleDomain = (domainId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(domainId)) {
+        next.delete(domainId);
+      } else {
+        next.add(domainId);
+      }
+      return next;
+    });
+  };
+
   const handleUpdateDomain = async (
     domainId: string,
     formData: UpdateDomainRequest
@@ -128,11 +221,10 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
       setSelectedDomain(null);
       fetchDomains();
     } catch (error: any) {
-      const errorMessage = getApiErrorMessage(error, 'Failed to update domain');
-      const userFriendlyMessage =
-        ERROR_MESSAGES[errorMessage as keyof typeof ERROR_MESSAGES] ||
-        errorMessage;
-      showAlert(userFriendlyMessage, 'error');
+      showAlert(
+        getDomainErrorMessage(error, 'Failed to update domain'),
+        'error'
+      );
     }
   };
 
@@ -142,11 +234,10 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
       showAlert('Domain deleted successfully!');
       fetchDomains();
     } catch (error: any) {
-      const errorMessage = getApiErrorMessage(error, 'Failed to delete domain');
-      const userFriendlyMessage =
-        ERROR_MESSAGES[errorMessage as keyof typeof ERROR_MESSAGES] ||
-        errorMessage;
-      showAlert(userFriendlyMessage, 'error');
+      showAlert(
+        getDomainErrorMessage(error, 'Failed to delete domain'),
+        'error'
+      );
     }
   };
 
@@ -156,6 +247,148 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
     return domainRegex.test(name);
   };
 
+  const renderDomainRows = (
+    nodes: DomainTreeNode[],
+    depth: number
+  ): React.ReactNode[] =>
+    nodes.flatMap(({ domain, children }) => {
+      const domainId = String(domain.id);
+      const isCollapsed = collapsedIds.has(domainId);
+
+      return [
+        <TableRow key={domainId} data-testid={TestIds.domainRow(domainId)}>
+          <TableCell>
+            <Box sx={{ display: 'flex', alignItems: 'center', pl: depth * 3 }}>
+              {children.length > 0 ? (
+                <IconButton
+                  size="small"
+                  onClick={() => handleToggleDomain(domainId)}
+                  aria-label={
+                    isCollapsed ? 'Expand subdomains' : 'Collapse subdomains'
+                  }
+                  data-testid={TestIds.toggleSubdomainsButton(domainId)}
+                >
+                  {isCollapsed ? (
+                    <ChevronRightIcon fontSize="small" />
+                  ) : (
+                    <ExpandMoreIcon fontSize="small" />
+                  )}
+                </IconButton>
+              ) : (
+                <Box sx={{ width: 34 }} />
+              )}
+              {depth > 0 ? (
+                <SubdirectoryArrowRightIcon
+                  sx={{ mr: 1, fontSize: 16, color: 'text.secondary' }}
+                />
+              ) : (
+                <DomainIcon sx={{ mr: 1, fontSize: 16 }} />
+              )}
+              {getDomainLabel(domain)}
+              {children.length > 0 && (
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  sx={{ ml: 1 }}
+                >
+                  ({children.length} subdomain
+                  {children.length === 1 ? '' : 's'})
+                </Typography>
+              )}
+            </Box>
+          </TableCell>
+          <TableCell>
+            {depth > 0 ? (
+              <Chip label="Subdomain" variant="outlined" size="small" />
+            ) : (
+              <Chip
+                label={domain.is_primary ? 'Primary' : 'Secondary'}
+                color={domain.is_primary ? 'primary' : 'default'}
+                size="small"
+              />
+            )}
+          </TableCell>
+          <TableCell>
+            <Chip
+              label={domain.status}
+              color={getStatusColor(domain.status)}
+              size="small"
+            />
+          </TableCell>
+          <TableCell>
+            {new Date(domain.created_at).toLocaleDateString()}
+          </TableCell>
+          <TableCell>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Tooltip title="View Details">
+                <IconButton
+                  size="small"
+                  onClick={() => setDetailsDomain(domain)}
+                  data-testid={TestIds.viewDomainButton(domainId)}
+                >
+                  <VisibilityIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Add Subdomain">
+                <IconButton
+                  size="small"
+                  onClick={() => {
+                    setParentDomain(domain);
+                    setCreateDialogOpen(true);
+                  }}
+                  data-testid={TestIds.addSubdomainButton(domainId)}
+                >
+                  <AddIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Edit Domain">
+                <IconButton
+                  size="small"
+                  onClick={() => {
+                    setSelectedDomain(domain);
+                    setEditDialogOpen(true);
+                  }}
+                  data-testid={TestIds.editDomainButton}
+                >
+                  <EditIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete Domain">
+                {Boolean(domain.is_primary) &&
+                domains.filter(d => Boolean(d.is_primary)).length === 1 ? (
+                  <span>
+                    <IconButton size="small" disabled={true}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </span>
+                ) : (
+                  <IconButton
+                    size="small"
+                    onClick={() => {
+                      const subdomainNote =
+                        children.length > 0
+                          ? ` It has ${children.length} subdomain${children.length === 1 ? '' : 's'}.`
+                          : '';
+                      if (
+                        window.confirm(
+                          `Delete domain "${getDomainLabel(domain)}"?${subdomainNote}`
+                        )
+                      ) {
+                        handleDeleteDomain(domainId);
+                      }
+                    }}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                )}
+              </Tooltip>
+            </Box>
+          </TableCell>
+        </TableRow>,
+        ...(isCollapsed ? [] : renderDomainRows(children, depth + 1)),
+      ];
+    });
+
   return (
     <Box>
       <Box
@@ -170,7 +403,10 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
         <Button
           variant="contained"
           startIcon={<AddIcon />}
-          onClick={() => setCreateDialogOpen(true)}
+          onClick={() => {
+            setParentDomain(null);
+            setCreateDialogOpen(true);
+          }}
           data-testid={TestIds.addDomainButton}
         >
           Add Domain
@@ -183,6 +419,18 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
         </Alert>
       )}
 
+      {pendingCount > 0 && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          data-testid={TestIds.pendingDomainsAlert}
+        >
+          {pendingCount} domain{pendingCount === 1 ? ' is' : 's are'} awaiting
+          DNS verification. View a pending domain to see the records to add and
+          verify it.
+        </Alert>
+      )}
+
       {loading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
           <CircularProgress />
@@ -200,77 +448,7 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
               </TableRow>
             </TableHead>
             <TableBody>
-              {Array.isArray(domains) &&
-                domains.map(domain => (
-                  <TableRow key={domain.id}>
-                    <TableCell>
-                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                        <DomainIcon sx={{ mr: 1, fontSize: 16 }} />
-                        {domain.domain_name || domain.name}
-                      </Box>
-                    </TableCell>
-                    <TableCell>
-                      <Chip
-                        label={domain.is_primary ? 'Primary' : 'Secondary'}
-                        color={domain.is_primary ? 'primary' : 'default'}
-                        size="small"
-                      />
-                    </TableCell>
-                    <TableCell>
-                      <Chip
-                        label={domain.status}
-                        color={getStatusColor(domain.status)}
-                        size="small"
-                      />
-                    </TableCell>
-                    <TableCell>
-                      {new Date(domain.created_at).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell>
-                      <Box sx={{ display: 'flex', gap: 1 }}>
-                        <Tooltip title="Edit Domain">
-                          <IconButton
-                            size="small"
-                            onClick={() => {
-                              setSelectedDomain(domain);
-                              setEditDialogOpen(true);
-                            }}
-                            data-testid={TestIds.editDomainButton}
-                          >
-                            <EditIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Delete Domain">
-                          {Boolean(domain.is_primary) &&
-                          Array.isArray(domains) &&
-                          domains.filter(d => Boolean(d.is_primary)).length ===
-                            1 ? (
-                            <span>
-                              <IconButton size="small" disabled={true}>
-                                <DeleteIcon />
-                              </IconButton>
-                            </span>
-                          ) : (
-                            <IconButton
-                              size="small"
-                              onClick={() => {
-                                if (
-                                  window.confirm(
-                                    `Delete domain "${domain.domain_name || domain.name}"?`
-                                  )
-                                ) {
-                                  handleDeleteDomain(String(domain.id));
-                                }
-                              }}
-                            >
-                              <DeleteIcon />
-                            </IconButton>
-                          )}
-                        </Tooltip>
-                      </Box>
-                    </TableCell>
-                  </TableRow>
-                ))}
+              {renderDomainRows(domainTree, 0)}
               {(!Array.isArray(domains) || domains.length === 0) && (
                 <TableRow>
                   <TableCell colSpan={5} align="center">
@@ -288,12 +466,26 @@ const DomainManagement: React.FC<DomainManagementProps> = ({
       {/* Create Domain Dialog */}
       <CreateDomainDialog
         open={createDialogOpen}
-        onClose={() => setCreateDialogOpen(false)}
+        onClose={() => {
+          setCreateDialogOpen(false);
+          setParentDomain(null);
+        }}
         onSubmit={handleCreateDomain}
         organizationId={organizationId}
+        parentDomain={parentDomain}
         validateDomainName={validateDomainName}
       />
 
+      {/* Domain Details Drawer */}
+      <DomainDetailsDrawer
+        domain={detailsDomain}
+        onClose={() => setDetailsDomain(null)}
+        onVerified={verifiedDomain => {
+          setDetailsDomain(verifiedDomain);
+          fetchDomains();
+        }}
+      />
+
       {/* Edit Domain Dialog */}
       <EditDomainDialog
         open={editDialogOpen}
@@ -320,6 +512,7 @@ interface CreateDomainDialogProps {
   onClose: () => void;
   onSubmit: (data: CreateDomainRequest) => Promise<void>;
   organizationId: string;
+  parentDomain?: Domain | null;
   validateDomainName: (name: string) => boolean;
 }
 
@@ -328,6 +521,7 @@ const CreateDomainDialog: React.FC<CreateDomainDialogProps> = ({
   onClose,
   onSubmit,
   organizationId,
+  parentDomain = null,
   validateDomainName,
 }) => {
   const { user } = useAuth();
@@ -343,6 +537,8 @@ const CreateDomainDialog: React.FC<CreateDomainDialogProps> = ({
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
 
+  const parentName = parentDomain ? getDomainLabel(parentDomain) : '';
+
   const handleChange = (field: keyof CreateDomainRequest, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
@@ -357,6 +553,11 @@ const CreateDomainDialog: React.FC<CreateDomainDialogProps> = ({
       newErrors.domain_name = 'Domain name is required';
     } else if (!validateDomainName(formData.domain_name)) {
       newErrors.domain_name = 'Please enter a valid domain name';
+    } else if (
+      parentName &&
+      !isSubdomainOf(formData.domain_name.trim(), parentName)
+    ) {
+      newErrors.domain_name = `Subdomain must end with .${parentName}`;
     }
 
     setErrors(newErrors);
@@ -374,9 +575,14 @@ const CreateDomainDialog: React.FC<CreateDomainDialogProps> = ({
     setLoading(true);
     try {
       // Ensure user_id is included in the payload
-      const payload = {
+      const payload: CreateDomainRequest = {
         ...formData,
+        domain_name: formData.domain_name.trim(),
         user_id: user.id, // Get fresh user ID
+        ...(parentDomain && {
+          parent_domain_id: String(parentDomain.id),
+          is_primary: false,
+        }),
       };
       await onSubmit(payload);
       setFormData({
@@ -404,18 +610,23 @@ const CreateDomainDialog: React.FC<CreateDomainDialogProps> = ({
 
   return (
     <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
-      <DialogTitle>Add New Domain</DialogTitle>
+      <DialogTitle>
+        {parentDomain ? `Add Subdomain to ${parentName}` : 'Add New Domain'}
+      </DialogTitle>
       <DialogContent>
         <Grid container spacing={2} sx={{ mt: 1 }}>
           <Grid item xs={12}>
             <TextField
               fullWidth
-              label="Domain Name"
+              label={parentDomain ? 'Subdomain Name' : 'Domain Name'}
               value={formData.domain_name}
               onChange={e => handleChange('domain_name', e.target.value)}
               error={!!errors.domain_name}
               helperText={
-                errors.domain_name || 'Enter domain name (e.g., company.com)'
+                errors.domain_name ||
+                (parentDomain
+                  ? `Enter subdomain name (e.g., app.${parentName})`
+                  : 'Enter domain name (e.g., company.com)')
               }
               disabled={loading}
               data-testid={TestIds.domainNameInput}
@@ -0,0 +1,230 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/DynamicAnalysisView.tsx
+ * Description: Renders an extraction pass of any shape as titled tables of fields
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Divider,
+} from '@mui/material';
+import { formatFieldName } from '../utils/transcriptFormatters';
+import { getConfidence, sortByConfidence } from '../utils/extractionConfidence';
+import ConfidenceChip from './common/ConfidenceChip';
+
+// ────────────────────────────────────────
+// Value Rendering
+// ────────────────────────────────────────
+
+// Keys starting with an underscore (e.g. _confidence) are internal metadata
+const isVisibleEntry = ([key, value]: [string, unknown]): boolean =>
+  !key.startsWith('_') && value !== null && value !== undefined;
+
+// Lists score as their least confident item so weak entries surface first
+const getValueConfidence = (value: unknown): number | null => {
+  if (!Array.isArray(value)) return getConfidence(value);
+
+  const scores = value
+    .map(getConfidence)
+    .filter((score): score is number => score !== null);
+  return scores.length > 0 ? Math.min(...scores) : null;
+};
+
+const renderValue = (value: unknown): React.ReactNode => {
+  if (value === null || value === undefined) {
+    return 'N/A';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    return value.toString();
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'None';
+
+    // If array contains objects, render as a list
+    if (typeof value[0] === 'object' && value[0] !== null) {
+      return (
+        <Box>
+          {sortByConfidence<object>(value, getConfidence).map((item, index) => (
+            <Box
+              key={index}
+              sx={{ mb: 1, p: 1, bgcolor: 'grey.50', borderRadius: 1 }}
+            >
+              {renderObjectValue(item)}
+            </Box>
+          ))}
+        </Box>
+      );
+    }
+
+    // Simple array
+    return value.join(', ');
+  }
+
+  if (typeof value === 'object') {
+    return renderObjectValue(value);
+  }
+
+  return String(value);
+};
+
+const renderObjectValue = (obj: object): React.ReactNode => {
+  const entries = Object.entries(obj).filter(isVisibleEntry);
+
+  if (entries.length === 0) return 'N/A';
+
+  const confidence = getConfidence(obj);
+
+  return (
+    <Box>
+      {confidence !== null && (
+        <Box sx={{ float: 'right', ml: 1 }}>
+          <ConfidenceChip confidence={confidence} />
+        </Box>
+      )}
+      {entries.map(([key, value]) => (
+        <Box key={key} sx={{ mb: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">
+            {formatFieldName(key)}:
+          </Typography>
+          <Typography variant="body2">{renderValue(value)}</Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+const renderDynamicTable = (data: unknown, title: string, testId: string) => {
+  if (!data || typeof data !== 'object') return null;
+
+  const entries = sortByConfidence(
+    Object.entries(data).filter(isVisibleEntry),
+    ([, value]) => getValueConfidence(value)
+  );
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 1,
+        }}
+      >
+        <Typography variant="subtitle2">{title}</Typography>
+        <ConfidenceChip confidence={getConfidence(data)} />
+      </Box>
+      <TableContainer component={Paper} variant="outlined" data-testid={testId}>
+        <Table size="small">
+          <TableBody>
+            {entries.map(([key, value]) => (
+              <TableRow key={key}>
+                <TableCell>
+                  <strong>{formatFieldName(key)}</strong>
+                </TableCell>
+                <TableCell>{renderValue(value)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface DynamicAnalysisViewProps {
+  /** Extraction output of a single pass */
+  analysisData: unknown;
+
+  /** First pass is the initial extraction, final pass the corrected one */
+  passType: 'first' | 'final';
+
+  /** Test ID for the pass card */
+  testId: string;
+
+  /** Builds the test ID of each section table */
+  sectionTestId: (sectionKey: string) => string;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const DynamicAnalysisView: React.FC<DynamicAnalysisViewProps> = ({
+  analysisData,
+  passType,
+  testId,
+  sectionTestId,
+}) => {
+  if (!analysisData || typeof analysisData !== 'object') return null;
+
+  const sections = Object.entries(analysisData).filter(([key, value]) => {
+    if (!isVisibleEntry([key, value])) return false;
+    if (typeof value === 'object' && Object.keys(value as object).length === 0)
+      return false;
+    return true;
+  });
+
+  if (sections.length === 0) return null;
+
+  return (
+    <Card data-testid={testId}>
+      <CardContent>
+        <Typography
+          variant="h6"
+          gutterBottom
+          color={passType === 'first' ? 'primary' : 'success.main'}
+        >
+          {passType === 'first' ? 'First' : 'Final'} Pass Analysis
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+
+        {sections.map(([sectionKey, sectionData]) => (
+          <Box key={sectionKey}>
+            {renderDynamicTable(
+              sectionData,
+              formatFieldName(sectionKey),
+              sectionTestId(sectionKey)
+            )}
+          </Box>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DynamicAnalysisView;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/DynamicAnalysisView.tsx
+// ──────────────────────────────────────────────────
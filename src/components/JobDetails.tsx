@@ -0,0 +1,434 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/JobDetails.tsx
+ * Description: Detail view of a processing job with per-document diagnostics
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  AlertTitle,
+  Button,
+  Chip,
+  Card,
+  CardContent,
+  Grid,
+  Divider,
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import {
+  transcriptsApiHelpers,
+  type JobDiagnosticsResponse,
+  type JobDiagnosticsDocument,
+} from '../services/transcriptsApi';
+import { TestIds } from '../testIds';
+import { getApiErrorMessage } from '../utils/getApiErrorMessage';
+import {
+  formatFieldName,
+  getJobStatusColor,
+  getTranscriptErrorMessage,
+} from '../utils/transcriptFormatters';
+import { isJobSettled } from '../utils/jobPolling';
+import { useJobPolling } from '../hooks';
+import DynamicAnalysisView from './DynamicAnalysisView';
+import TranscriptReviewPanel, {
+  JobApprovalButton,
+} from './TranscriptReviewPanel';
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+const formatTimestamp = (timestamp: string | null | undefined): string => {
+  if (!timestamp) return 'N/A';
+  return new Date(timestamp).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatDuration = (seconds: number | null | undefined): string =>
+  seconds !== null && seconds !== undefined ? `${seconds.toFixed(1)}s` : 'N/A';
+
+// ────────────────────────────────────────
+// Document Diagnostics
+// ────────────────────────────────────────
+
+interface JobDocumentCardProps {
+  jobId: number;
+  document: JobDiagnosticsDocument;
+}
+
+const JobDocumentCard: React.FC<JobDocumentCardProps> = ({
+  jobId,
+  document,
+}) => {
+  const testIds = TestIds.jobs.details.document;
+
+  return (
+    <Card sx={{ mb: 3 }} data-testid={testIds.container(document.id)}>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'flex-start',
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Typography
+              variant="h6"
+              data-testid={testIds.filename(document.id)}
+            >
+              {document.original_filename || 'Unknown file'}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Document ID: {document.id}
+            </Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Chip
+              label={formatFieldName(document.document_type || 'unknown')}
+              variant="outlined"
+              size="small"
+              data-testid={testIds.type(document.id)}
+            />
+            <Chip
+              label={document.status}
+              color={getJobStatusColor(document.status)}
+              size="small"
+              sx={{ textTransform: 'capitalize' }}
+              data-testid={testIds.status(document.id)}
+            />
+          </Box>
+        </Box>
+
+        {document.status === 'failed' && (
+          <Alert
+            severity="error"
+            sx={{ mb: 2 }}
+            data-testid={testIds.error(document.id)}
+          >
+            <AlertTitle>
+              {document.error?.code || 'Processing failed'}
+            </AlertTitle>
+            {getTranscriptErrorMessage(
+              document.error?.code,
+              document.error?.message
+            )}
+            {document.error?.message && (
+              <Typography
+                variant="body2"
+                component="pre"
+                sx={{
+                  mt: 1,
+                  mb: 0,
+                  fontFamily: 'monospace',
+                  whiteSpace: 'pre-wrap',
+                  wordBreak: 'break-word',
+                }}
+              >
+                {document.error.message}
+              </Typography>
+            )}
+          </Alert>
+        )}
+
+        {document.status === 'processing' && (
+          <Typography variant="body2" color="text.secondary">
+            This document is still being processed.
+          </Typography>
+        )}
+
+        {document.result && (
+          <Grid container spacing={3}>
+            <Grid item xs={12} md={6}>
+              <DynamicAnalysisView
+                analysisData={document.result.pass_1_extraction}
+                passType="first"
+                testId={testIds.pass(document.id, 'first')}
+                sectionTestId={sectionKey =>
+                  testIds.passTable(document.id, 'first', sectionKey)
+                }
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <DynamicAnalysisView
+                analysisData={document.result.pass_2_correction}
+                passType="final"
+                testId={testIds.pass(document.id, 'final')}
+                sectionTestId={sectionKey =>
+                  testIds.passTable(document.id, 'final', sectionKey)
+                }
+              />
+            </Grid>
+          </Grid>
+        )}
+
+        {document.status === 'completed' && document.result && (
+          <Box sx={{ mt: 3 }}>
+            <TranscriptReviewPanel jobId={jobId} document={document} />
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+interface JobDetailsProps {
+  jobId: string;
+}
+
+const JobDetails: React.FC<JobDetailsProps> = ({ jobId }) => {
+  const router = useRouter();
+  const [job, setJob] = useState<JobDiagnosticsResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  const {
+    status: pollingStatus,
+    job: polledJob,
+    error: pollingError,
+    startPolling,
+    stopPolling,
+  } = useJobPolling();
+
+  // ────────────────────────────────────────
+  // Data Fetching
+  // ────────────────────────────────────────
+
+  useEffect(() => {
+    const numericJobId = Number(jobId);
+    if (!Number.isInteger(numericJobId)) {
+      setError(`Invalid job ID: ${jobId}`);
+      setLoading(false);
+      return;
+    }
+
+    const controller = transcriptsApiHelpers.createAbortController();
+
+    const fetchJob = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await transcriptsApiHelpers.getJobStatus(
+          numericJobId,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        setJob(response.data);
+
+        // Follow jobs that are still processing until every document finishes
+        if (isJobSettled(response.data)) {
+          stopPolling();
+        } else {
+          startPolling(numericJobId);
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(getApiErrorMessage(err, 'Failed to load job details'));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchJob();
+
+    return () => controller.abort();
+  }, [jobId, reloadKey, startPolling, stopPolling]);
+
+  useEffect(() => {
+    if (polledJob) setJob(polledJob);
+  }, [polledJob]);
+
+  const handleApproved = (approvedJob: JobDiagnosticsResponse) => {
+    setJob(approvedJob);
+  };
+
+  // ────────────────────────────────────────
+  // Render Logic
+  // ────────────────────────────────────────
+
+  const documents = job?.documents || [];
+  const failedCount = documents.filter(doc => doc.status === 'failed').length;
+
+  return (
+    <Box data-testid={TestIds.jobs.details.page}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Button
+            startIcon={<ArrowBackIcon />}
+            onClick={() => router.push('/jobs')}
+            data-testid={TestIds.jobs.details.backButton}
+          >
+            Jobs
+          </Button>
+          <Typography variant="h4" component="h1">
+            Job #{jobId}
+          </Typography>
+        </Box>
+        {pollingStatus === 'polling' ? (
+          <Box
+            sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+            data-testid={TestIds.jobs.details.pollingIndicator}
+          >
+            <CircularProgress size={20} />
+            <Typography variant="body2" color="text.secondary">
+              Processing, updating automatically...
+            </Typography>
+          </Box>
+        ) : (
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => setReloadKey(key => key + 1)}
+            disabled={loading}
+            data-testid={TestIds.jobs.details.refreshButton}
+          >
+            Refresh
+          </Button>
+        )}
+      </Box>
+
+      {(error || pollingError) && (
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          data-testid={TestIds.jobs.details.errorAlert}
+        >
+          {error || pollingError}
+        </Alert>
+      )}
+
+      {pollingStatus === 'timeout' && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This job is taking longer than expected. Use Refresh to check on it
+          again.
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box
+          sx={{ display: 'flex', justifyContent: 'center', p: 3 }}
+          data-testid={TestIds.jobs.details.loadingSpinner}
+        >
+          <CircularProgress />
+        </Box>
+      ) : (
+        job && (
+          <>
+            <Card sx={{ mb: 3 }} data-testid={TestIds.jobs.details.summary}>
+              <CardContent>
+                <Box
+                  sx={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    mb: 1,
+                  }}
+                >
+                  <Typography variant="h6">Overview</Typography>
+                  {isJobSettled(job) && (
+                    <JobApprovalButton job={job} onApproved={handleApproved} />
+                  )}
+                </Box>
+                <Divider sx={{ mb: 2 }} />
+                <Grid container spacing={2}>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Status
+                    </Typography>
+                    <Chip
+                      label={job.overall_status}
+                      color={getJobStatusColor(job.overall_status)}
+                      size="small"
+                      sx={{ textTransform: 'capitalize' }}
+                      data-testid={TestIds.jobs.details.status}
+                    />
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Processing Time
+                    </Typography>
+                    <Typography
+                      variant="body2"
+                      data-testid={TestIds.jobs.details.processingTime}
+                    >
+                      {formatDuration(job.processing_duration_seconds)}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Submitted
+                    </Typography>
+                    <Typography variant="body2">
+                      {formatTimestamp(job.created_timestamp)}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} sm={6} md={3}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      Documents
+                    </Typography>
+                    <Typography variant="body2">
+                      {documents.length}
+                      {failedCount > 0 && ` (${failedCount} failed)`}
+                    </Typography>
+                  </Grid>
+                </Grid>
+              </CardContent>
+            </Card>
+
+            {documents.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                This job has no documents
+              </Typography>
+            ) : (
+              documents.map(document => (
+                <JobDocumentCard
+                  key={document.id}
+                  jobId={job.id}
+                  document={document}
+                />
+              ))
+            )}
+          </>
+        )
+      )}
+    </Box>
+  );
+};
+
+export default JobDetails;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/JobDetails.tsx
+// ──────────────────────────────────────────────────
@@ -0,0 +1,288 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/JobReport.tsx
+ * Description: Print-friendly report of a transcript job's extracted data
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Button,
+  GlobalStyles,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Print as PrintIcon } from '@mui/icons-material';
+import {
+  transcriptsApiHelpers,
+  type JobDiagnosticsResponse,
+  type JobDiagnosticsDocument,
+} from '../services/transcriptsApi';
+import { TestIds } from '../testIds';
+import { getApiErrorMessage } from '../utils/getApiErrorMessage';
+import { formatDiffValue } from '../utils/analysisDiff';
+import { formatFileSize } from '../utils/transcriptFormatters';
+import {
+  buildTranscriptFileInfo,
+  getTranscriptFieldRows,
+  getTranscriptCourseRows,
+  getTranscriptCourseColumns,
+  type TranscriptFileMeta,
+} from '../utils/transcriptExport';
+
+// ────────────────────────────────────────
+// Print Styles
+// ────────────────────────────────────────
+
+// Hides the app navigation and keeps table rows whole on paper
+const printStyles = (
+  <GlobalStyles
+    styles={{
+      '@media print': {
+        '.MuiAppBar-root': { display: 'none' },
+        body: { backgroundColor: '#fff' },
+        tr: { breakInside: 'avoid' },
+      },
+    }}
+  />
+);
+
+const formatTimestamp = (timestamp: string | null | undefined): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'N/A';
+
+// ────────────────────────────────────────
+// Document Section
+// ────────────────────────────────────────
+
+const ReportDocument: React.FC<{ document: JobDiagnosticsDocument }> = ({
+  document,
+}) => {
+  const fieldRows = getTranscriptFieldRows(document);
+  const courseRows = getTranscriptCourseRows(document);
+  const courseColumns = getTranscriptCourseColumns(courseRows);
+
+  return (
+    <Box sx={{ mb: 4 }} data-testid={TestIds.jobs.report.document(document.id)}>
+      <Typography variant="h6" gutterBottom>
+        {document.original_filename || document.id}
+      </Typography>
+
+      {document.status !== 'completed' || !document.result ? (
+        <Typography variant="body2" color="text.secondary">
+          {document.status === 'failed'
+            ? `Processing failed: ${document.error?.message || 'Unknown error'}`
+            : 'No extracted data available'}
+        </Typography>
+      ) : (
+        <>
+          <Table size="small" sx={{ mb: 3 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ width: '40%' }}>Field</TableCell>
+                <TableCell>Value</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {fieldRows.map(row => (
+                <TableRow key={row.field}>
+                  <TableCell>
+                    <strong>{row.field}</strong>
+                  </TableCell>
+                  <TableCell>{formatDiffValue(row.value)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {courseRows.length > 0 && (
+            <>
+              <Typography variant="subtitle1" gutterBottom>
+                Courses
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Section</TableCell>
+                    {courseColumns.map(column => (
+                      <TableCell key={column}>{column}</TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {courseRows.map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{row.section}</TableCell>
+                      {courseColumns.map(column => (
+                        <TableCell key={column}>
+                          {formatDiffValue(row.values[column])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+interface JobReportProps {
+  jobId: string;
+  fileMeta?: TranscriptFileMeta;
+}
+
+const JobReport: React.FC<JobReportProps> = ({ jobId, fileMeta = {} }) => {
+  const [job, setJob] = useState<JobDiagnosticsResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+
+  const testIds = TestIds.jobs.report;
+
+  useEffect(() => {
+    const numericJobId = Number(jobId);
+    if (!Number.isInteger(numericJobId)) {
+      setError(`Invalid job ID: ${jobId}`);
+      setLoading(false);
+      return;
+    }
+
+    const controller = transcriptsApiHelpers.createAbortController();
+
+    const fetchJob = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await transcriptsApiHelpers.getJobStatus(
+          numericJobId,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        setJob(response.data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(getApiErrorMessage(err, 'Failed to load job report'));
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchJob();
+
+    return () => controller.abort();
+  }, [jobId]);
+
+  if (loading) {
+    return (
+      <Box
+        sx={{ display: 'flex', justifyContent: 'center', p: 3 }}
+        data-testid={testIds.loadingSpinner}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !job) {
+    return (
+      <Alert severity="error" data-testid={testIds.errorAlert}>
+        {error || 'Job not found'}
+      </Alert>
+    );
+  }
+
+  const fileInfo = buildTranscriptFileInfo(job, fileMeta);
+  const fileInfoRows: Array<[string, string]> = [
+    ['Filename', fileInfo.filename],
+    [
+      'File Size',
+      fileInfo.file_size ? formatFileSize(fileInfo.file_size) : 'N/A',
+    ],
+    ['File Type', fileInfo.file_type],
+    ['Uploaded', formatTimestamp(fileInfo.uploaded_at)],
+    ['Processing Started', formatTimestamp(fileInfo.processing_started_at)],
+    ['Processing Completed', formatTimestamp(fileInfo.processing_completed_at)],
+    [
+      'Total Processing Time',
+      `${fileInfo.total_processing_time_seconds} seconds`,
+    ],
+  ];
+
+  return (
+    <Box data-testid={testIds.page}>
+      {printStyles}
+
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 3,
+        }}
+      >
+        <Box>
+          <Typography variant="h4" component="h1">
+            Transcript Report
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Job #{job.id} · {job.overall_status}
+            {job.human_verified && ' · Human verified'}
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<PrintIcon />}
+          onClick={() => window.print()}
+          sx={{ displayPrint: 'none' }}
+          data-testid={testIds.printButton}
+        >
+          Print
+        </Button>
+      </Box>
+
+      <Typography variant="h6" gutterBottom>
+        File Information
+      </Typography>
+      <Table size="small" sx={{ mb: 4 }} data-testid={testIds.fileInfo}>
+        <TableBody>
+          {fileInfoRows.map(([label, value]) => (
+            <TableRow key={label}>
+              <TableCell sx={{ width: '40%' }}>
+                <strong>{label}</strong>
+              </TableCell>
+              <TableCell>{value}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {(job.documents || []).map(document => (
+        <ReportDocument key={document.id} document={document} />
+      ))}
+    </Box>
+  );
+};
+
+export default JobReport;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/JobReport.tsx
+// ──────────────────────────────────────────────────
@@ -4,10 +4,11 @@
  * Description: Displays a list of all processing jobs for the user.
  * Author: Muhammad Abubakar Khan
  * Created: 11-07-2024
- * Last Updated: 18-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
 import {
   Box,
   Typography,
@@ -20,63 +21,147 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  TableSortLabel,
   Paper,
   Chip,
   Card,
   CardContent,
   TablePagination,
+  Grid,
+  TextField,
+  MenuItem,
 } from '@mui/material';
 import { Refresh as RefreshIcon } from '@mui/icons-material';
-import { transcriptsApiHelpers } from '../services/transcriptsApi';
+import {
+  transcriptsApiHelpers,
+  type JobSortField,
+  type JobsListParams,
+} from '../services/transcriptsApi';
 import type { Job } from '../types';
 import { TestIds } from '../testIds';
-import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { useEntityState, usePagination, useEntityData } from '../hooks';
+import OrganizationsDropdown from './common/OrganizationsDropdown';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import { getJobStatusColor } from '../utils/transcriptFormatters';
+
+// ────────────────────────────────────────
+// Filter Configuration
+// ────────────────────────────────────────
+
+interface JobFilters {
+  status: string;
+  filename: string;
+  start_date: string;
+  end_date: string;
+  organization_id: string;
+  sort_by: JobSortField;
+  sort_order: 'asc' | 'desc';
+}
+
+const DEFAULT_JOB_FILTERS: JobFilters = {
+  status: '',
+  filename: '',
+  start_date: '',
+  end_date: '',
+  organization_id: '',
+  sort_by: 'upload_timestamp',
+  sort_order: 'desc',
+};
+
+const JOB_STATUSES = ['processing', 'completed', 'failed'];
+
+// Delay before a typed filename is sent to the server
+const FILENAME_DEBOUNCE_MS = 400;
 
 // ────────────────────────────────────────
 // Main Component
 // ────────────────────────────────────────
 
 const Jobs: React.FC = () => {
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const router = useRouter();
+  const {
+    entityState,
+    setEntityState,
+    pagination,
+    setPagination,
+    filters,
+    setFilters,
+  } = useEntityState<Job, JobFilters>(DEFAULT_JOB_FILTERS, 25);
+  const [filenameInput, setFilenameInput] = useState<string>('');
+
+  const paginationHandlers = usePagination(pagination, setPagination);
 
   // ────────────────────────────────────────
   // Data Fetching
   // ────────────────────────────────────────
 
-  const fetchJobs = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const response = await transcriptsApiHelpers.getJobsList();
-      setJobs(response.data);
-    } catch (err) {
-      setError(getApiErrorMessage(err));
-    } finally {
-      setLoading(false);
+  const { fetchData: fetchJobs } = useEntityData(
+    entityState,
+    setEntityState,
+    setPagination,
+    {
+      fetchFunction: async options => {
+        const params = (options?.params || {}) as JobsListParams;
+        const response = await transcriptsApiHelpers.getJobsList(
+          params,
+          options?.signal
+        );
+
+        return {
+          data: {
+            items: response.data.items || [],
+            total: response.data.total || 0,
+          },
+        };
+      },
+      filters,
+      pagination,
+      enabled: false, // Fetched by the effect below whenever filters change
     }
-  }, []);
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetchJobs();
+    }, 100);
+
+    return () => clearTimeout(timer);
+  }, [filters, pagination.page, pagination.pageSize]);
 
   useEffect(() => {
-    fetchJobs();
-  }, [fetchJobs]);
+    if (filenameInput === filters.filename) return;
+
+    const timer = setTimeout(() => {
+      handleFilterChange('filename', filenameInput.trim());
+    }, FILENAME_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [filenameInput]);
 
   // ────────────────────────────────────────
-  // Pagination Handlers
+  // Filter and Sort Handlers
   // ────────────────────────────────────────
 
-  const handleChangePage = (_event: unknown, newPage: number) => {
-    setPage(newPage);
+  const handleFilterChange = (field: keyof JobFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+    setPagination(prev => ({ ...prev, page: 0 })); // Reset to first page
+  };
+
+  const handleClearFilters = () => {
+    setFilenameInput('');
+    setFilters(DEFAULT_JOB_FILTERS);
+    setPagination(prev => ({ ...prev, page: 0 }));
   };
 
-  const handleChangeRowsPerPage = (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    setRowsPerPage(parseInt(event.target.value, 10));
-    setPage(0);
+  const handleSort = (field: JobSortField) => {
+    setFilters(prev => ({
+      ...prev,
+      sort_by: field,
+      // Toggle direction on the active column, newest/longest first otherwise
+      sort_order:
+        prev.sort_by === field && prev.sort_order === 'desc' ? 'asc' : 'desc',
+    }));
+    setPagination(prev => ({ ...prev, page: 0 }));
   };
 
   // ────────────────────────────────────────
@@ -94,49 +179,23 @@ const Jobs: React.FC = () => {
     });
   };
 
-  const getStatusChipColor = (
-    status: string
-  ): 'success' | 'primary' | 'error' | 'default' => {
-    switch (status.toLowerCase()) {
-      case 'completed':
-        return 'success';
-      case 'processing':
-        return 'primary';
-      case 'failed':
-        return 'error';
-      default:
-        return 'default';
-    }
-  };
+  const renderSortableHeader = (field: JobSortField, label: string) => (
+    <TableCell sortDirection={filters.sort_by === field && filters.sort_order}>
+      <TableSortLabel
+        active={filters.sort_by === field}
+        direction={filters.sort_by === field ? filters.sort_order : 'desc'}
+        onClick={() => handleSort(field)}
+        data-testid={TestIds.jobs.sortBy(field)}
+      >
+        {label}
+      </TableSortLabel>
+    </TableCell>
+  );
 
   // ────────────────────────────────────────
   // Render Logic
   // ────────────────────────────────────────
 
-  if (loading) {
-    return (
-      <Box
-        sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}
-        data-testid={TestIds.jobs.loadingSpinner}
-      >
-        <CircularProgress />
-      </Box>
-    );
-  }
-
-  if (error) {
-    return (
-      <Alert severity="error" data-testid={TestIds.jobs.errorAlert}>
-        {error}
-      </Alert>
-    );
-  }
-
-  const paginatedJobs = jobs.slice(
-    page * rowsPerPage,
-    page * rowsPerPage + rowsPerPage
-  );
-
   return (
     <Box data-testid={TestIds.jobs.pageContainer}>
       <Box
@@ -160,57 +219,200 @@ const Jobs: React.FC = () => {
         </Button>
       </Box>
 
-      <Card>
+      {/* Filters */}
+      <Card sx={{ mb: 3 }} data-testid={TestIds.jobs.filters.container}>
         <CardContent>
-          <TableContainer
-            component={Paper}
-            data-testid={TestIds.jobs.jobsTable}
+          <Box
+            display="flex"
+            alignItems="center"
+            justifyContent="space-between"
+            mb={2}
           >
-            <Table>
-              <TableHead>
-                <TableRow>
-                  <TableCell>Job ID</TableCell>
-                  <TableCell>Submitted</TableCell>
-                  <TableCell>Duration</TableCell>
-                  <TableCell>Status</TableCell>
-                </TableRow>
-              </TableHead>
-              <TableBody>
-                {paginatedJobs.map(job => (
-                  <TableRow
-                    key={job.job_id}
-                    data-testid={TestIds.jobs.jobRow(job.job_id)}
+            <Typography variant="h6">Filters</Typography>
+            <Button
+              variant="outlined"
+              color="secondary"
+              onClick={handleClearFilters}
+              data-testid={TestIds.jobs.filters.clearButton}
+            >
+              Clear
+            </Button>
+          </Box>
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={6} md={3}>
+              <TextField
+                fullWidth
+                label="Filename"
+                value={filenameInput}
+                onChange={e => setFilenameInput(e.target.value)}
+                placeholder="Search by filename"
+                inputProps={{ 'data-testid': TestIds.jobs.filters.filename }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                select
+                fullWidth
+                label="Status"
+                value={filters.status}
+                onChange={e => handleFilterChange('status', e.target.value)}
+                inputProps={{ 'data-testid': TestIds.jobs.filters.status }}
+              >
+                <MenuItem value="">All</MenuItem>
+                {JOB_STATUSES.map(status => (
+                  <MenuItem
+                    key={status}
+                    value={status}
+                    sx={{ textTransform: 'capitalize' }}
                   >
-                    <TableCell>Job #{job.job_id}</TableCell>
-                    <TableCell>
-                      {formatTimestamp(job.upload_timestamp)}
-                    </TableCell>
-                    <TableCell>
-                      {job.processing_duration_seconds !== null
-                        ? `${job.processing_duration_seconds.toFixed(1)}s`
-                        : 'N/A'}
-                    </TableCell>
-                    <TableCell>
-                      <Chip
-                        label={job.status}
-                        color={getStatusChipColor(job.status)}
-                        size="small"
-                        sx={{ textTransform: 'capitalize' }}
-                      />
-                    </TableCell>
-                  </TableRow>
+                    {status}
+                  </MenuItem>
                 ))}
-              </TableBody>
-            </Table>
-          </TableContainer>
+              </TextField>
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                fullWidth
+                type="date"
+                label="From"
+                value={filters.start_date}
+                onChange={e => handleFilterChange('start_date', e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{
+                  max: filters.end_date || undefined,
+                  'data-testid': TestIds.jobs.filters.startDate,
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6} md={2}>
+              <TextField
+                fullWidth
+                type="date"
+                label="To"
+                value={filters.end_date}
+                onChange={e => handleFilterChange('end_date', e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{
+                  min: filters.start_date || undefined,
+                  'data-testid': TestIds.jobs.filters.endDate,
+                }}
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <OrganizationsDropdown
+                value={filters.organization_id}
+                onChange={value =>
+                  handleFilterChange('organization_id', String(value))
+                }
+                label="Organization"
+                testIdPrefix={TestIds.jobs.filters.organizationPrefix}
+                showAllOption={true}
+                allOptionText="All Organizations"
+                fetchFromApi={true}
+                margin="none"
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {entityState.error && (
+        <Alert
+          severity="error"
+          sx={{ mb: 2 }}
+          data-testid={TestIds.jobs.errorAlert}
+        >
+          {entityState.error}
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent>
+          {entityState.loading ? (
+            <Box
+              sx={{ display: 'flex', justifyContent: 'center', p: 3 }}
+              data-testid={TestIds.jobs.loadingSpinner}
+            >
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer
+              component={Paper}
+              data-testid={TestIds.jobs.jobsTable}
+            >
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Job ID</TableCell>
+                    <TableCell>Filename</TableCell>
+                    {renderSortableHeader('upload_timestamp', 'Submitted')}
+                    {renderSortableHeader(
+                      'processing_duration_seconds',
+                      'Duration'
+                    )}
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entityState.data.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        <Typography variant="body2" color="text.secondary">
+                          No jobs match the current filters
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entityState.data.map(job => (
+                      <TableRow
+                        key={job.job_id}
+                        hover
+                        onClick={() => router.push(`/jobs/${job.job_id}`)}
+                        sx={{ cursor: 'pointer' }}
+                        data-testid={TestIds.jobs.jobRow(job.job_id)}
+                      >
+                        <TableCell>Job #{job.job_id}</TableCell>
+                        <TableCell>{job.filename || 'N/A'}</TableCell>
+                        <TableCell>
+                          {formatTimestamp(job.upload_timestamp)}
+                        </TableCell>
+                        <TableCell>
+                          {job.processing_duration_seconds !== null
+                            ? `${job.processing_duration_seconds.toFixed(1)}s`
+                            : 'N/A'}
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            label={job.status}
+                            color={getJobStatusColor(job.status)}
+                            size="small"
+                            sx={{ textTransform: 'capitalize' }}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          <TranscriptExportMenu
+                            jobId={job.job_id}
+                            fileMeta={{ filename: job.filename }}
+                            disabled={job.status !== 'completed'}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
           <TablePagination
             rowsPerPageOptions={[10, 25, 50, 100]}
             component="div"
-            count={jobs.length}
-            rowsPerPage={rowsPerPage}
-            page={page}
-            onPageChange={handleChangePage}
-            onRowsPerPageChange={handleChangeRowsPerPage}
+            count={pagination.total}
+            rowsPerPage={pagination.pageSize}
+            page={pagination.page}
+            onPageChange={paginationHandlers.handlePageChange}
+            onRowsPerPageChange={paginationHandlers.handlePageSizeChange}
+            data-testid={TestIds.jobs.pagination}
           />
         </CardContent>
       </Card>
@@ -25,6 +25,7 @@ interface MenuItemData {
   text: string;
   path: string;
   permission: Permission;
+  testId?: string;
 }
 
 const Navigation: React.FC = () => {
@@ -74,7 +75,12 @@ const Navigation: React.FC = () => {
       permission: PERMISSIONS.TRANSCRIPT_UPLOAD,
     },
     { text: 'Jobs', path: '/jobs', permission: PERMISSIONS.JOB_READ },
-    // { text: 'Audit Log', path: '/audit-log' },
+    {
+      text: 'Audit Log',
+      path: '/audit-log',
+      permission: PERMISSIONS.AUDIT_READ,
+      testId: TestIds.navigation.auditLog,
+    },
   ];
 
   return (
@@ -94,6 +100,7 @@ const Navigation: React.FC = () => {
                     onClick={() => router.push(item.path)}
                     sx={{ mx: 1 }}
                     data-testid={
+                      item.testId ??
                       TestIds.navigation[
                         item.path.slice(1) as keyof typeof TestIds.navigation
                       ]
@@ -0,0 +1,582 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/OrganizationApiKeys.tsx
+ * Description: API key management (create, reveal, rotate, revoke) for an organization
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Button,
+  TextField,
+  IconButton,
+  Tooltip,
+  Chip,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Visibility as VisibilityIcon,
+  VisibilityOff as VisibilityOffIcon,
+  ContentCopy as ContentCopyIcon,
+  Autorenew as AutorenewIcon,
+  Block as BlockIcon,
+  History as HistoryIcon,
+} from '@mui/icons-material';
+import NextLink from 'next/link';
+import { apiHelpers } from '../services/api';
+import {
+  type Organization,
+  type OrganizationApiKey,
+  type OrganizationApiKeySecret,
+} from '../types';
+import { TestIds } from '../testIds';
+import { useAuth } from '../contexts/AuthContext';
+import { PERMISSIONS } from '../config/roles';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { useAlert } from '@/contexts/AlertContext';
+import { getResponseItems } from '../utils/listResponse';
+import { getEntityAuditLogLink } from '@/utils/entityLinks';
+
+// Revealed keys are hidden again after this many seconds
+const REVEAL_TIMEOUT_SECONDS = 30;
+
+const MASKED_KEY_PLACEHOLDER = '••••••••••••••••';
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+type ApiKeyAction = 'rotate' | 'revoke';
+
+interface RevealedKey {
+  value: string;
+  expiresAt: number;
+}
+
+const formatDateTime = (value?: string | null): string =>
+  value ? new Date(value).toLocaleString() : 'Never';
+
+/**
+ * Records a reveal or rotation against the organization so it shows in its
+ * Audit Log. Callers await it before the key operation, which does not run
+ * when the event cannot be recorded.
+ */
+const recordApiKeyEvent = (
+  organizationId: string,
+  action: 'api_key_reveal' | 'api_key_rotate',
+  apiKey: OrganizationApiKey
+) =>
+  apiHelpers.createAuditLog({
+    entity_type: 'organization',
+    entity_id: organizationId,
+    action,
+    details: { api_key_id: apiKey.id, api_key_name: apiKey.name },
+  });
+
+// ────────────────────────────────────────
+// Confirm Action Dialog Component
+// ────────────────────────────────────────
+
+interface ConfirmApiKeyActionDialogProps {
+  action: ApiKeyAction;
+  apiKey: OrganizationApiKey;
+  loading: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+const ConfirmApiKeyActionDialog: React.FC<ConfirmApiKeyActionDialogProps> = ({
+  action,
+  apiKey,
+  loading,
+  onClose,
+  onConfirm,
+}) => (
+  <Dialog
+    open={true}
+    onClose={() => !loading && onClose()}
+    maxWidth="xs"
+    fullWidth
+    data-testid={TestIds.organizations.apiKeys.confirmDialog}
+  >
+    <DialogTitle>
+      {action === 'rotate' ? 'Rotate API Key' : 'Revoke API Key'}
+    </DialogTitle>
+    <DialogContent>
+      <DialogContentText>
+        {action === 'rotate'
+          ? `Rotating "${apiKey.name}" issues a new key and immediately invalidates the current one. Integrations using it will stop working until they are updated.`
+          : `Revoking "${apiKey.name}" permanently disables it. Integrations using it will stop working.`}
+      </DialogContentText>
+    </DialogContent>
+    <DialogActions>
+      <Button
+        onClick={onClose}
+        disabled={loading}
+        data-testid={TestIds.organizations.apiKeys.confirmCancel}
+      >
+        Cancel
+      </Button>
+      <Button
+        variant="contained"
+        color={action === 'revoke' ? 'error' : 'primary'}
+        onClick={onConfirm}
+        disabled={loading}
+        data-testid={TestIds.organizations.apiKeys.confirmSubmit}
+      >
+        {loading ? (
+          <CircularProgress size={20} />
+        ) : action === 'rotate' ? (
+          'Rotate'
+        ) : (
+          'Revoke'
+        )}
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+interface OrganizationApiKeysProps {
+  organization: Organization;
+}
+
+const OrganizationApiKeys: React.FC<OrganizationApiKeysProps> = ({
+  organization,
+}) => {
+  const { hasPermission } = useAuth();
+  const { showAlert } = useAlert();
+  const [apiKeys, setApiKeys] = useState<OrganizationApiKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [newKeyName, setNewKeyName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revealedKeys, setRevealedKeys] = useState<Record<string, RevealedKey>>(
+    {}
+  );
+  const [revealingKeyId, setRevealingKeyId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [pendingAction, setPendingAction] = useState<{
+    action: ApiKeyAction;
+    apiKey: OrganizationApiKey;
+  } | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const organizationId = String(organization.id);
+  const canManage = hasPermission(PERMISSIONS.ORGANIZATION_UPDATE);
+  const hasRevealedKeys = Object.keys(revealedKeys).length > 0;
+
+  const fetchApiKeys = useCallback(
+    async (signal?: AbortSignal): Promise<void> => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await apiHelpers.getOrganizationApiKeys(
+          organizationId,
+          signal
+        );
+        // Keys may come back as a plain array or as a paginated response
+        setApiKeys(getResponseItems(response.data));
+      } catch (error) {
+        if (signal?.aborted) return;
+        setError(getApiErrorMessage(error, 'Failed to fetch API keys'));
+        setApiKeys([]);
+      } finally {
+        if (!signal?.aborted) {
+          setLoading(false);
+        }
+      }
+    },
+    [organizationId]
+  );
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+    fetchApiKeys(controller.signal);
+    return () => controller.abort();
+  }, [fetchApiKeys]);
+
+  // Tick while keys are revealed so they are masked again on timeout
+  useEffect(() => {
+    if (!hasRevealedKeys) return;
+
+    const interval = setInterval(() => {
+      const currentTime = Date.now();
+      setNow(currentTime);
+      setRevealedKeys(prev => {
+        const active = Object.entries(prev).filter(
+          ([, revealed]) => revealed.expiresAt > currentTime
+        );
+        return active.length === Object.keys(prev).length
+          ? prev
+          : Object.fromEntries(active);
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [hasRevealedKeys]);
+
+  const showRevealedKey = (secret: OrganizationApiKeySecret): void => {
+    const currentTime = Date.now();
+    setNow(currentTime);
+    setRevealedKeys(prev => ({
+      ...prev,
+      [String(secret.id)]: {
+        value: secret.api_key,
+        expiresAt: currentTime + REVEAL_TIMEOUT_SECONDS * 1000,
+      },
+    }));
+  };
+
+  const hideKey = (keyId: string): void => {
+    setRevealedKeys(prev => {
+      const next = { ...prev };
+      delete next[keyId];
+      return next;
+    });
+  };
+
+  const handleCreateKey = async (): Promise<void> => {
+    const name = newKeyName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    try {
+      const response = await apiHelpers.createOrganizationApiKey(
+        organizationId,
+        name
+      );
+      setApiKeys(prev => [...prev, response.data]);
+      showRevealedKey(response.data);
+      setNewKeyName('');
+      showAlert('API key created. Copy it now, it will be hidden shortly.');
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to create API key'), 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevealKey = async (apiKey: OrganizationApiKey): Promise<void> => {
+    const keyId = String(apiKey.id);
+    setRevealingKeyId(keyId);
+    try {
+      await recordApiKeyEvent(organizationId, 'api_key_reveal', apiKey);
+      const response = await apiHelpers.revealOrganizationApiKey(
+        organizationId,
+        keyId
+      );
+      showRevealedKey({ ...apiKey, ...response.data, id: apiKey.id });
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to reveal API key'), 'error');
+    } finally {
+      setRevealingKeyId(null);
+    }
+  };
+
+  const handleCopyKey = (value: string): void => {
+    navigator.clipboard
+      .writeText(value)
+      .then(() => {
+        showAlert('API Key copied to clipboard!', 'success');
+      })
+      .catch(err => {
+        showAlert(`Failed to copy API Key: ${err}`, 'error');
+      });
+  };
+
+  const handleConfirmAction = async (): Promise<void> => {
+    if (!pendingAction) return;
+
+    const { action, apiKey } = pendingAction;
+    const keyId = String(apiKey.id);
+    setActionLoading(true);
+    try {
+      if (action === 'rotate') {
+        await recordApiKeyEvent(organizationId, 'api_key_rotate', apiKey);
+        const response = await apiHelpers.rotateOrganizationApiKey(
+          organizationId,
+          keyId
+        );
+        const rotatedKey = { ...apiKey, ...response.data };
+        setApiKeys(prev =>
+          prev.map(key => (String(key.id) === keyId ? rotatedKey : key))
+        );
+        // The rotated key may come back with a new id
+        hideKey(keyId);
+        showRevealedKey(rotatedKey);
+        showAlert('API key rotated. Copy the new key now.');
+      } else {
+        await apiHelpers.revokeOrganizationApiKey(organizationId, keyId);
+        setApiKeys(prev =>
+          prev.map(key =>
+            String(key.id) === keyId ? { ...key, status: 'revoked' } : key
+          )
+        );
+        hideKey(keyId);
+        showAlert('API key revoked');
+      }
+      setPendingAction(null);
+    } catch (error) {
+      showAlert(
+        getApiErrorMessage(error, `Failed to ${action} API key`),
+        'error'
+      );
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  return (
+    <Box sx={{ pt: 1 }} data-testid={TestIds.organizations.apiKeys.container}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 1,
+        }}
+      >
+        <Typography variant="h6">API Keys ({apiKeys.length})</Typography>
+        {hasPermission(PERMISSIONS.AUDIT_READ) && (
+          <Button
+            size="small"
+            component={NextLink}
+            href={getEntityAuditLogLink('organization', organization.id)}
+            startIcon={<HistoryIcon />}
+            data-testid={TestIds.organizations.apiKeys.auditLogLink}
+          >
+            View Audit Log
+          </Button>
+        )}
+      </Box>
+
+      {canManage && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            size="small"
+            label="New key name"
+            placeholder="e.g. Production integration"
+            value={newKeyName}
+            onChange={e => setNewKeyName(e.target.value)}
+            disabled={creating}
+            sx={{ flexGrow: 1 }}
+            inputProps={{
+              'data-testid': TestIds.organizations.apiKeys.nameInput,
+            }}
+          />
+          <Button
+            variant="outlined"
+            startIcon={creating ? <CircularProgress size={16} /> : <AddIcon />}
+            onClick={handleCreateKey}
+            disabled={creating || !newKeyName.trim()}
+            data-testid={TestIds.organizations.apiKeys.createButton}
+          >
+            Create Key
+          </Button>
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : apiKeys.length === 0 ? (
+        !error && (
+          <Typography variant="body2" color="text.secondary">
+            No API keys have been created for this organization
+          </Typography>
+        )
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Key</TableCell>
+                <TableCell>Created</TableCell>
+                <TableCell>Last Used</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {apiKeys.map(apiKey => {
+                const keyId = String(apiKey.id);
+                const revealed = revealedKeys[keyId];
+                const isRevoked = apiKey.status === 'revoked';
+                const secondsLeft = revealed
+                  ? Math.max(0, Math.ceil((revealed.expiresAt - now) / 1000))
+                  : 0;
+
+                return (
+                  <TableRow
+                    key={keyId}
+                    data-testid={TestIds.organizations.apiKeys.row(keyId)}
+                  >
+                    <TableCell>{apiKey.name}</TableCell>
+                    <TableCell>
+                      <Typography
+                        variant="body2"
+                        component="code"
+                        sx={{ wordBreak: 'break-all', fontFamily: 'monospace' }}
+                        data-testid={TestIds.organizations.apiKeys.keyDisplay(
+                          keyId
+                        )}
+                      >
+                        {revealed
+                          ? revealed.value
+                          : apiKey.masked_key || MASKED_KEY_PLACEHOLDER}
+                      </Typography>
+                      {revealed && (
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          display="block"
+                        >
+                          Hidden in {secondsLeft}s
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDateTime(apiKey.created_at)}</TableCell>
+                    <TableCell>{formatDateTime(apiKey.last_used_at)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={isRevoked ? 'Revoked' : 'Active'}
+                        color={isRevoked ? 'default' : 'success'}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', gap: 0.5 }}>
+                        {revealed ? (
+                          <>
+                            <Tooltip title="Hide API Key">
+                              <IconButton
+                                size="small"
+                                onClick={() => hideKey(keyId)}
+                                data-testid={TestIds.organizations.apiKeys.revealButton(
+                                  keyId
+                                )}
+                              >
+                                <VisibilityOffIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Copy API Key">
+                              <IconButton
+                                size="small"
+                                onClick={() => handleCopyKey(revealed.value)}
+                                data-testid={TestIds.organizations.apiKeys.copyButton(
+                                  keyId
+                                )}
+                              >
+                                <ContentCopyIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        ) : (
+                          canManage &&
+                          !isRevoked && (
+                            <Tooltip title="Reveal API Key">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  onClick={() => handleRevealKey(apiKey)}
+                                  disabled={revealingKeyId === keyId}
+                                  data-testid={TestIds.organizations.apiKeys.revealButton(
+                                    keyId
+                                  )}
+                                >
+                                  <VisibilityIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          )
+                        )}
+                        {canManage && !isRevoked && (
+                          <>
+                            <Tooltip title="Rotate API Key">
+                              <IconButton
+                                size="small"
+                                onClick={() =>
+                                  setPendingAction({ action: 'rotate', apiKey })
+                                }
+                                data-testid={TestIds.organizations.apiKeys.rotateButton(
+                                  keyId
+                                )}
+                              >
+                                <AutorenewIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Revoke API Key">
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() =>
+                                  setPendingAction({ action: 'revoke', apiKey })
+                                }
+                                data-testid={TestIds.organizations.apiKeys.revokeButton(
+                                  keyId
+                                )}
+                              >
+                                <BlockIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {pendingAction && (
+        <ConfirmApiKeyActionDialog
+          action={pendingAction.action}
+          apiKey={pendingAction.apiKey}
+          loading={actionLoading}
+          onClose={() => setPendingAction(null)}
+          onConfirm={handleConfirmAction}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default OrganizationApiKeys;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/OrganizationApiKeys.tsx
+// ──────────────────────────────────────────────────
@@ -0,0 +1,340 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/OrganizationMembers.tsx
+ * Description: Members of an organization with inline role and status management
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Button,
+  Select,
+  MenuItem,
+  Alert,
+  CircularProgress,
+  Chip,
+} from '@mui/material';
+import { PersonAdd as PersonAddIcon } from '@mui/icons-material';
+import { apiHelpers } from '../services/api';
+import {
+  type Organization,
+  type User,
+  type Domain,
+  type CreateUserRequest,
+} from '../types';
+import { getStatusBackgroundColor } from '../theme';
+import { TestIds } from '../testIds';
+import { useAuth } from '../contexts/AuthContext';
+import { PERMISSIONS } from '../config/roles';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { useAlert } from '@/contexts/AlertContext';
+import {
+  getDomainName,
+  getRoleColor,
+  getRoleDisplayName,
+  USER_ROLES,
+  USER_STATUSES,
+  getSelfChangeBlockReason,
+  applyUserChange,
+  type UserChange,
+} from '../utils/userFormatters';
+import { createUserWithDomain } from '../utils/createUserWithDomain';
+import { getResponseItems } from '../utils/listResponse';
+import CreateUserDialog from './common/CreateUserDialog';
+import ConfirmUserChangeDialog from './common/ConfirmUserChangeDialog';
+
+interface OrganizationMembersProps {
+  organization: Organization;
+}
+
+const OrganizationMembers: React.FC<OrganizationMembersProps> = ({
+  organization,
+}) => {
+  const { hasPermission, user: currentUser } = useAuth();
+  const { showAlert } = useAlert();
+  const [members, setMembers] = useState<User[]>([]);
+  const [domains, setDomains] = useState<Domain[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [updatingUserId, setUpdatingUserId] = useState<number | null>(null);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [pendingChange, setPendingChange] = useState<{
+    user: User;
+    change: UserChange;
+  } | null>(null);
+
+  const canUpdate = hasPermission(PERMISSIONS.USER_UPDATE);
+
+  const fetchMembers = useCallback(
+    async (signal?: AbortSignal): Promise<void> => {
+      setLoading(true);
+      setError('');
+      try {
+        const [usersResponse, domainsResponse] = await Promise.all([
+          apiHelpers.getOrganizationUsers(organization.id, signal),
+          apiHelpers.getOrganizationDomains(String(organization.id), signal),
+        ]);
+
+        setMembers(usersResponse.data.items || []);
+        // Domains may come back as a plain array or as a paginated response
+        setDomains(getResponseItems(domainsResponse.data));
+      } catch (error) {
+        if (signal?.aborted) return;
+        setError(getApiErrorMessage(error, 'Failed to fetch members'));
+        setMembers([]);
+      } finally {
+        if (!signal?.aborted) {
+          setLoading(false);
+        }
+      }
+    },
+    [organization.id]
+  );
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+    fetchMembers(controller.signal);
+    return () => controller.abort();
+  }, [fetchMembers]);
+
+  const sendUserChange = async (
+    member: User,
+    change: UserChange
+  ): Promise<User> => {
+    const response =
+      change.type === 'role'
+        ? await apiHelpers.updateUserRole(member.id, change.value)
+        : await apiHelpers.updateUserStatus(member.id, change.value);
+    return applyUserChange({ ...member, ...response.data }, change);
+  };
+
+  const replaceMember = (updatedMember: User): void => {
+    setMembers(prev =>
+      prev.map(user => (user.id === updatedMember.id ? updatedMember : user))
+    );
+  };
+
+  const handleRequestUserChange = (member: User, change: UserChange): void => {
+    const currentValue = change.type === 'role' ? member.role : member.status;
+    if (change.value === currentValue) return;
+
+    const blockReason = getSelfChangeBlockReason(currentUser, member, change);
+    if (blockReason) {
+      showAlert(blockReason, 'warning');
+      return;
+    }
+    setPendingChange({ user: member, change });
+  };
+
+  const handleConfirmUserChange = async (): Promise<void> => {
+    if (!pendingChange) return;
+
+    const { user: member, change } = pendingChange;
+    setPendingChange(null);
+    setUpdatingUserId(member.id);
+
+    // Update the row optimistically and roll back if the request fails
+    replaceMember(applyUserChange(member, change));
+    try {
+      replaceMember(await sendUserChange(member, change));
+      showAlert(`User ${change.type} updated successfully`);
+    } catch (error) {
+      replaceMember(member);
+      showAlert(getApiErrorMessage(error, 'Failed to update user'), 'error');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const handleInviteUser = async (
+    formData: CreateUserRequest
+  ): Promise<void> => {
+    try {
+      await createUserWithDomain({
+        ...formData,
+        organization_id: organization.id,
+      });
+      showAlert('User created and password copied to clipboard!');
+      setInviteDialogOpen(false);
+      fetchMembers();
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to create user'), 'error');
+    }
+  };
+
+  const getMemberName = (member: User): string =>
+    [member.first_name, member.last_name].filter(Boolean).join(' ') || '—';
+
+  return (
+    <Box sx={{ pt: 1 }} data-testid={TestIds.organizations.members.container}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">Members ({members.length})</Typography>
+        {hasPermission(PERMISSIONS.USER_CREATE) && (
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<PersonAddIcon />}
+            onClick={() => setInviteDialogOpen(true)}
+            data-testid={TestIds.organizations.members.inviteButton}
+          >
+            Invite User
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : members.length === 0 ? (
+        !error && (
+          <Typography variant="body2" color="text.secondary">
+            No users belong to this organization
+          </Typography>
+        )
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small" data-testid={TestIds.organizations.members.table}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Email</TableCell>
+                <TableCell>Domain</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {members.map(member => (
+                <TableRow key={member.id}>
+                  <TableCell>{getMemberName(member)}</TableCell>
+                  <TableCell>{member.email}</TableCell>
+                  <TableCell>
+                    {getDomainName(member, { [organization.id]: domains })}
+                  </TableCell>
+                  <TableCell>
+                    {canUpdate ? (
+                      <Select
+                        size="small"
+                        value={member.role}
+                        disabled={updatingUserId === member.id}
+                        onChange={e =>
+                          handleRequestUserChange(member, {
+                            type: 'role',
+                            value: e.target.value as User['role'],
+                          })
+                        }
+                        data-testid={TestIds.organizations.members.roleSelect(
+                          member.id
+                        )}
+                      >
+                        {USER_ROLES.map(role => (
+                          <MenuItem key={role} value={role}>
+                            {getRoleDisplayName(role)}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Chip
+                        label={getRoleDisplayName(member.role)}
+                        color={getRoleColor(member.role)}
+                        size="small"
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canUpdate ? (
+                      <Select
+                        size="small"
+                        value={member.status}
+                        disabled={updatingUserId === member.id}
+                        onChange={e =>
+                          handleRequestUserChange(member, {
+                            type: 'status',
+                            value: e.target.value as User['status'],
+                          })
+                        }
+                        data-testid={TestIds.organizations.members.statusSelect(
+                          member.id
+                        )}
+                      >
+                        {(USER_STATUSES.includes(member.status)
+                          ? USER_STATUSES
+                          : [member.status, ...USER_STATUSES]
+                        ).map(status => (
+                          <MenuItem key={status} value={status}>
+                            {status}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Chip
+                        label={member.status}
+                        size="small"
+                        style={{
+                          backgroundColor: getStatusBackgroundColor(
+                            member.status
+                          ),
+                          color: '#ffffff',
+                        }}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <CreateUserDialog
+        open={inviteDialogOpen}
+        onClose={() => setInviteDialogOpen(false)}
+        onSubmit={handleInviteUser}
+        organizations={[organization]}
+        domains={{ [organization.id]: domains }}
+        fixedOrganizationId={organization.id}
+      />
+
+      {pendingChange && (
+        <ConfirmUserChangeDialog
+          user={pendingChange.user}
+          change={pendingChange.change}
+          onClose={() => setPendingChange(null)}
+          onConfirm={handleConfirmUserChange}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default OrganizationMembers;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/OrganizationMembers.tsx
+// ──────────────────────────────────────────────────
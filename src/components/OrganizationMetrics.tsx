@@ -0,0 +1,292 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/OrganizationMetrics.tsx
+ * Description: Metrics and per-product usage overview for an organization
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Grid,
+  Paper,
+  Typography,
+  LinearProgress,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { apiHelpers } from '../services/api';
+import {
+  type OrganizationMetrics as OrganizationMetricsResponse,
+  type Subscription,
+  type Product,
+} from '../types';
+import { TestIds } from '../testIds';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { getUsageProgressColor } from '@/utils/usageFormatters';
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+interface NormalizedMetrics {
+  users: number | null;
+  activeSubscriptions: number | null;
+}
+
+/**
+ * Normalizes the inconsistent metric field names returned by the API
+ */
+const normalizeMetrics = (
+  metrics: OrganizationMetricsResponse
+): NormalizedMetrics => ({
+  users:
+    metrics.total_users ?? metrics.users_count ?? metrics.user_count ?? null,
+  activeSubscriptions:
+    metrics.active_subscriptions ??
+    metrics.subscriptions_count ??
+    metrics.subscription_count ??
+    null,
+});
+
+interface ProductUsage {
+  productId: string;
+  productName: string;
+  usage: number;
+  limit: number | null;
+}
+
+/**
+ * Aggregates subscription usage per product. A product without a limit on
+ * any of its subscriptions is treated as unlimited.
+ */
+const buildProductUsage = (
+  subscriptions: Subscription[],
+  products: Product[]
+): ProductUsage[] => {
+  const usageByProduct = new Map<string, ProductUsage>();
+
+  subscriptions.forEach(subscription => {
+    const subscriptionLimit =
+      subscription.max_limit ?? subscription.usage_limit ?? null;
+    const existing = usageByProduct.get(subscription.product_id);
+
+    if (existing) {
+      existing.usage += subscription.current_usage || 0;
+      existing.limit =
+        existing.limit !== null && subscriptionLimit !== null
+          ? existing.limit + subscriptionLimit
+          : null;
+      return;
+    }
+
+    const product = products.find(p => p.id === subscription.product_id);
+    usageByProduct.set(subscription.product_id, {
+      productId: subscription.product_id,
+      productName: product?.name || `Product ${subscription.product_id}`,
+      usage: subscription.current_usage || 0,
+      limit: subscriptionLimit,
+    });
+  });
+
+  return Array.from(usageByProduct.values());
+};
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+interface OrganizationMetricsProps {
+  organizationId: number;
+  subscriptions: Subscription[];
+  products: Product[];
+}
+
+const OrganizationMetrics: React.FC<OrganizationMetricsProps> = ({
+  organizationId,
+  subscriptions,
+  products,
+}) => {
+  const [metrics, setMetrics] = useState<NormalizedMetrics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+
+    const fetchMetrics = async (): Promise<void> => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await apiHelpers.getOrganizationMetrics(
+          organizationId,
+          controller.signal
+        );
+        if (response.data.error) {
+          setError(response.data.error);
+          setMetrics(null);
+        } else {
+          setMetrics(normalizeMetrics(response.data));
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setError(getApiErrorMessage(error, 'Failed to fetch metrics'));
+        setMetrics(null);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchMetrics();
+    return () => controller.abort();
+  }, [organizationId]);
+
+  const productUsage = useMemo(
+    () => buildProductUsage(subscriptions, products),
+    [subscriptions, products]
+  );
+
+  // Fall back to the loaded subscriptions when the API omits a metric
+  const activeSubscriptions =
+    metrics?.activeSubscriptions ??
+    subscriptions.filter(subscription => subscription.status === 'active')
+      .length;
+  const totalUsage = productUsage.reduce((sum, item) => sum + item.usage, 0);
+  const totalLimit = productUsage.every(item => item.limit !== null)
+    ? productUsage.reduce((sum, item) => sum + (item.limit ?? 0), 0)
+    : null;
+
+  return (
+    <Box sx={{ pt: 1 }} data-testid={TestIds.organizations.metrics.container}>
+      {error && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          data-testid={TestIds.organizations.metrics.error}
+        >
+          Organization metrics are unavailable: {error}. Usage below is
+          calculated from the organization&apos;s subscriptions.
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={4}>
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" color="text.secondary">
+                Users
+              </Typography>
+              <Typography
+                variant="h5"
+                data-testid={TestIds.organizations.metrics.users}
+              >
+                {metrics?.users ?? 'N/A'}
+              </Typography>
+            </Paper>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" color="text.secondary">
+                Active Subscriptions
+              </Typography>
+              <Typography
+                variant="h5"
+                data-testid={TestIds.organizations.metrics.activeSubscriptions}
+              >
+                {activeSubscriptions}
+              </Typography>
+            </Paper>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Paper variant="outlined" sx={{ p: 2 }}>
+              <Typography variant="subtitle2" color="text.secondary">
+                Total Usage
+              </Typography>
+              <Typography
+                variant="h5"
+                data-testid={TestIds.organizations.metrics.totalUsage}
+              >
+                {totalLimit !== null && productUsage.length > 0
+                  ? `${totalUsage} / ${totalLimit}`
+                  : totalUsage}
+              </Typography>
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Typography variant="h6" gutterBottom>
+              Usage by Product
+            </Typography>
+            {productUsage.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No subscriptions found for this organization
+              </Typography>
+            ) : (
+              productUsage.map(item => {
+                const percentage = item.limit
+                  ? (item.usage / item.limit) * 100
+                  : null;
+
+                return (
+                  <Box
+                    key={item.productId}
+                    sx={{ mb: 2 }}
+                    data-testid={TestIds.organizations.metrics.productUsage(
+                      item.productId
+                    )}
+                  >
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        mb: 0.5,
+                      }}
+                    >
+                      <Typography variant="body2">
+                        {item.productName}
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {item.limit !== null
+                          ? `${item.usage} / ${item.limit}`
+                          : `${item.usage} / Unlimited`}
+                      </Typography>
+                    </Box>
+                    {percentage !== null ? (
+                      <LinearProgress
+                        variant="determinate"
+                        value={Math.min(percentage, 100)}
+                        color={getUsageProgressColor(percentage)}
+                        sx={{ height: 8, borderRadius: 4 }}
+                      />
+                    ) : (
+                      <LinearProgress
+                        variant="determinate"
+                        value={0}
+                        sx={{ height: 8, borderRadius: 4 }}
+                      />
+                    )}
+                  </Box>
+                );
+              })
+            )}
+          </Grid>
+        </Grid>
+      )}
+    </Box>
+  );
+};
+
+export default OrganizationMetrics;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/OrganizationMetrics.tsx
+// ──────────────────────────────────────────────────
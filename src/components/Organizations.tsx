@@ -4,7 +4,7 @@
  * Description: Organizations management component for TondroAI CRM
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 04-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -48,7 +48,7 @@ import {
   Add as AddIcon,
   Remove as RemoveIcon,
   VisibilityOff as VisibilityOffIcon,
-  ContentCopy as ContentCopyIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material';
 import { debounce } from 'lodash';
 import { apiHelpers } from '../services/api';
@@ -60,17 +60,32 @@ import {
   ERROR_MESSAGES,
   type ProductSubscriptionRequest,
   type Subscription,
+  type ProductTier,
   type CreateSubscriptionRequest,
   type CreateOrganizationApiRequest,
+  type Domain,
+  type User,
 } from '../types';
 import { getStatusBackgroundColor } from '../theme';
 import { TestIds } from '../testIds';
-import { formatTierName, getTierColor } from '../utils/tierFormatter';
+import { useTierRegistry } from '../contexts/TierRegistryContext';
+import { getActiveProducts } from '../utils/productFormatters';
+import { formatMoneyTotals, DEFAULT_CURRENCY } from '../utils/moneyFormatter';
 import { getButtonProps } from '../utils/buttonStyles';
+import { getResponseItems } from '../utils/listResponse';
 import DomainManagement from './DomainManagement';
+import OrganizationMetrics from './OrganizationMetrics';
+import OrganizationMembers from './OrganizationMembers';
+import OrganizationApiKeys from './OrganizationApiKeys';
+import { DeleteSubscriptionDialog } from './SubscriptionLifecycle';
 import { useAuth } from '../contexts/AuthContext';
 import { PERMISSIONS } from '../config/roles';
-import { useEntityState, usePagination, useEntityData } from '../hooks';
+import {
+  useEntityState,
+  usePagination,
+  useEntityData,
+  useEntityDeepLink,
+} from '../hooks';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
 import { useAlert } from '@/contexts/AlertContext';
 
@@ -90,12 +105,42 @@ const mapStatusToApi = (displayStatus: string): string => {
   return statusMap[displayStatus] || displayStatus;
 };
 
+/**
+ * Estimates annual contract value per currency from active subscriptions.
+ * Tier prices are treated as annual list prices; subscriptions whose tier
+ * is not in the registry or has no price are skipped, so an empty result
+ * means no priced tier was found.
+ */
+const estimateAnnualContractValue = (
+  subscriptions: Subscription[],
+  getTier: (tierName: string, productId?: string) => ProductTier | undefined
+): Record<string, number> =>
+  subscriptions
+    .filter(subscription => subscription.status === 'active')
+    .reduce<Record<string, number>>((totals, subscription) => {
+      const tier = getTier(
+        subscription.tier || subscription.tier_name || '',
+        subscription.product_id
+      );
+      if (!tier || tier.price === null || Number.isNaN(Number(tier.price))) {
+        return totals;
+      }
+
+      const currency = (tier.currency || DEFAULT_CURRENCY).toUpperCase();
+      totals[currency] = (totals[currency] || 0) + Number(tier.price);
+      return totals;
+    }, {});
+
+const formatAnnualContractValue = (totals: Record<string, number>): string =>
+  Object.keys(totals).length > 0 ? formatMoneyTotals(totals) : '—';
+
 // ────────────────────────────────────────
 // Main Organizations Component
 // ────────────────────────────────────────
 
 const Organizations: React.FC = () => {
   const { hasPermission, user } = useAuth();
+  const { getTier, getTierLabel, getTierChipColor } = useTierRegistry();
   const {
     entityState,
     setEntityState,
@@ -116,6 +161,7 @@ const Organizations: React.FC = () => {
 
   const [products, setProducts] = useState<Product[]>([]);
   const [allSubscriptions, setAllSubscriptions] = useState<Subscription[]>([]);
+  const [deletingOrg, setDeletingOrg] = useState<Organization | null>(null);
 
   const { fetchData: fetchOrganizations, refetch: refetchOrganizations } =
     useEntityData(entityState, setEntityState, setPagination, {
@@ -145,6 +191,19 @@ const Organizations: React.FC = () => {
 
   const { showAlert } = useAlert();
 
+  // Open the details dialog when linked from another page (e.g. audit log)
+  const { clearDeepLink } = useEntityDeepLink<Organization>({
+    entityLabel: 'Organization',
+    loadEntity: async (id, signal) => {
+      const response = await apiHelpers.getOrganization(Number(id), signal);
+      return response.data;
+    },
+    onLoad: organization => {
+      setSelectedOrg(organization);
+      setEditMode(false);
+    },
+  });
+
   // ────────────────────────────────────────
   // API Functions
   // ────────────────────────────────────────
@@ -345,6 +404,7 @@ const Organizations: React.FC = () => {
         showAlert('Organization updated successfully', 'success');
         setSelectedOrg(null);
         setEditMode(false);
+        clearDeepLink();
         refetchOrganizations();
       } catch (error: any) {
         showAlert(
@@ -353,7 +413,14 @@ const Organizations: React.FC = () => {
         );
       }
     },
-    [selectedOrg, refetchOrganizations, showAlert, setSelectedOrg, setEditMode]
+    [
+      selectedOrg,
+      refetchOrganizations,
+      showAlert,
+      setSelectedOrg,
+      setEditMode,
+      clearDeepLink,
+    ]
   );
 
   // ────────────────────────────────────────
@@ -578,6 +645,11 @@ const Organizations: React.FC = () => {
                     <TableCell>Domain</TableCell>
                     <TableCell>Status</TableCell>
                     <TableCell>Subscriptions</TableCell>
+                    <TableCell>
+                      <Tooltip title="Sum of active subscription tier prices, treated as annual list prices">
+                        <span>Est. ACV</span>
+                      </Tooltip>
+                    </TableCell>
                     <TableCell>Actions</TableCell>
                   </TableRow>
                 </TableHead>
@@ -656,12 +728,14 @@ const Organizations: React.FC = () => {
                                           Tier:
                                         </Typography>
                                         <Chip
-                                          label={formatTierName(
-                                            sub.tier || sub.tier_name || ''
+                                          label={getTierLabel(
+                                            sub.tier || sub.tier_name || '',
+                                            sub.product_id
                                           )}
                                           size="small"
-                                          color={getTierColor(
-                                            sub.tier || sub.tier_name || ''
+                                          color={getTierChipColor(
+                                            sub.tier || sub.tier_name || '',
+                                            sub.product_id
                                           )}
                                         />
                                       </Grid>
@@ -694,6 +768,18 @@ const Organizations: React.FC = () => {
                             </Typography>
                           )}
                         </TableCell>
+                        <TableCell
+                          data-testid={TestIds.organizations.estimatedAcv(
+                            org.id
+                          )}
+                        >
+                          {formatAnnualContractValue(
+                            estimateAnnualContractValue(
+                              orgSubscriptions,
+                              getTier
+                            )
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Box sx={{ display: 'flex', gap: 1 }}>
                             {hasPermission(PERMISSIONS.ORGANIZATION_READ) && (
@@ -728,6 +814,20 @@ const Organizations: React.FC = () => {
                                 </IconButton>
                               </Tooltip>
                             )}
+                            {hasPermission(PERMISSIONS.ORGANIZATION_DELETE) && (
+                              <Tooltip title="Delete Organization">
+                                <IconButton
+                                  size="small"
+                                  color="error"
+                                  onClick={() => setDeletingOrg(org)}
+                                  data-testid={TestIds.organizations.delete(
+                                    org.id
+                                  )}
+                                >
+                                  <DeleteIcon />
+                                </IconButton>
+                              </Tooltip>
+                            )}
                           </Box>
                         </TableCell>
                       </TableRow>
@@ -777,10 +877,27 @@ const Organizations: React.FC = () => {
       {selectedOrg && !editMode && (
         <ViewOrganizationDialog
           organization={selectedOrg}
-          onClose={() => setSelectedOrg(null)}
+          onClose={() => {
+            setSelectedOrg(null);
+            clearDeepLink();
+          }}
           onUpdate={() => setEditMode(true)}
           allSubscriptions={allSubscriptions}
           products={products}
+          onSubscriptionsChange={fetchAllSubscriptions}
+        />
+      )}
+
+      {deletingOrg && (
+        <DeleteOrganizationDialog
+          organization={deletingOrg}
+          products={products}
+          onClose={() => setDeletingOrg(null)}
+          onDeleted={() => {
+            setDeletingOrg(null);
+            refetchOrganizations();
+            fetchAllSubscriptions();
+          }}
         />
       )}
 
@@ -790,6 +907,7 @@ const Organizations: React.FC = () => {
           onClose={() => {
             setSelectedOrg(null);
             setEditMode(false);
+            clearDeepLink();
           }}
           onSubmit={handleUpdateOrganization}
         />
@@ -813,6 +931,8 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
   onSubscriptionsChange,
   products,
 }) => {
+  const { getTiersForProduct, getTierLabel } = useTierRegistry();
+
   const addSubscription = () => {
     const today = new Date().toISOString().split('T')[0]; // Default to today in YYYY-MM-DD format
     const oneYearLater = new Date();
@@ -857,19 +977,10 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
     onSubscriptionsChange(newSubscriptions);
   };
 
-  const getTierOptions = (productId: string) => {
-    const product = products.find(p => p.id === productId);
-    if (!product) return [];
-
-    // Generate tier options based on product name
-    const productName = product.name.toLowerCase();
-    if (productName.includes('transcript')) {
-      return ['Trans 200', 'Trans 500', 'Trans 1000'];
-    } else if (productName.includes('admission')) {
-      return ['Admis 200', 'Admis 500', 'Admis 1000'];
-    }
-    return ['tier_1', 'tier_2', 'tier_3'];
-  };
+  const getTierOptions = (productId: string): string[] =>
+    getTiersForProduct(productId)
+      .filter(tier => tier.status === 'Active')
+      .map(tier => tier.tier_name);
   // Prevent duplicate product selections
   const selectedProductIds = useMemo(
     () => subscriptions.map(s => s.product_id.toString()),
@@ -952,7 +1063,7 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
                     'aria-label': 'Product selection',
                   }}
                 >
-                  {products.map(product => (
+                  {getActiveProducts(products).map(product => (
                     <MenuItem
                       key={product.id}
                       value={product.id}
@@ -998,7 +1109,7 @@ const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
                         tier
                       )} // ✅ Unique per option
                     >
-                      {formatTierName(tier)}
+                      {getTierLabel(tier, subscription.product_id)}
                     </MenuItem>
                   ))}
                 </Select>
@@ -1438,12 +1549,20 @@ const CreateOrganizationDialog: React.FC<CreateOrganizationDialogProps> = ({
 // View Organization Dialog Component
 // ────────────────────────────────────────
 
+type OrganizationDetailsTab =
+  | 'details'
+  | 'members'
+  | 'metrics'
+  | 'apiKeys'
+  | 'domains';
+
 interface ViewOrganizationDialogProps {
   organization: Organization;
   onClose: () => void;
   onUpdate: () => void;
   allSubscriptions: Subscription[];
   products: Product[];
+  onSubscriptionsChange: () => void;
 }
 
 const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
@@ -1451,57 +1570,19 @@ const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
   onClose,
   allSubscriptions,
   products,
+  onSubscriptionsChange,
 }) => {
-  // ────────────────────────────────────────
-  // API Key State & Handler
-  // ────────────────────────────────────────
-  const { showAlert } = useAlert();
-  const [apiKey, setApiKey] = useState<string | null>(null);
-  const [apiKeyLoading, setApiKeyLoading] = useState(false);
-  const [apiKeyError, setApiKeyError] = useState<string | null>(null);
-
-  /**
-   * Handles fetching the API key for the organization.
-   */
-  const handleViewApiKey = async () => {
-    setApiKeyError(null);
-    if (!organization.user_id) {
-      setApiKeyError('API key is not available for this organization');
-      return;
-    }
-    setApiKeyLoading(true);
-    try {
-      const response = await apiHelpers.getOrganizationApiKey(
-        organization.user_id.toString()
-      );
-      if (response.data.api_key) {
-        setApiKey(response.data.api_key);
-      } else {
-        setApiKeyError('Failed to fetch API key.');
-      }
-    } catch (err) {
-      setApiKeyError('Failed to fetch API key.');
-    } finally {
-      setApiKeyLoading(false);
-    }
-  };
+  const { hasPermission } = useAuth();
+  const { getTierLabel, getTierChipColor } = useTierRegistry();
+  const [deletingSubscription, setDeletingSubscription] =
+    useState<Subscription | null>(null);
 
-  const handleCopyApiKey = useCallback(() => {
-    if (apiKey) {
-      navigator.clipboard
-        .writeText(apiKey)
-        .then(() => {
-          showAlert('API Key copied to clipboard!', 'success');
-        })
-        .catch(err => {
-          showAlert(`Failed to copy API Key: ${err}`, 'error');
-        });
-    }
-  }, [apiKey, showAlert]);
-
-  const [activeTab, setActiveTab] = useState<number>(0);
+  const [activeTab, setActiveTab] = useState<OrganizationDetailsTab>('details');
 
-  const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
+  const handleTabChange = (
+    _event: React.SyntheticEvent,
+    newValue: OrganizationDetailsTab
+  ) => {
     setActiveTab(newValue);
   };
 
@@ -1572,57 +1653,6 @@ const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
               size="small"
             />
           </Grid>
-          <Grid item xs={12} sm={6}>
-            {!apiKey && (
-              <Button
-                variant="outlined"
-                size="small"
-                sx={{ mb: 1 }}
-                onClick={handleViewApiKey}
-                data-testid={TestIds.organizations.viewDialog.apiKeyButton}
-                disabled={apiKeyLoading}
-              >
-                {apiKeyLoading ? (
-                  <CircularProgress size={18} />
-                ) : (
-                  'View API Key'
-                )}
-              </Button>
-            )}
-            {apiKey && (
-              <Paper
-                variant="outlined"
-                sx={{
-                  p: 1.5,
-                  mt: 1,
-                  backgroundColor: 'grey.100',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'space-between',
-                  gap: 2,
-                }}
-                data-testid={TestIds.organizations.viewDialog.apiKeyDisplay}
-              >
-                <Typography
-                  variant="body2"
-                  component="code"
-                  sx={{
-                    wordBreak: 'break-all',
-                    fontFamily: 'monospace',
-                    fontSize: '0.875rem',
-                  }}
-                >
-                  {apiKey}
-                </Typography>
-                <Tooltip title="Copy API Key">
-                  <IconButton onClick={handleCopyApiKey} size="small">
-                    <ContentCopyIcon fontSize="small" />
-                  </IconButton>
-                </Tooltip>
-              </Paper>
-            )}
-            {apiKeyError && <Alert severity="error">{apiKeyError}</Alert>}
-          </Grid>
           <Grid item xs={12} sm={6}>
             <Typography
               variant="subtitle2"
@@ -1677,12 +1707,14 @@ const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
                             Tier:
                           </Typography>
                           <Chip
-                            label={formatTierName(
-                              sub.tier || sub.tier_name || ''
+                            label={getTierLabel(
+                              sub.tier || sub.tier_name || '',
+                              sub.product_id
                             )}
                             size="small"
-                            color={getTierColor(
-                              sub.tier || sub.tier_name || ''
+                            color={getTierChipColor(
+                              sub.tier || sub.tier_name || '',
+                              sub.product_id
                             )}
                           />
                         </Grid>
@@ -1771,6 +1803,21 @@ const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
                             {new Date(sub.updated_at).toLocaleString()}
                           </Typography>
                         </Grid>
+                        {hasPermission(PERMISSIONS.SUBSCRIPTION_DELETE) && (
+                          <Grid item xs={12} sx={{ textAlign: 'right' }}>
+                            <Button
+                              size="small"
+                              color="error"
+                              startIcon={<DeleteIcon />}
+                              onClick={() => setDeletingSubscription(sub)}
+                              data-testid={TestIds.organizations.viewDialog.deleteSubscription(
+                                sub.id
+                              )}
+                            >
+                              Delete Subscription
+                            </Button>
+                          </Grid>
+                        )}
                       </Grid>
                     </Card>
                   );
@@ -1811,12 +1858,42 @@ const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
               onChange={handleTabChange}
               sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}
             >
-              <Tab label="Details" />
-              <Tab label="Domain Management" />
+              <Tab label="Details" value="details" />
+              {hasPermission(PERMISSIONS.USER_READ) && (
+                <Tab
+                  label="Members"
+                  value="members"
+                  data-testid={TestIds.organizations.viewDialog.membersTab}
+                />
+              )}
+              <Tab
+                label="Metrics"
+                value="metrics"
+                data-testid={TestIds.organizations.viewDialog.metricsTab}
+              />
+              <Tab
+                label="API Keys"
+                value="apiKeys"
+                data-testid={TestIds.organizations.viewDialog.apiKeysTab}
+              />
+              <Tab label="Domain Management" value="domains" />
             </Tabs>
 
-            {activeTab === 0 && renderOrganizationDetails()}
-            {activeTab === 1 && renderDomainManagement()}
+            {activeTab === 'details' && renderOrganizationDetails()}
+            {activeTab === 'members' && (
+              <OrganizationMembers organization={organization} />
+            )}
+            {activeTab === 'metrics' && (
+              <OrganizationMetrics
+                organizationId={organization.id}
+                subscriptions={getOrganizationSubscriptions()}
+                products={products}
+              />
+            )}
+            {activeTab === 'apiKeys' && (
+              <OrganizationApiKeys organization={organization} />
+            )}
+            {activeTab === 'domains' && renderDomainManagement()}
           </>
         )}
       </DialogContent>
@@ -1828,6 +1905,285 @@ const ViewOrganizationDialog: React.FC<ViewOrganizationDialogProps> = ({
           Close
         </Button>
       </DialogActions>
+
+      {deletingSubscription && (
+        <DeleteSubscriptionDialog
+          subscription={deletingSubscription}
+          organizationName={
+            organization.name || `Organization ${organization.id}`
+          }
+          productName={
+            products.find(p => p.id === deletingSubscription.product_id)
+              ?.name || `Product ${deletingSubscription.product_id}`
+          }
+          onClose={() => setDeletingSubscription(null)}
+          onDeleted={() => {
+            setDeletingSubscription(null);
+            onSubscriptionsChange();
+          }}
+        />
+      )}
+    </Dialog>
+  );
+};
+
+// ────────────────────────────────────────
+// Delete Organization Dialog Component
+// ────────────────────────────────────────
+
+interface OrganizationDependencies {
+  users: User[];
+  userCount: number;
+  subscriptions: Subscription[];
+  subscriptionCount: number;
+  domains: Domain[];
+}
+
+interface DeleteOrganizationDialogProps {
+  organization: Organization;
+  products: Product[];
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+const DeleteOrganizationDialog: React.FC<DeleteOrganizationDialogProps> = ({
+  organization,
+  products,
+  onClose,
+  onDeleted,
+}) => {
+  const { showAlert } = useAlert();
+  const [dependencies, setDependencies] =
+    useState<OrganizationDependencies | null>(null);
+  const [previewLoading, setPreviewLoading] = useState<boolean>(true);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string>('');
+  const [deleting, setDeleting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDependencies = useCallback(
+    async (signal?: AbortSignal): Promise<void> => {
+      setPreviewLoading(true);
+      setPreviewError(null);
+      try {
+        const [usersResponse, subscriptionsResponse, domainsResponse] =
+          await Promise.all([
+            apiHelpers.getOrganizationUsers(organization.id, signal),
+            apiHelpers.getOrganizationSubscriptions(
+              String(organization.id),
+              false,
+              signal
+            ),
+            apiHelpers.getOrganizationDomains(String(organization.id), signal),
+          ]);
+
+        // Domains may come back as a plain array or as a paginated response
+        const domains: Domain[] = getResponseItems(domainsResponse.data);
+
+        const users = usersResponse.data.items || [];
+        const subscriptions = subscriptionsResponse.data.items || [];
+
+        setDependencies({
+          users,
+          userCount: usersResponse.data.total ?? users.length,
+          subscriptions,
+          subscriptionCount:
+            subscriptionsResponse.data.total ?? subscriptions.length,
+          domains,
+        });
+      } catch (error) {
+        if (signal?.aborted) return;
+        setPreviewError(
+          getApiErrorMessage(error, 'Failed to load organization dependencies')
+        );
+      } finally {
+        if (!signal?.aborted) {
+          setPreviewLoading(false);
+        }
+      }
+    },
+    [organization.id]
+  );
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+    fetchDependencies(controller.signal);
+    return () => controller.abort();
+  }, [fetchDependencies]);
+
+  const hasDependents =
+    !!dependencies &&
+    (dependencies.userCount > 0 ||
+      dependencies.subscriptionCount > 0 ||
+      dependencies.domains.length > 0);
+
+  // Force deletion requires the organization name to be typed exactly
+  const isConfirmed = !hasDependents || confirmation === organization.name;
+
+  const handleDelete = async (): Promise<void> => {
+    if (!dependencies || !isConfirmed) return;
+
+    setDeleting(true);
+    setError(null);
+    try {
+      await apiHelpers.deleteOrganization(organization.id, hasDependents);
+      showAlert(
+        hasDependents
+          ? 'Organization and its dependents deleted successfully'
+          : 'Organization deleted successfully',
+        'success'
+      );
+      onDeleted();
+    } catch (error) {
+      setError(getApiErrorMessage(error, 'Failed to delete organization'));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const getProductLabel = (subscription: Subscription): string => {
+    const product = products.find(p => p.id === subscription.product_id);
+    const productName = product?.name || `Product ${subscription.product_id}`;
+    return `${productName} (${subscription.status})`;
+  };
+
+  const renderDependencyList = (
+    title: string,
+    count: number,
+    labels: string[]
+  ) => (
+    <Grid item xs={12} sm={4}>
+      <Typography variant="subtitle2" color="text.secondary" component="div">
+        {title} ({count})
+      </Typography>
+      {labels.slice(0, 5).map((label, index) => (
+        <Typography key={index} variant="body2" component="div" noWrap>
+          {label}
+        </Typography>
+      ))}
+      {count > 5 && (
+        <Typography variant="body2" color="text.secondary" component="div">
+          and {count - 5} more
+        </Typography>
+      )}
+    </Grid>
+  );
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      data-testid={TestIds.organizations.deleteDialog.container}
+    >
+      <DialogTitle>Delete Organization: {organization.name}</DialogTitle>
+      <DialogContent>
+        {previewLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {previewError && (
+          <Alert
+            severity="error"
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => fetchDependencies()}
+              >
+                Retry
+              </Button>
+            }
+          >
+            {previewError}
+          </Alert>
+        )}
+
+        {!previewLoading && dependencies && (
+          <>
+            {hasDependents ? (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                This organization still has users, subscriptions or domains.
+                Force deleting it will remove all of them as well.
+              </Alert>
+            ) : (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                This organization has no users, subscriptions or domains and can
+                be deleted safely.
+              </Alert>
+            )}
+
+            <Grid
+              container
+              spacing={2}
+              data-testid={TestIds.organizations.deleteDialog.dependencies}
+            >
+              {renderDependencyList(
+                'Users',
+                dependencies.userCount,
+                dependencies.users.map(user => user.email)
+              )}
+              {renderDependencyList(
+                'Subscriptions',
+                dependencies.subscriptionCount,
+                dependencies.subscriptions.map(getProductLabel)
+              )}
+              {renderDependencyList(
+                'Domains',
+                dependencies.domains.length,
+                dependencies.domains.map(
+                  domain => domain.domain_name || domain.name || ''
+                )
+              )}
+            </Grid>
+
+            {hasDependents && (
+              <TextField
+                fullWidth
+                margin="normal"
+                label={`Type "${organization.name}" to confirm`}
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+                inputProps={{
+                  'data-testid':
+                    TestIds.organizations.deleteDialog.confirmInput,
+                }}
+              />
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert
+            severity="error"
+            sx={{ mt: 2 }}
+            data-testid={TestIds.organizations.deleteDialog.error}
+          >
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          disabled={deleting}
+          data-testid={TestIds.organizations.deleteDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleDelete}
+          disabled={deleting || previewLoading || !dependencies || !isConfirmed}
+          data-testid={TestIds.organizations.deleteDialog.submit}
+        >
+          {deleting ? 'Deleting...' : hasDependents ? 'Force Delete' : 'Delete'}
+        </Button>
+      </DialogActions>
     </Dialog>
   );
 };
@@ -0,0 +1,44 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/PermissionGuard.tsx
+ * Description: Restricts page content to users holding a given permission.
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { type ReactNode } from 'react';
+import { Alert, Box } from '@mui/material';
+import { useAuth, type Permission } from '../contexts/AuthContext';
+import { TestIds } from '../testIds';
+
+interface PermissionGuardProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+/**
+ * A component that renders its children only when the current user holds
+ * the required permission. Authentication itself is handled by `AuthGuard`.
+ * @param {PermissionGuardProps} props The component props.
+ * @returns {ReactNode} The children if permitted, or an access denied message.
+ */
+export const PermissionGuard = ({
+  permission,
+  children,
+}: PermissionGuardProps): ReactNode => {
+  const { hasPermission } = useAuth();
+
+  if (!hasPermission(permission)) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert severity="error" data-testid={TestIds.common.accessDenied}>
+          You do not have permission to view this page.
+        </Alert>
+      </Box>
+    );
+  }
+
+  return <>{children}</>;
+};
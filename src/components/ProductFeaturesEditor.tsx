@@ -0,0 +1,203 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/ProductFeaturesEditor.tsx
+ * Description: Editor for product feature keys and their per-tier availability
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Button,
+  TextField,
+  Checkbox,
+  IconButton,
+  Alert,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { type ProductFeature, type ProductTier } from '../types';
+import { TestIds } from '../testIds';
+import { validateProductFeatures } from '../utils/productFormatters';
+
+interface ProductFeaturesEditorProps {
+  features: ProductFeature[];
+  tiers: ProductTier[];
+  onChange: (features: ProductFeature[]) => void;
+  noTiersMessage?: string; // Shown in place of the tier columns
+}
+
+const ProductFeaturesEditor: React.FC<ProductFeaturesEditorProps> = ({
+  features,
+  tiers,
+  onChange,
+  noTiersMessage = 'Features can be enabled per tier once the product has tiers.',
+}) => {
+  const validationError = validateProductFeatures(features);
+
+  const updateFeature = (index: number, changes: Partial<ProductFeature>) => {
+    onChange(
+      features.map((feature, i) =>
+        i === index ? { ...feature, ...changes } : feature
+      )
+    );
+  };
+
+  const toggleTier = (index: number, tierName: string, enabled: boolean) => {
+    const feature = features[index];
+    if (!feature) return;
+
+    updateFeature(index, {
+      enabled_tiers: enabled
+        ? [...feature.enabled_tiers, tierName]
+        : feature.enabled_tiers.filter(name => name !== tierName),
+    });
+  };
+
+  const addFeature = () => {
+    onChange([...features, { key: '', description: '', enabled_tiers: [] }]);
+  };
+
+  const removeFeature = (index: number) => {
+    onChange(features.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Box data-testid={TestIds.products.features.container}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 1,
+        }}
+      >
+        <Typography variant="subtitle1">Features</Typography>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={addFeature}
+          data-testid={TestIds.products.features.addButton}
+        >
+          Add Feature
+        </Button>
+      </Box>
+
+      {tiers.length === 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {noTiersMessage}
+        </Typography>
+      )}
+
+      {features.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No features configured
+        </Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small" data-testid={TestIds.products.features.table}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Key</TableCell>
+                <TableCell>Description</TableCell>
+                {tiers.map(tier => (
+                  <TableCell key={tier.id} align="center">
+                    {tier.display_name}
+                  </TableCell>
+                ))}
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {features.map((feature, index) => (
+                <TableRow key={index}>
+                  <TableCell sx={{ minWidth: 160 }}>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={feature.key}
+                      placeholder="feature_key"
+                      onChange={e =>
+                        updateFeature(index, { key: e.target.value.trim() })
+                      }
+                      inputProps={{
+                        'data-testid': TestIds.products.features.key(index),
+                        'aria-label': 'Feature key',
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ minWidth: 200 }}>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={feature.description}
+                      placeholder="What the feature enables"
+                      onChange={e =>
+                        updateFeature(index, { description: e.target.value })
+                      }
+                      inputProps={{
+                        'data-testid':
+                          TestIds.products.features.description(index),
+                        'aria-label': 'Feature description',
+                      }}
+                    />
+                  </TableCell>
+                  {tiers.map(tier => (
+                    <TableCell key={tier.id} align="center">
+                      <Checkbox
+                        size="small"
+                        checked={feature.enabled_tiers.includes(tier.tier_name)}
+                        onChange={e =>
+                          toggleTier(index, tier.tier_name, e.target.checked)
+                        }
+                        inputProps={{
+                          'aria-label': `Enable for ${tier.display_name}`,
+                        }}
+                        data-testid={TestIds.products.features.tierToggle(
+                          index,
+                          tier.tier_name
+                        )}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => removeFeature(index)}
+                      data-testid={TestIds.products.features.remove(index)}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {validationError && (
+        <Alert severity="error" sx={{ mt: 1 }}>
+          {validationError}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default ProductFeaturesEditor;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/ProductFeaturesEditor.tsx
+// ──────────────────────────────────────────────────
@@ -0,0 +1,90 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/ProductSettingsEditor.tsx
+ * Description: JSON editor for product settings with schema validation
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useMemo } from 'react';
+import { Box, Typography, TextField, Alert } from '@mui/material';
+import { TestIds } from '../testIds';
+import { parseProductSettings } from '../utils/productFormatters';
+import { PRODUCT_SETTINGS_SCHEMA } from '../config/productSettingsSchema';
+
+interface ProductSettingsEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const ProductSettingsEditor: React.FC<ProductSettingsEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const { errors } = useMemo(() => parseProductSettings(value), [value]);
+
+  const knownSettings = Object.entries(
+    PRODUCT_SETTINGS_SCHEMA.properties || {}
+  );
+
+  return (
+    <Box data-testid={TestIds.products.settings.container}>
+      <Typography variant="subtitle1" gutterBottom>
+        Settings
+      </Typography>
+      <TextField
+        fullWidth
+        multiline
+        minRows={4}
+        maxRows={16}
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        placeholder="{}"
+        error={errors.length > 0}
+        helperText="JSON object. Leave empty for no settings."
+        inputProps={{
+          'data-testid': TestIds.products.settings.input,
+          'aria-label': 'Product settings JSON',
+          spellCheck: false,
+          style: { fontFamily: 'monospace' },
+        }}
+      />
+
+      {knownSettings.length > 0 && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          component="div"
+          sx={{ mt: 1 }}
+        >
+          Known settings:{' '}
+          {knownSettings
+            .map(([key, schema]) =>
+              schema.description ? `${key} (${schema.description})` : key
+            )
+            .join(', ')}
+        </Typography>
+      )}
+
+      {errors.length > 0 && (
+        <Alert
+          severity="error"
+          sx={{ mt: 1 }}
+          data-testid={TestIds.products.settings.errors}
+        >
+          {errors.map(error => (
+            <div key={error}>{error}</div>
+          ))}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default ProductSettingsEditor;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/ProductSettingsEditor.tsx
+// ──────────────────────────────────────────────────
@@ -0,0 +1,608 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/ProductTierManager.tsx
+ * Description: Tier administration and comparison for a single product
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Button,
+  TextField,
+  IconButton,
+  Tooltip,
+  Chip,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Grid,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  Block as BlockIcon,
+  CheckCircle as CheckCircleIcon,
+} from '@mui/icons-material';
+import { apiHelpers } from '../services/api';
+import {
+  type Product,
+  type ProductTier,
+  type CreateProductTierRequest,
+} from '../types';
+import { TestIds } from '../testIds';
+import { useAuth } from '../contexts/AuthContext';
+import { PERMISSIONS } from '../config/roles';
+import { useProductTiersByProduct } from '../hooks';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { useAlert } from '@/contexts/AlertContext';
+import { useTierRegistry } from '@/contexts/TierRegistryContext';
+import { formatMoney, DEFAULT_CURRENCY } from '../utils/moneyFormatter';
+import CurrencySelect from './common/CurrencySelect';
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+const TIER_NAME_PATTERN = /^[a-z0-9_]+$/;
+
+const formatPrice = (tier: ProductTier): string =>
+  formatMoney(Number(tier.price), tier.currency);
+
+const formatUnitPrice = (tier: ProductTier): string =>
+  tier.max_limit > 0
+    ? formatMoney(tier.price / tier.max_limit, tier.currency, {
+        maximumFractionDigits: 4,
+      })
+    : 'N/A';
+
+// ────────────────────────────────────────
+// Tier Dialog Component
+// ────────────────────────────────────────
+
+interface ProductTierDialogProps {
+  tier: ProductTier | null;
+  onClose: () => void;
+  onSubmit: (data: CreateProductTierRequest) => Promise<void>;
+}
+
+const ProductTierDialog: React.FC<ProductTierDialogProps> = ({
+  tier,
+  onClose,
+  onSubmit,
+}) => {
+  const [formData, setFormData] = useState({
+    tier_name: tier?.tier_name || '',
+    display_name: tier?.display_name || '',
+    max_limit: tier ? String(tier.max_limit) : '',
+    price: tier ? String(tier.price) : '',
+    currency: tier?.currency || DEFAULT_CURRENCY,
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    const maxLimit = Number(formData.max_limit);
+    const price = Number(formData.price);
+
+    if (!tier && !TIER_NAME_PATTERN.test(formData.tier_name.trim())) {
+      newErrors.tier_name =
+        'Use lowercase letters, numbers and underscores (e.g. transcripts_500)';
+    }
+    if (!formData.display_name.trim()) {
+      newErrors.display_name = 'Display name is required';
+    }
+    if (
+      formData.max_limit === '' ||
+      !Number.isInteger(maxLimit) ||
+      maxLimit <= 0
+    ) {
+      newErrors.max_limit = 'Max limit must be a positive whole number';
+    }
+    if (formData.price === '' || Number.isNaN(price) || price < 0) {
+      newErrors.price = 'Price must be zero or more';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        tier_name: formData.tier_name.trim(),
+        display_name: formData.display_name.trim(),
+        max_limit: Number(formData.max_limit),
+        price: Number(formData.price),
+        currency: formData.currency,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      data-testid={TestIds.products.tiers.dialog.container}
+    >
+      <DialogTitle>{tier ? 'Edit Tier' : 'Create Tier'}</DialogTitle>
+      <DialogContent>
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              label="Tier Name"
+              value={formData.tier_name}
+              onChange={e => handleChange('tier_name', e.target.value)}
+              error={!!errors.tier_name}
+              helperText={
+                errors.tier_name ||
+                (tier ? 'Tier names cannot be changed' : 'Internal identifier')
+              }
+              disabled={loading || Boolean(tier)}
+              required
+              inputProps={{
+                'data-testid': TestIds.products.tiers.dialog.tierName,
+              }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              label="Display Name"
+              value={formData.display_name}
+              onChange={e => handleChange('display_name', e.target.value)}
+              error={!!errors.display_name}
+              helperText={errors.display_name}
+              disabled={loading}
+              required
+              inputProps={{
+                'data-testid': TestIds.products.tiers.dialog.displayName,
+              }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Max Limit"
+              value={formData.max_limit}
+              onChange={e => handleChange('max_limit', e.target.value)}
+              error={!!errors.max_limit}
+              helperText={errors.max_limit}
+              disabled={loading}
+              required
+              inputProps={{
+                min: 1,
+                'data-testid': TestIds.products.tiers.dialog.maxLimit,
+              }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Price"
+              value={formData.price}
+              onChange={e => handleChange('price', e.target.value)}
+              error={!!errors.price}
+              helperText={errors.price}
+              disabled={loading}
+              required
+              inputProps={{
+                min: 0,
+                step: '0.01',
+                'data-testid': TestIds.products.tiers.dialog.price,
+              }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <CurrencySelect
+              value={formData.currency}
+              onChange={value => handleChange('currency', value)}
+              disabled={loading}
+              testId={TestIds.products.tiers.dialog.currency}
+            />
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          disabled={loading}
+          data-testid={TestIds.products.tiers.dialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={loading}
+          data-testid={TestIds.products.tiers.dialog.submit}
+        >
+          {loading ? (
+            <CircularProgress size={20} />
+          ) : tier ? (
+            'Update'
+          ) : (
+            'Create'
+          )}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+interface ProductTierManagerProps {
+  product: Product;
+}
+
+const ProductTierManager: React.FC<ProductTierManagerProps> = ({ product }) => {
+  const productId = String(product.id);
+  const { hasPermission } = useAuth();
+  const { showAlert } = useAlert();
+  const { refreshTiers } = useTierRegistry();
+  const { tiers, loading, error, refetch } =
+    useProductTiersByProduct(productId);
+  const [orderedTiers, setOrderedTiers] = useState<ProductTier[]>([]);
+  const [dialogTier, setDialogTier] = useState<ProductTier | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [updatingTierId, setUpdatingTierId] = useState<string | null>(null);
+
+  const canManage = hasPermission(PERMISSIONS.PRODUCT_UPDATE);
+  const activeTiers = orderedTiers.filter(tier => tier.status === 'Active');
+
+  useEffect(() => {
+    setOrderedTiers(tiers);
+  }, [tiers]);
+
+  const openDialog = (tier: ProductTier | null) => {
+    setDialogTier(tier);
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setDialogTier(null);
+  };
+
+  // Keep the shared registry in sync so tier labels update across the app
+  const reloadTiers = () => {
+    refetch();
+    refreshTiers();
+  };
+
+  const handleSubmitTier = async (
+    formData: CreateProductTierRequest
+  ): Promise<void> => {
+    try {
+      if (dialogTier) {
+        // The tier name is the identifier and cannot be changed
+        await apiHelpers.updateProductTier(dialogTier.id, {
+          display_name: formData.display_name,
+          max_limit: formData.max_limit,
+          price: formData.price,
+          currency: formData.currency,
+        });
+        showAlert('Tier updated successfully');
+      } else {
+        await apiHelpers.createProductTier(productId, {
+          ...formData,
+          status: 'Active',
+          sort_order: orderedTiers.length,
+        });
+        showAlert('Tier created successfully');
+      }
+      closeDialog();
+      reloadTiers();
+    } catch (error) {
+      showAlert(
+        getApiErrorMessage(
+          error,
+          dialogTier ? 'Failed to update tier' : 'Failed to create tier'
+        ),
+        'error'
+      );
+    }
+  };
+
+  const handleToggleStatus = async (tier: ProductTier): Promise<void> => {
+    const status = tier.status === 'Active' ? 'Inactive' : 'Active';
+    if (
+      status === 'Inactive' &&
+      !window.confirm(
+        `Deactivate tier "${tier.display_name}"? It will no longer be offered for new subscriptions.`
+      )
+    ) {
+      return;
+    }
+
+    setUpdatingTierId(tier.id);
+    try {
+      await apiHelpers.updateProductTier(tier.id, { status });
+      showAlert(status === 'Active' ? 'Tier reactivated' : 'Tier deactivated');
+      reloadTiers();
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to update tier'), 'error');
+    } finally {
+      setUpdatingTierId(null);
+    }
+  };
+
+  const handleMoveTier = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= orderedTiers.length) return;
+
+    const previousOrder = orderedTiers;
+    const nextOrder = [...orderedTiers];
+    [nextOrder[index], nextOrder[target]] = [
+      nextOrder[target]!,
+      nextOrder[index]!,
+    ];
+
+    // Reorder locally first and restore the previous order on failure
+    setOrderedTiers(nextOrder);
+    try {
+      await apiHelpers.reorderProductTiers(
+        productId,
+        nextOrder.map(tier => tier.id)
+      );
+      refreshTiers();
+    } catch (error) {
+      setOrderedTiers(previousOrder);
+      showAlert(getApiErrorMessage(error, 'Failed to reorder tiers'), 'error');
+    }
+  };
+
+  return (
+    <Box data-testid={TestIds.products.tiers.container}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">Tiers ({orderedTiers.length})</Typography>
+        {canManage && (
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => openDialog(null)}
+            data-testid={TestIds.products.tiers.createButton}
+          >
+            Add Tier
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : orderedTiers.length === 0 ? (
+        !error && (
+          <Typography variant="body2" color="text.secondary">
+            No tiers have been configured for this product
+          </Typography>
+        )
+      ) : (
+        <>
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small" data-testid={TestIds.products.tiers.table}>
+              <TableHead>
+                <TableRow>
+                  {canManage && <TableCell>Order</TableCell>}
+                  <TableCell>Tier</TableCell>
+                  <TableCell>Display Name</TableCell>
+                  <TableCell align="right">Max Limit</TableCell>
+                  <TableCell align="right">Price</TableCell>
+                  <TableCell>Status</TableCell>
+                  {canManage && <TableCell>Actions</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {orderedTiers.map((tier, index) => (
+                  <TableRow
+                    key={tier.id}
+                    data-testid={TestIds.products.tiers.row(tier.id)}
+                  >
+                    {canManage && (
+                      <TableCell>
+                        <IconButton
+                          size="small"
+                          disabled={index === 0}
+                          onClick={() => handleMoveTier(index, -1)}
+                          aria-label="Move tier up"
+                          data-testid={TestIds.products.tiers.moveUp(tier.id)}
+                        >
+                          <ArrowUpwardIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          disabled={index === orderedTiers.length - 1}
+                          onClick={() => handleMoveTier(index, 1)}
+                          aria-label="Move tier down"
+                          data-testid={TestIds.products.tiers.moveDown(tier.id)}
+                        >
+                          <ArrowDownwardIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <Typography variant="body2" component="code">
+                        {tier.tier_name}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{tier.display_name}</TableCell>
+                    <TableCell align="right">
+                      {tier.max_limit.toLocaleString()}
+                    </TableCell>
+                    <TableCell align="right">{formatPrice(tier)}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={tier.status}
+                        color={tier.status === 'Active' ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                          <Tooltip title="Edit Tier">
+                            <IconButton
+                              size="small"
+                              onClick={() => openDialog(tier)}
+                              data-testid={TestIds.products.tiers.edit(tier.id)}
+                            >
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip
+                            title={
+                              tier.status === 'Active'
+                                ? 'Deactivate Tier'
+                                : 'Reactivate Tier'
+                            }
+                          >
+                            <span>
+                              <IconButton
+                                size="small"
+                                color={
+                                  tier.status === 'Active' ? 'error' : 'success'
+                                }
+                                disabled={updatingTierId === tier.id}
+                                onClick={() => handleToggleStatus(tier)}
+                                data-testid={TestIds.products.tiers.toggleStatus(
+                                  tier.id
+                                )}
+                              >
+                                {tier.status === 'Active' ? (
+                                  <BlockIcon fontSize="small" />
+                                ) : (
+                                  <CheckCircleIcon fontSize="small" />
+                                )}
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </Box>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {activeTiers.length > 1 && (
+            <>
+              <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+                Compare Active Tiers
+              </Typography>
+              <TableContainer component={Paper} variant="outlined">
+                <Table
+                  size="small"
+                  data-testid={TestIds.products.tiers.comparisonTable}
+                >
+                  <TableHead>
+                    <TableRow>
+                      <TableCell />
+                      {activeTiers.map(tier => (
+                        <TableCell key={tier.id} align="right">
+                          {tier.display_name}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>Max Limit</TableCell>
+                      {activeTiers.map(tier => (
+                        <TableCell key={tier.id} align="right">
+                          {tier.max_limit.toLocaleString()}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>Price</TableCell>
+                      {activeTiers.map(tier => (
+                        <TableCell key={tier.id} align="right">
+                          {formatPrice(tier)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>Price per Unit</TableCell>
+                      {activeTiers.map(tier => (
+                        <TableCell key={tier.id} align="right">
+                          {formatUnitPrice(tier)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+        </>
+      )}
+
+      {dialogOpen && (
+        <ProductTierDialog
+          tier={dialogTier}
+          onClose={closeDialog}
+          onSubmit={handleSubmitTier}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default ProductTierManager;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/ProductTierManager.tsx
+// ──────────────────────────────────────────────────
@@ -4,11 +4,11 @@
  * Description: Products management page for TondroAI CRM
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 03-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Grid,
@@ -32,24 +32,48 @@ import {
   CircularProgress,
   TablePagination,
   IconButton,
+  Divider,
+  Chip,
 } from '@mui/material';
 import {
   Visibility as VisibilityIcon,
   Edit as EditIcon,
+  Delete as DeleteIcon,
+  Block as BlockIcon,
+  CheckCircle as CheckCircleIcon,
 } from '@mui/icons-material';
 import { apiHelpers } from '../services/api';
 import {
   type Product,
   type CreateProductRequest,
   type UpdateProductRequest,
+  type ProductFeature,
 } from '../types';
 import { TestIds } from '../testIds';
 import { getButtonProps } from '../utils/buttonStyles';
-import { useEntityState, usePagination, useEntityData } from '../hooks';
+import {
+  useEntityState,
+  usePagination,
+  useEntityData,
+  useEntityDeepLink,
+} from '../hooks';
 import { useAuth } from '../contexts/AuthContext';
 import { PERMISSIONS } from '../config/roles';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
 import { useAlert } from '@/contexts/AlertContext';
+import ProductTierManager from './ProductTierManager';
+import { useTierRegistry } from '../contexts/TierRegistryContext';
+import {
+  isProductActive,
+  normalizeProductFeatures,
+  validateProductFeatures,
+  parseProductSettings,
+  formatProductSettings,
+} from '../utils/productFormatters';
+import ProductFeaturesEditor from './ProductFeaturesEditor';
+import ProductSettingsEditor from './ProductSettingsEditor';
+import CurrencySelect from './common/CurrencySelect';
+import { formatMoney, DEFAULT_CURRENCY } from '../utils/moneyFormatter';
 
 // ────────────────────────────────────────
 // Main Component
@@ -58,6 +82,12 @@ import { useAlert } from '@/contexts/AlertContext';
 const Products: React.FC = () => {
   const { hasPermission } = useAuth();
   const { showAlert } = useAlert();
+  const { getTiersForProduct, getTierLabel, getTierChipColor, refreshTiers } =
+    useTierRegistry();
+  const [updatingProductId, setUpdatingProductId] = useState<
+    string | number | null
+  >(null);
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
   // Use shared state management hook
   const {
     entityState,
@@ -115,6 +145,19 @@ const Products: React.FC = () => {
     fetchData();
   }, []);
 
+  // Open the details dialog when linked from another page (e.g. audit log)
+  const { clearDeepLink } = useEntityDeepLink<Product>({
+    entityLabel: 'Product',
+    loadEntity: async (id, signal) => {
+      const response = await apiHelpers.getProduct(Number(id), signal);
+      return response.data;
+    },
+    onLoad: product => {
+      setSelectedProduct(product);
+      setEditMode(false);
+    },
+  });
+
   const handleCreateProduct = async (
     formData: CreateProductRequest
   ): Promise<void> => {
@@ -136,12 +179,40 @@ const Products: React.FC = () => {
       await apiHelpers.updateProduct(selectedProduct.id as number, formData);
       showAlert('Product updated successfully', 'success');
       setSelectedProduct(null);
+      clearDeepLink();
       refetch();
+      // Product settings can override tier labels and colors
+      refreshTiers();
     } catch (error) {
       showAlert(getApiErrorMessage(error), 'error');
     }
   };
 
+  const handleToggleProductStatus = async (product: Product): Promise<void> => {
+    const status = isProductActive(product) ? 'Inactive' : 'Active';
+    if (
+      status === 'Inactive' &&
+      !window.confirm(
+        `Deactivate product "${product.name}"? It will no longer be offered for new subscriptions. Existing subscriptions are not affected.`
+      )
+    ) {
+      return;
+    }
+
+    setUpdatingProductId(product.id);
+    try {
+      await apiHelpers.updateProduct(product.id as number, { status });
+      showAlert(
+        status === 'Active' ? 'Product reactivated' : 'Product deactivated'
+      );
+      refetch();
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to update product'), 'error');
+    } finally {
+      setUpdatingProductId(null);
+    }
+  };
+
   // ────────────────────────────────────────
   // Products Table Component
   // ────────────────────────────────────────
@@ -189,58 +260,153 @@ const Products: React.FC = () => {
                   <TableRow>
                     <TableCell>Name</TableCell>
                     <TableCell>Description</TableCell>
+                    <TableCell>Tiers</TableCell>
+                    <TableCell>Status</TableCell>
                     <TableCell>Created</TableCell>
                     <TableCell>Actions</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
-                  {entityState.data.map(product => (
-                    <TableRow key={product.id}>
-                      <TableCell>
-                        <Typography variant="subtitle2">
-                          {product.name}
-                        </Typography>
-                      </TableCell>
-                      <TableCell>
-                        {product.description || 'No description provided'}
-                      </TableCell>
-                      <TableCell>
-                        {new Date(product.created_at).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell>
-                        <Box sx={{ display: 'flex', gap: 1 }}>
-                          {hasPermission(PERMISSIONS.PRODUCT_READ) && (
-                            <IconButton
-                              size="small"
-                              onClick={() => {
-                                setSelectedProduct(product);
-                                setEditMode(false);
-                              }}
-                              data-testid={TestIds.products.viewDetails(
-                                product.id as number
-                              )}
-                            >
-                              <VisibilityIcon />
-                            </IconButton>
-                          )}
-                          {hasPermission(PERMISSIONS.PRODUCT_UPDATE) && (
-                            <IconButton
-                              size="small"
-                              onClick={() => {
-                                setSelectedProduct(product);
-                                setEditMode(true);
-                              }}
-                              data-testid={TestIds.products.edit(
-                                product.id as number
-                              )}
-                            >
-                              <EditIcon />
-                            </IconButton>
-                          )}
-                        </Box>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {entityState.data.map(product => {
+                    const productTiers = getTiersForProduct(String(product.id));
+
+                    return (
+                      <TableRow key={product.id}>
+                        <TableCell>
+                          <Typography variant="subtitle2">
+                            {product.name}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>
+                          {product.description || 'No description provided'}
+                        </TableCell>
+                        <TableCell>
+                          <Box
+                            sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}
+                            data-testid={TestIds.products.tierChips(
+                              product.id as number
+                            )}
+                          >
+                            {productTiers.length > 0 ? (
+                              productTiers.map(tier => (
+                                <Chip
+                                  key={tier.id}
+                                  label={getTierLabel(
+                                    tier.tier_name,
+                                    String(product.id)
+                                  )}
+                                  color={getTierChipColor(
+                                    tier.tier_name,
+                                    String(product.id)
+                                  )}
+                                  variant={
+                                    tier.status === 'Active'
+                                      ? 'filled'
+                                      : 'outlined'
+                                  }
+                                  size="small"
+                                />
+                              ))
+                            ) : (
+                              <Typography
+                                variant="body2"
+                                color="text.secondary"
+                              >
+                                No tiers
+                              </Typography>
+                            )}
+                          </Box>
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            label={
+                              isProductActive(product) ? 'Active' : 'Inactive'
+                            }
+                            color={
+                              isProductActive(product) ? 'success' : 'default'
+                            }
+                            size="small"
+                            data-testid={TestIds.products.status(
+                              product.id as number
+                            )}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {new Date(product.created_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <Box sx={{ display: 'flex', gap: 1 }}>
+                            {hasPermission(PERMISSIONS.PRODUCT_READ) && (
+                              <IconButton
+                                size="small"
+                                onClick={() => {
+                                  setSelectedProduct(product);
+                                  setEditMode(false);
+                                }}
+                                data-testid={TestIds.products.viewDetails(
+                                  product.id as number
+                                )}
+                              >
+                                <VisibilityIcon />
+                              </IconButton>
+                            )}
+                            {hasPermission(PERMISSIONS.PRODUCT_UPDATE) && (
+                              <IconButton
+                                size="small"
+                                onClick={() => {
+                                  setSelectedProduct(product);
+                                  setEditMode(true);
+                                }}
+                                data-testid={TestIds.products.edit(
+                                  product.id as number
+                                )}
+                              >
+                                <EditIcon />
+                              </IconButton>
+                            )}
+                            {hasPermission(PERMISSIONS.PRODUCT_UPDATE) && (
+                              <IconButton
+                                size="small"
+                                color={
+                                  isProductActive(product) ? 'error' : 'success'
+                                }
+                                title={
+                                  isProductActive(product)
+                                    ? 'Deactivate product'
+                                    : 'Reactivate product'
+                                }
+                                disabled={updatingProductId === product.id}
+                                onClick={() =>
+                                  handleToggleProductStatus(product)
+                                }
+                                data-testid={TestIds.products.toggleStatus(
+                                  product.id as number
+                                )}
+                              >
+                                {isProductActive(product) ? (
+                                  <BlockIcon />
+                                ) : (
+                                  <CheckCircleIcon />
+                                )}
+                              </IconButton>
+                            )}
+                            {hasPermission(PERMISSIONS.PRODUCT_DELETE) && (
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => setDeletingProduct(product)}
+                                data-testid={TestIds.products.delete(
+                                  product.id as number
+                                )}
+                              >
+                                <DeleteIcon />
+                              </IconButton>
+                            )}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </TableContainer>
@@ -285,6 +451,17 @@ const Products: React.FC = () => {
         onSubmit={handleCreateProduct}
       />
 
+      {deletingProduct && (
+        <DeleteProductDialog
+          product={deletingProduct}
+          onClose={() => setDeletingProduct(null)}
+          onDeleted={() => {
+            setDeletingProduct(null);
+            refetch();
+          }}
+        />
+      )}
+
       {selectedProduct && (
         <>
           {!editMode && (
@@ -293,6 +470,7 @@ const Products: React.FC = () => {
               onClose={() => {
                 setSelectedProduct(null);
                 setEditMode(false);
+                clearDeepLink();
               }}
               onEdit={() => {
                 setSelectedProduct(selectedProduct);
@@ -306,6 +484,7 @@ const Products: React.FC = () => {
               onClose={() => {
                 setSelectedProduct(null);
                 setEditMode(false);
+                clearDeepLink();
               }}
               onSubmit={handleUpdateProduct}
             />
@@ -316,6 +495,74 @@ const Products: React.FC = () => {
   );
 };
 
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+// The base price is optional; an empty field leaves the product unpriced
+const isValidPriceInput = (price: string): boolean =>
+  price === '' || (!Number.isNaN(Number(price)) && Number(price) >= 0);
+
+const buildPriceFields = (
+  price: string,
+  currency: string
+): Pick<CreateProductRequest, 'price' | 'currency'> =>
+  price === '' ? {} : { price: Number(price), currency };
+
+// Edits send an explicit null so a cleared price is removed
+const buildUpdatePriceFields = (
+  price: string,
+  currency: string
+): Pick<UpdateProductRequest, 'price' | 'currency'> =>
+  price === '' ? { price: null } : { price: Number(price), currency };
+
+interface ProductPriceFieldsProps {
+  price: string;
+  currency: string;
+  onPriceChange: (price: string) => void;
+  onCurrencyChange: (currency: string) => void;
+  testIds: { price: string; currency: string };
+}
+
+const ProductPriceFields: React.FC<ProductPriceFieldsProps> = ({
+  price,
+  currency,
+  onPriceChange,
+  onCurrencyChange,
+  testIds,
+}) => (
+  <Grid container spacing={2} sx={{ mt: 0 }}>
+    <Grid item xs={12} sm={8}>
+      <TextField
+        fullWidth
+        type="number"
+        label="Base Price"
+        value={price}
+        onChange={e => onPriceChange(e.target.value)}
+        error={!isValidPriceInput(price)}
+        helperText={
+          isValidPriceInput(price)
+            ? 'Optional. Tier prices are set per tier.'
+            : 'Price must be zero or more'
+        }
+        inputProps={{
+          min: 0,
+          step: '0.01',
+          'data-testid': testIds.price,
+          'aria-label': 'Product base price input',
+        }}
+      />
+    </Grid>
+    <Grid item xs={12} sm={4}>
+      <CurrencySelect
+        value={currency}
+        onChange={onCurrencyChange}
+        testId={testIds.currency}
+      />
+    </Grid>
+  </Grid>
+);
+
 // ────────────────────────────────────────
 // Create Product Dialog Component
 // ────────────────────────────────────────
@@ -335,18 +582,38 @@ const CreateProductDialog: React.FC<CreateProductDialogProps> = ({
     name: '',
     description: '',
   });
+  const [price, setPrice] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [features, setFeatures] = useState<ProductFeature[]>([]);
+  const [settingsText, setSettingsText] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
 
+  const { settings } = parseProductSettings(settingsText);
+  const isConfigurationValid =
+    isValidPriceInput(price) &&
+    !validateProductFeatures(features) &&
+    settings !== null;
+
   const handleSubmit = async (): Promise<void> => {
     if (!formData.name.trim()) {
       alert('Please enter a product name');
       return;
     }
+    if (!isConfigurationValid) return;
 
     setLoading(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        ...buildPriceFields(price, currency),
+        features,
+        settings: settings ?? {},
+      });
       setFormData({ name: '', description: '' });
+      setPrice('');
+      setCurrency(DEFAULT_CURRENCY);
+      setFeatures([]);
+      setSettingsText('');
     } catch (error) {
       console.error('Error in create dialog:', error);
     } finally {
@@ -358,7 +625,7 @@ const CreateProductDialog: React.FC<CreateProductDialogProps> = ({
     <Dialog
       open={open}
       onClose={onClose}
-      maxWidth="sm"
+      maxWidth="md"
       fullWidth
       data-testid={TestIds.products.createDialog.container}
     >
@@ -398,6 +665,28 @@ const CreateProductDialog: React.FC<CreateProductDialogProps> = ({
               'aria-label': 'Product description input',
             }}
           />
+          <ProductPriceFields
+            price={price}
+            currency={currency}
+            onPriceChange={setPrice}
+            onCurrencyChange={setCurrency}
+            testIds={{
+              price: TestIds.products.createDialog.price,
+              currency: TestIds.products.createDialog.currency,
+            }}
+          />
+          <Divider sx={{ my: 2 }} />
+          <ProductFeaturesEditor
+            features={features}
+            tiers={[]}
+            onChange={setFeatures}
+            noTiersMessage="Tiers are added after the product is created; enable features per tier by editing the product then."
+          />
+          <Divider sx={{ my: 2 }} />
+          <ProductSettingsEditor
+            value={settingsText}
+            onChange={setSettingsText}
+          />
         </Box>
       </DialogContent>
       <DialogActions>
@@ -410,7 +699,7 @@ const CreateProductDialog: React.FC<CreateProductDialogProps> = ({
         <Button
           onClick={handleSubmit}
           variant="contained"
-          disabled={loading}
+          disabled={loading || !isConfigurationValid}
           data-testid={TestIds.products.createDialog.submit}
         >
           {loading ? 'Creating...' : 'Create'}
@@ -474,13 +763,13 @@ const ViewProductDialog: React.FC<ViewProductDialogProps> = ({
                   {product.description || 'No description provided'}
                 </Typography>
               </Grid>
-              {product.price !== undefined && (
+              {typeof product.price === 'number' && (
                 <Grid item xs={12} sm={6}>
                   <Typography variant="subtitle2" color="text.secondary">
                     Price
                   </Typography>
                   <Typography variant="body1" gutterBottom>
-                    {product.price} {product.currency || 'USD'}
+                    {formatMoney(product.price, product.currency)}
                   </Typography>
                 </Grid>
               )}
@@ -500,7 +789,33 @@ const ViewProductDialog: React.FC<ViewProductDialogProps> = ({
                   {new Date(product.updated_at).toLocaleString()}
                 </Typography>
               </Grid>
+              <Grid item xs={12}>
+                <Typography variant="subtitle2" color="text.secondary">
+                  Features
+                </Typography>
+                {normalizeProductFeatures(product.features).length > 0 ? (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                    {normalizeProductFeatures(product.features).map(feature => (
+                      <Chip
+                        key={feature.key}
+                        label={`${feature.key} (${feature.enabled_tiers.length} tiers)`}
+                        title={feature.description}
+                        size="small"
+                        variant="outlined"
+                      />
+                    ))}
+                  </Box>
+                ) : (
+                  <Typography variant="body1" gutterBottom>
+                    No features configured
+                  </Typography>
+                )}
+              </Grid>
             </Grid>
+
+            <Divider sx={{ my: 3 }} />
+
+            <ProductTierManager product={product} />
           </Box>
         )}
       </DialogContent>
@@ -537,21 +852,49 @@ const EditProductDialog: React.FC<EditProductDialogProps> = ({
   onClose,
   onSubmit,
 }) => {
+  const { getTiersForProduct } = useTierRegistry();
   const [formData, setFormData] = useState<UpdateProductRequest>({
     name: product.name,
     description: product.description || '',
   });
+  const [price, setPrice] = useState<string>(
+    typeof product.price === 'number' ? String(product.price) : ''
+  );
+  const [currency, setCurrency] = useState<string>(
+    product.currency || DEFAULT_CURRENCY
+  );
+  const [features, setFeatures] = useState<ProductFeature[]>(() =>
+    normalizeProductFeatures(product.features)
+  );
+  // Legacy bare-key features normalize to no tiers, so only send the list
+  // back once it has been edited
+  const [featuresChanged, setFeaturesChanged] = useState<boolean>(false);
+  const [settingsText, setSettingsText] = useState<string>(() =>
+    formatProductSettings(product.settings)
+  );
   const [loading, setLoading] = useState<boolean>(false);
 
+  const { settings } = parseProductSettings(settingsText);
+  const isConfigurationValid =
+    isValidPriceInput(price) &&
+    !validateProductFeatures(features) &&
+    settings !== null;
+
   const handleSubmit = async (): Promise<void> => {
     if (!formData.name?.trim()) {
       alert('Please enter a product name');
       return;
     }
+    if (!isConfigurationValid) return;
 
     setLoading(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        ...buildUpdatePriceFields(price, currency),
+        ...(featuresChanged && { features }),
+        settings: settings ?? {},
+      });
     } catch (error) {
       console.error('Error in edit dialog:', error);
     } finally {
@@ -563,7 +906,7 @@ const EditProductDialog: React.FC<EditProductDialogProps> = ({
     <Dialog
       open={!!product}
       onClose={onClose}
-      maxWidth="sm"
+      maxWidth="md"
       fullWidth
       data-testid={TestIds.products.editDialog.container}
     >
@@ -601,6 +944,30 @@ const EditProductDialog: React.FC<EditProductDialogProps> = ({
               'aria-label': 'Product description input',
             }}
           />
+          <ProductPriceFields
+            price={price}
+            currency={currency}
+            onPriceChange={setPrice}
+            onCurrencyChange={setCurrency}
+            testIds={{
+              price: TestIds.products.editDialog.price,
+              currency: TestIds.products.editDialog.currency,
+            }}
+          />
+          <Divider sx={{ my: 2 }} />
+          <ProductFeaturesEditor
+            features={features}
+            tiers={getTiersForProduct(String(product.id))}
+            onChange={updatedFeatures => {
+              setFeatures(updatedFeatures);
+              setFeaturesChanged(true);
+            }}
+          />
+          <Divider sx={{ my: 2 }} />
+          <ProductSettingsEditor
+            value={settingsText}
+            onChange={setSettingsText}
+          />
         </Box>
       </DialogContent>
       <DialogActions>
@@ -613,7 +980,7 @@ const EditProductDialog: React.FC<EditProductDialogProps> = ({
         <Button
           onClick={handleSubmit}
           variant="contained"
-          disabled={loading}
+          disabled={loading || !isConfigurationValid}
           data-testid={TestIds.products.editDialog.submit}
         >
           {loading ? 'Updating...' : 'Update'}
@@ -623,6 +990,187 @@ const EditProductDialog: React.FC<EditProductDialogProps> = ({
   );
 };
 
+// ────────────────────────────────────────
+// Delete Product Dialog Component
+// ────────────────────────────────────────
+
+interface DeleteProductDialogProps {
+  product: Product;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+const DeleteProductDialog: React.FC<DeleteProductDialogProps> = ({
+  product,
+  onClose,
+  onDeleted,
+}) => {
+  const { showAlert } = useAlert();
+  const [activeSubscriptionCount, setActiveSubscriptionCount] = useState<
+    number | null
+  >(null);
+  const [previewLoading, setPreviewLoading] = useState<boolean>(true);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string>('');
+  const [deleting, setDeleting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActiveSubscriptions = useCallback(
+    async (signal?: AbortSignal): Promise<void> => {
+      setPreviewLoading(true);
+      setPreviewError(null);
+      try {
+        // Only the total is needed, so request the smallest page
+        const response = await apiHelpers.getSubscriptions(
+          {
+            product_id: String(product.id),
+            status_filter: 'active',
+            page: 1,
+            page_size: 1,
+          },
+          signal
+        );
+        setActiveSubscriptionCount(
+          response.data.total ?? response.data.items?.length ?? 0
+        );
+      } catch (error) {
+        if (signal?.aborted) return;
+        setPreviewError(
+          getApiErrorMessage(error, 'Failed to load product subscriptions')
+        );
+      } finally {
+        if (!signal?.aborted) {
+          setPreviewLoading(false);
+        }
+      }
+    },
+    [product.id]
+  );
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+    fetchActiveSubscriptions(controller.signal);
+    return () => controller.abort();
+  }, [fetchActiveSubscriptions]);
+
+  const hasActiveSubscriptions = (activeSubscriptionCount ?? 0) > 0;
+
+  // Deleting a product in use requires the product name to be typed exactly
+  const isConfirmed = !hasActiveSubscriptions || confirmation === product.name;
+
+  const handleDelete = async (): Promise<void> => {
+    if (activeSubscriptionCount === null || !isConfirmed) return;
+
+    setDeleting(true);
+    setError(null);
+    try {
+      await apiHelpers.deleteProduct(product.id as number);
+      showAlert('Product deleted successfully', 'success');
+      onDeleted();
+    } catch (error) {
+      setError(getApiErrorMessage(error, 'Failed to delete product'));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      data-testid={TestIds.products.deleteDialog.container}
+    >
+      <DialogTitle>Delete Product: {product.name}</DialogTitle>
+      <DialogContent>
+        {previewLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {previewError && (
+          <Alert
+            severity="error"
+            action={
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => fetchActiveSubscriptions()}
+              >
+                Retry
+              </Button>
+            }
+          >
+            {previewError}
+          </Alert>
+        )}
+
+        {!previewLoading && activeSubscriptionCount !== null && (
+          <>
+            <Alert
+              severity={hasActiveSubscriptions ? 'warning' : 'info'}
+              sx={{ mb: 2 }}
+              data-testid={TestIds.products.deleteDialog.activeSubscriptions}
+            >
+              {hasActiveSubscriptions
+                ? `${activeSubscriptionCount} active subscription${activeSubscriptionCount === 1 ? '' : 's'} reference this product. Deleting it will affect billing and usage tracking for those organizations; consider deactivating it instead.`
+                : 'No active subscriptions reference this product.'}
+            </Alert>
+
+            {hasActiveSubscriptions && (
+              <TextField
+                fullWidth
+                margin="normal"
+                label={`Type "${product.name}" to confirm`}
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+                inputProps={{
+                  'data-testid': TestIds.products.deleteDialog.confirmInput,
+                }}
+              />
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert
+            severity="error"
+            sx={{ mt: 2 }}
+            data-testid={TestIds.products.deleteDialog.error}
+          >
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          disabled={deleting}
+          data-testid={TestIds.products.deleteDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleDelete}
+          disabled={
+            deleting ||
+            previewLoading ||
+            activeSubscriptionCount === null ||
+            !isConfirmed
+          }
+          data-testid={TestIds.products.deleteDialog.submit}
+        >
+          {deleting ? 'Deleting...' : 'Delete'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
 export default Products;
 
 // ──────────────────────────────────────────────────
@@ -0,0 +1,469 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/SubscriptionLifecycle.tsx
+ * Description: Status transition, timeline and deletion components for subscriptions
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Chip,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  List,
+  ListItem,
+  ListItemText,
+  Grid,
+} from '@mui/material';
+import { ArrowForward as ArrowForwardIcon } from '@mui/icons-material';
+import { apiHelpers } from '../services/api';
+import {
+  type Subscription,
+  type SubscriptionStatus,
+  type SubscriptionStatusTransition,
+} from '../types';
+import { getStatusBackgroundColor } from '../theme';
+import { TestIds } from '../testIds';
+import {
+  canTransitionSubscription,
+  getAllowedTransitions,
+  getTransitionLabel,
+  parseStatusTransition,
+} from '../utils/subscriptionLifecycle';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { useAlert } from '@/contexts/AlertContext';
+
+// ────────────────────────────────────────
+// Status Chip
+// ────────────────────────────────────────
+
+const StatusChip: React.FC<{ status: SubscriptionStatus }> = ({ status }) => (
+  <Chip
+    label={status}
+    size="small"
+    style={{
+      backgroundColor: getStatusBackgroundColor(status),
+      color: '#ffffff',
+    }}
+  />
+);
+
+// ────────────────────────────────────────
+// Status Transition Dialog
+// ────────────────────────────────────────
+
+interface SubscriptionStatusDialogProps {
+  subscription: Subscription;
+  onClose: () => void;
+  onTransitioned: () => void;
+}
+
+export const SubscriptionStatusDialog: React.FC<
+  SubscriptionStatusDialogProps
+> = ({ subscription, onClose, onTransitioned }) => {
+  const allowedTransitions = getAllowedTransitions(subscription.status);
+  const [targetStatus, setTargetStatus] = useState<SubscriptionStatus | null>(
+    allowedTransitions[0] ?? null
+  );
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showAlert } = useAlert();
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!targetStatus) return;
+    if (!canTransitionSubscription(subscription.status, targetStatus)) {
+      setError(
+        `A ${subscription.status} subscription cannot be moved to ${targetStatus}`
+      );
+      return;
+    }
+    if (!reason.trim()) {
+      setError('A reason is required to change the subscription status');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await apiHelpers.updateSubscriptionStatus(subscription.id, {
+        status: targetStatus,
+        reason: reason.trim(),
+      });
+      showAlert(`Subscription status changed to ${targetStatus}`);
+      onTransitioned();
+    } catch (error) {
+      setError(
+        getApiErrorMessage(error, 'Failed to change subscription status')
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      data-testid={TestIds.subscriptions.statusDialog.container}
+    >
+      <DialogTitle>Change Subscription Status</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+          <Typography variant="subtitle2" color="text.secondary">
+            Current Status
+          </Typography>
+          <StatusChip status={subscription.status} />
+        </Box>
+
+        {allowedTransitions.length === 0 ? (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            A {subscription.status} subscription cannot change status.
+          </Alert>
+        ) : (
+          <>
+            <ToggleButtonGroup
+              exclusive
+              color="primary"
+              value={targetStatus}
+              onChange={(_event, value: SubscriptionStatus | null) => {
+                if (value) setTargetStatus(value);
+              }}
+              sx={{ mt: 2 }}
+            >
+              {allowedTransitions.map(status => (
+                <ToggleButton
+                  key={status}
+                  value={status}
+                  data-testid={TestIds.subscriptions.statusDialog.transitionOption(
+                    status
+                  )}
+                >
+                  {getTransitionLabel(subscription.status, status)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+
+            <TextField
+              fullWidth
+              required
+              multiline
+              minRows={3}
+              margin="normal"
+              label="Reason"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              inputProps={{
+                'data-testid': TestIds.subscriptions.statusDialog.reason,
+              }}
+            />
+          </>
+        )}
+
+        {error && (
+          <Alert
+            severity="error"
+            sx={{ mt: 2 }}
+            data-testid={TestIds.subscriptions.statusDialog.error}
+          >
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          disabled={submitting}
+          data-testid={TestIds.subscriptions.statusDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting || !targetStatus || !reason.trim()}
+          color={targetStatus === 'cancelled' ? 'error' : 'primary'}
+          data-testid={TestIds.subscriptions.statusDialog.submit}
+        >
+          {submitting
+            ? 'Saving...'
+            : targetStatus
+              ? getTransitionLabel(subscription.status, targetStatus)
+              : 'Save'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+// ────────────────────────────────────────
+// Delete Subscription Dialog
+// ────────────────────────────────────────
+
+interface DeleteSubscriptionDialogProps {
+  subscription: Subscription;
+  organizationName: string;
+  productName: string;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+export const DeleteSubscriptionDialog: React.FC<
+  DeleteSubscriptionDialogProps
+> = ({ subscription, organizationName, productName, onClose, onDeleted }) => {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showAlert } = useAlert();
+
+  const maxLimit = subscription.max_limit ?? subscription.usage_limit ?? null;
+
+  const handleDelete = async (): Promise<void> => {
+    if (!reason.trim()) {
+      setError('A reason is required to delete the subscription');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await apiHelpers.deleteSubscription(subscription.id, reason.trim());
+      showAlert('Subscription deleted successfully');
+      onDeleted();
+    } catch (error) {
+      setError(getApiErrorMessage(error, 'Failed to delete subscription'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      data-testid={TestIds.subscriptions.deleteDialog.container}
+    >
+      <DialogTitle>Delete Subscription</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The subscription will be cancelled and removed. This cannot be undone.
+        </Alert>
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Organization
+            </Typography>
+            <Typography variant="body1">{organizationName}</Typography>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Product
+            </Typography>
+            <Typography variant="body1">{productName}</Typography>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Status
+            </Typography>
+            <StatusChip status={subscription.status} />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <Typography variant="subtitle2" color="text.secondary">
+              Current Usage
+            </Typography>
+            <Typography
+              variant="body1"
+              data-testid={TestIds.subscriptions.deleteDialog.currentUsage}
+            >
+              {maxLimit
+                ? `${subscription.current_usage}/${maxLimit}`
+                : subscription.current_usage}
+            </Typography>
+          </Grid>
+        </Grid>
+
+        <TextField
+          fullWidth
+          required
+          multiline
+          minRows={3}
+          margin="normal"
+          label="Reason"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          inputProps={{
+            'data-testid': TestIds.subscriptions.deleteDialog.reason,
+          }}
+        />
+
+        {error && (
+          <Alert
+            severity="error"
+            sx={{ mt: 1 }}
+            data-testid={TestIds.subscriptions.deleteDialog.error}
+          >
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          disabled={submitting}
+          data-testid={TestIds.subscriptions.deleteDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="error"
+          onClick={handleDelete}
+          disabled={submitting || !reason.trim()}
+          data-testid={TestIds.subscriptions.deleteDialog.confirm}
+        >
+          {submitting ? 'Deleting...' : 'Delete Subscription'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+// ────────────────────────────────────────
+// Status Transition Timeline
+// ────────────────────────────────────────
+
+interface SubscriptionStatusTimelineProps {
+  subscriptionId: string;
+}
+
+export const SubscriptionStatusTimeline: React.FC<
+  SubscriptionStatusTimelineProps
+> = ({ subscriptionId }) => {
+  const [transitions, setTransitions] = useState<
+    SubscriptionStatusTransition[]
+  >([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+
+    const fetchTransitions = async (): Promise<void> => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await apiHelpers.getAuditLogs(
+          {
+            entity_type: 'subscription',
+            entity_id: subscriptionId,
+            page_size: 100,
+          },
+          controller.signal
+        );
+        const history = (response.data.items || [])
+          .map(parseStatusTransition)
+          .filter(
+            (transition): transition is SubscriptionStatusTransition =>
+              transition !== null
+          )
+          .sort(
+            (a, b) =>
+              new Date(b.created_at).getTime() -
+              new Date(a.created_at).getTime()
+          );
+        setTransitions(history);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setError(getApiErrorMessage(error, 'Failed to load status history'));
+        setTransitions([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTransitions();
+    return () => controller.abort();
+  }, [subscriptionId]);
+
+  return (
+    <Box data-testid={TestIds.subscriptions.statusTimeline.container}>
+      <Typography variant="h6" gutterBottom>
+        Status History
+      </Typography>
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        !error &&
+        (transitions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No status changes recorded
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {transitions.map((transition, index) => (
+              <ListItem
+                key={`${transition.created_at}-${index}`}
+                divider={index < transitions.length - 1}
+                disableGutters
+                data-testid={TestIds.subscriptions.statusTimeline.entry(index)}
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {transition.from && (
+                        <>
+                          <StatusChip status={transition.from} />
+                          <ArrowForwardIcon fontSize="small" />
+                        </>
+                      )}
+                      <StatusChip status={transition.to} />
+                    </Box>
+                  }
+                  secondary={
+                    <>
+                      {new Date(transition.created_at).toLocaleString()} by{' '}
+                      {transition.performed_by}
+                      {transition.reason && ` — ${transition.reason}`}
+                    </>
+                  }
+                  secondaryTypographyProps={{
+                    component: 'div',
+                    sx: { mt: 0.5 },
+                  }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        ))
+      )}
+    </Box>
+  );
+};
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/SubscriptionLifecycle.tsx
+// ──────────────────────────────────────────────────
@@ -0,0 +1,720 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/SubscriptionUsagePanel.tsx
+ * Description: Usage summary, limit checks and manual usage recording for a subscription
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Grid,
+  Paper,
+  Typography,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { apiHelpers } from '../services/api';
+import {
+  type UsageSummaryResponse,
+  type UsageLimitsResponse,
+  type UsageEventRequest,
+  type UsageEventType,
+  USAGE_EVENT_TYPES,
+} from '../types';
+import { TestIds } from '../testIds';
+import { useAuth } from '../contexts/AuthContext';
+import { PERMISSIONS } from '../config/roles';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { getUsageProgressColor } from '@/utils/usageFormatters';
+import { useAlert } from '@/contexts/AlertContext';
+
+// ────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────
+
+const USAGE_PERIOD_OPTIONS = [7, 30, 90] as const;
+
+// Event type sent with the what-if check for manual adjustments
+const MANUAL_ADJUSTMENT_EVENT_TYPE: UsageEventType = 'manual_adjustment';
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+/**
+ * Resolves the usage percentage, preferring the value reported by the API
+ * and falling back to total usage against the subscription limit.
+ */
+const getUsagePercentage = (
+  summary: UsageSummaryResponse,
+  maxLimit: number | null
+): number | null => {
+  if (summary.usage_percentage !== undefined) {
+    return summary.usage_percentage;
+  }
+  if (maxLimit) {
+    return (summary.total_usage / maxLimit) * 100;
+  }
+  return null;
+};
+
+const describeLimitsResult = (result: UsageLimitsResponse): string => {
+  const verdict = result.within_limits
+    ? 'This usage is within the subscription limits.'
+    : 'This usage would exceed the subscription limits.';
+  const remaining =
+    result.remaining_quota !== undefined
+      ? `, remaining quota: ${result.remaining_quota}`
+      : '';
+  return `${verdict} Current usage: ${result.current_usage}, proposed usage: ${result.proposed_usage}${remaining}.`;
+};
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+interface SubscriptionUsagePanelProps {
+  subscriptionId: string;
+  maxLimit: number | null;
+}
+
+const SubscriptionUsagePanel: React.FC<SubscriptionUsagePanelProps> = ({
+  subscriptionId,
+  maxLimit,
+}) => {
+  const [periodDays, setPeriodDays] = useState<number>(30);
+  const [summary, setSummary] = useState<UsageSummaryResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [quantity, setQuantity] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [limitsResult, setLimitsResult] = useState<UsageLimitsResponse | null>(
+    null
+  );
+  const [limitsError, setLimitsError] = useState('');
+  const [recordDialogOpen, setRecordDialogOpen] = useState(false);
+  const { hasPermission } = useAuth();
+
+  const fetchSummary = useCallback(
+    async (signal?: AbortSignal): Promise<void> => {
+      setLoading(true);
+      setError('');
+      try {
+        const response = await apiHelpers.getUsageSummary(
+          subscriptionId,
+          periodDays,
+          signal
+        );
+        setSummary(response.data);
+      } catch (error) {
+        if (signal?.aborted) return;
+        setError(getApiErrorMessage(error, 'Failed to fetch usage summary'));
+        setSummary(null);
+      } finally {
+        if (!signal?.aborted) {
+          setLoading(false);
+        }
+      }
+    },
+    [subscriptionId, periodDays]
+  );
+
+  useEffect(() => {
+    const controller = apiHelpers.createAbortController();
+    fetchSummary(controller.signal);
+    return () => controller.abort();
+  }, [fetchSummary]);
+
+  const parsedQuantity = Number(quantity);
+  const isQuantityValid =
+    quantity.trim() !== '' &&
+    Number.isFinite(parsedQuantity) &&
+    parsedQuantity !== 0;
+
+  const handleCheckLimits = async (): Promise<void> => {
+    if (!isQuantityValid) return;
+
+    setChecking(true);
+    setLimitsError('');
+    setLimitsResult(null);
+    try {
+      const response = await apiHelpers.checkUsageLimits(subscriptionId, {
+        event_type: MANUAL_ADJUSTMENT_EVENT_TYPE,
+        quantity: parsedQuantity,
+      });
+      setLimitsResult(response.data);
+    } catch (error) {
+      setLimitsError(getApiErrorMessage(error, 'Failed to check usage limits'));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const usagePercentage = summary
+    ? getUsagePercentage(summary, maxLimit)
+    : null;
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{ p: 2 }}
+      data-testid={TestIds.subscriptions.viewUsage(subscriptionId)}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">Usage</Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          {hasPermission(PERMISSIONS.SUBSCRIPTION_UPDATE) && (
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setRecordDialogOpen(true)}
+              data-testid={TestIds.subscriptions.recordUsage(subscriptionId)}
+            >
+              Record Usage Event
+            </Button>
+          )}
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Period</InputLabel>
+            <Select
+              value={periodDays}
+              label="Period"
+              onChange={e => setPeriodDays(Number(e.target.value))}
+              data-testid={TestIds.subscriptions.usagePanel.periodSelect}
+            >
+              {USAGE_PERIOD_OPTIONS.map(days => (
+                <MenuItem
+                  key={days}
+                  value={days}
+                  data-testid={TestIds.subscriptions.usagePanel.periodOption(
+                    days
+                  )}
+                >
+                  Last {days} days
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        summary && (
+          <Grid container spacing={2}>
+            <Grid item xs={12} sm={4}>
+              <Typography variant="subtitle2" color="text.secondary">
+                Total Usage
+              </Typography>
+              <Typography
+                variant="body1"
+                data-testid={TestIds.subscriptions.usagePanel.totalUsage}
+              >
+                {maxLimit
+                  ? `${summary.total_usage}/${maxLimit}`
+                  : summary.total_usage}
+              </Typography>
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <Typography variant="subtitle2" color="text.secondary">
+                Events
+              </Typography>
+              <Typography
+                variant="body1"
+                data-testid={TestIds.subscriptions.usagePanel.eventsCount}
+              >
+                {summary.events_count}
+              </Typography>
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <Typography variant="subtitle2" color="text.secondary">
+                Usage of Limit
+              </Typography>
+              <Typography
+                variant="body1"
+                data-testid={TestIds.subscriptions.usagePanel.usagePercentage}
+              >
+                {usagePercentage !== null
+                  ? `${usagePercentage.toFixed(1)}%`
+                  : 'No limit'}
+              </Typography>
+            </Grid>
+            {usagePercentage !== null && (
+              <Grid item xs={12}>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(usagePercentage, 100)}
+                  color={getUsageProgressColor(usagePercentage)}
+                  sx={{ height: 8, borderRadius: 4 }}
+                />
+              </Grid>
+            )}
+          </Grid>
+        )
+      )}
+
+      {/* What-if check for manual usage adjustments */}
+      <Box sx={{ mt: 3 }}>
+        <Typography variant="subtitle2" gutterBottom>
+          Check Manual Adjustment
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+          <TextField
+            size="small"
+            type="number"
+            label="Quantity"
+            value={quantity}
+            onChange={e => {
+              setQuantity(e.target.value);
+              setLimitsResult(null);
+              setLimitsError('');
+            }}
+            helperText="Use a negative quantity to credit usage"
+            inputProps={{
+              'data-testid': TestIds.subscriptions.usagePanel.whatIfQuantity,
+            }}
+          />
+          <Button
+            variant="outlined"
+            onClick={handleCheckLimits}
+            disabled={!isQuantityValid || checking}
+            data-testid={TestIds.subscriptions.checkLimits(subscriptionId)}
+          >
+            {checking ? 'Checking...' : 'Check Limits'}
+          </Button>
+        </Box>
+
+        {limitsError && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {limitsError}
+          </Alert>
+        )}
+
+        {limitsResult && (
+          <Alert
+            severity={limitsResult.within_limits ? 'success' : 'warning'}
+            sx={{ mt: 2 }}
+            data-testid={TestIds.subscriptions.usagePanel.limitsResult}
+          >
+            {describeLimitsResult(limitsResult)}
+          </Alert>
+        )}
+      </Box>
+
+      <RecordUsageDialog
+        open={recordDialogOpen}
+        subscriptionId={subscriptionId}
+        onClose={() => setRecordDialogOpen(false)}
+        onRecorded={() => {
+          setRecordDialogOpen(false);
+          fetchSummary();
+        }}
+      />
+    </Paper>
+  );
+};
+
+// ────────────────────────────────────────
+// Record Usage Dialog Component
+// ────────────────────────────────────────
+
+interface MetadataEntry {
+  key: string;
+  value: string;
+}
+
+interface RecordUsageDialogProps {
+  open: boolean;
+  subscriptionId: string;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+const RecordUsageDialog: React.FC<RecordUsageDialogProps> = ({
+  open,
+  subscriptionId,
+  onClose,
+  onRecorded,
+}) => {
+  const [eventType, setEventType] = useState<UsageEventType>(
+    MANUAL_ADJUSTMENT_EVENT_TYPE
+  );
+  const [quantity, setQuantity] = useState('');
+  const [metadata, setMetadata] = useState<MetadataEntry[]>([]);
+  const [limitsResult, setLimitsResult] = useState<UsageLimitsResponse | null>(
+    null
+  );
+  const [override, setOverride] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { showAlert } = useAlert();
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setEventType(MANUAL_ADJUSTMENT_EVENT_TYPE);
+      setQuantity('');
+      setMetadata([]);
+      setLimitsResult(null);
+      setOverride(false);
+      setOverrideReason('');
+      setError(null);
+    }
+  }, [open]);
+
+  // Any change to the event invalidates a previous limits check
+  const resetLimitsCheck = (): void => {
+    setLimitsResult(null);
+    setOverride(false);
+    setOverrideReason('');
+  };
+
+  const handleMetadataChange = (
+    index: number,
+    field: keyof MetadataEntry,
+    value: string
+  ): void => {
+    setMetadata(prev =>
+      prev.map((entry, i) =>
+        i === index ? { ...entry, [field]: value } : entry
+      )
+    );
+  };
+
+  const parsedQuantity = Number(quantity);
+  const isQuantityValid =
+    quantity.trim() !== '' &&
+    Number.isFinite(parsedQuantity) &&
+    parsedQuantity !== 0;
+
+  const validateMetadata = (): string | null => {
+    const keys = metadata.map(entry => entry.key.trim());
+    if (metadata.some((entry, i) => !keys[i] && entry.value.trim())) {
+      return 'Every metadata value needs a key';
+    }
+    const filledKeys = keys.filter(Boolean);
+    if (new Set(filledKeys).size !== filledKeys.length) {
+      return 'Metadata keys must be unique';
+    }
+    return null;
+  };
+
+  const buildRequest = (): UsageEventRequest => {
+    const metadataRecord: Record<string, unknown> = {};
+    metadata.forEach(entry => {
+      const key = entry.key.trim();
+      if (key) {
+        metadataRecord[key] = entry.value;
+      }
+    });
+    if (override) {
+      metadataRecord.limit_override_reason = overrideReason.trim();
+    }
+
+    return {
+      event_type: eventType,
+      quantity: parsedQuantity,
+      ...(Object.keys(metadataRecord).length > 0 && {
+        metadata: metadataRecord,
+      }),
+    };
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!isQuantityValid) {
+      setError('Quantity must be a non-zero number');
+      return;
+    }
+    const metadataError = validateMetadata();
+    if (metadataError) {
+      setError(metadataError);
+      return;
+    }
+    if (override && !overrideReason.trim()) {
+      setError('A reason is required to override the usage limits');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const request = buildRequest();
+
+      // Block events that exceed the limits unless explicitly overridden
+      if (!override) {
+        const limitsResponse = await apiHelpers.checkUsageLimits(
+          subscriptionId,
+          request
+        );
+        setLimitsResult(limitsResponse.data);
+        if (!limitsResponse.data.within_limits) {
+          return;
+        }
+      }
+
+      await apiHelpers.recordUsage(subscriptionId, request);
+      showAlert('Usage event recorded successfully');
+      onRecorded();
+    } catch (error) {
+      setError(getApiErrorMessage(error, 'Failed to record usage event'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isBlockedByLimits =
+    limitsResult !== null && !limitsResult.within_limits && !override;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      data-testid={TestIds.subscriptions.recordUsageDialog.container}
+    >
+      <DialogTitle>Record Usage Event</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert
+            severity="error"
+            sx={{ mb: 2 }}
+            data-testid={TestIds.subscriptions.recordUsageDialog.error}
+          >
+            {error}
+          </Alert>
+        )}
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          <Grid item xs={12} sm={7}>
+            <FormControl fullWidth>
+              <InputLabel>Event Type</InputLabel>
+              <Select
+                value={eventType}
+                label="Event Type"
+                onChange={e => {
+                  setEventType(e.target.value as UsageEventType);
+                  resetLimitsCheck();
+                }}
+                data-testid={TestIds.subscriptions.recordUsageDialog.eventType}
+              >
+                {(Object.keys(USAGE_EVENT_TYPES) as UsageEventType[]).map(
+                  type => (
+                    <MenuItem
+                      key={type}
+                      value={type}
+                      data-testid={TestIds.subscriptions.recordUsageDialog.eventTypeOption(
+                        type
+                      )}
+                    >
+                      {USAGE_EVENT_TYPES[type]}
+                    </MenuItem>
+                  )
+                )}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={5}>
+            <TextField
+              fullWidth
+              required
+              type="number"
+              label="Quantity"
+              value={quantity}
+              onChange={e => {
+                setQuantity(e.target.value);
+                resetLimitsCheck();
+              }}
+              helperText="Negative values credit usage"
+              inputProps={{
+                'data-testid': TestIds.subscriptions.recordUsageDialog.quantity,
+              }}
+            />
+          </Grid>
+
+          <Grid item xs={12}>
+            <Box
+              sx={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+              }}
+            >
+              <Typography variant="subtitle2">Metadata</Typography>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() =>
+                  setMetadata(prev => [...prev, { key: '', value: '' }])
+                }
+                data-testid={
+                  TestIds.subscriptions.recordUsageDialog.addMetadata
+                }
+              >
+                Add Field
+              </Button>
+            </Box>
+            {metadata.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No metadata fields
+              </Typography>
+            )}
+            {metadata.map((entry, index) => (
+              <Box key={index} sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                <TextField
+                  size="small"
+                  label="Key"
+                  value={entry.key}
+                  onChange={e =>
+                    handleMetadataChange(index, 'key', e.target.value)
+                  }
+                  inputProps={{
+                    'data-testid':
+                      TestIds.subscriptions.recordUsageDialog.metadataKey(
+                        index
+                      ),
+                  }}
+                />
+                <TextField
+                  size="small"
+                  label="Value"
+                  value={entry.value}
+                  onChange={e =>
+                    handleMetadataChange(index, 'value', e.target.value)
+                  }
+                  sx={{ flex: 1 }}
+                  inputProps={{
+                    'data-testid':
+                      TestIds.subscriptions.recordUsageDialog.metadataValue(
+                        index
+                      ),
+                  }}
+                />
+                <IconButton
+                  size="small"
+                  onClick={() =>
+                    setMetadata(prev => prev.filter((_, i) => i !== index))
+                  }
+                  data-testid={TestIds.subscriptions.recordUsageDialog.removeMetadata(
+                    index
+                  )}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Grid>
+
+          {limitsResult && (
+            <Grid item xs={12}>
+              <Alert
+                severity={limitsResult.within_limits ? 'success' : 'warning'}
+                data-testid={
+                  TestIds.subscriptions.recordUsageDialog.limitsWarning
+                }
+              >
+                {describeLimitsResult(limitsResult)}
+              </Alert>
+            </Grid>
+          )}
+
+          {limitsResult && !limitsResult.within_limits && (
+            <Grid item xs={12}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={override}
+                    onChange={e => setOverride(e.target.checked)}
+                    data-testid={
+                      TestIds.subscriptions.recordUsageDialog.overrideCheckbox
+                    }
+                  />
+                }
+                label="Override usage limits"
+              />
+              {override && (
+                <TextField
+                  fullWidth
+                  required
+                  multiline
+                  minRows={2}
+                  label="Override Reason"
+                  value={overrideReason}
+                  onChange={e => setOverrideReason(e.target.value)}
+                  sx={{ mt: 1 }}
+                  inputProps={{
+                    'data-testid':
+                      TestIds.subscriptions.recordUsageDialog.overrideReason,
+                  }}
+                />
+              )}
+            </Grid>
+          )}
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          disabled={submitting}
+          data-testid={TestIds.subscriptions.recordUsageDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={
+            submitting ||
+            isBlockedByLimits ||
+            (override && !overrideReason.trim())
+          }
+          data-testid={TestIds.subscriptions.recordUsageDialog.submit}
+        >
+          {submitting ? 'Recording...' : 'Record Event'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SubscriptionUsagePanel;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/SubscriptionUsagePanel.tsx
+// ──────────────────────────────────────────────────
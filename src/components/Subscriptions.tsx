@@ -4,7 +4,7 @@
  * Description: Subscriptions management page for TondroAI CRM
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 03-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -41,26 +41,43 @@ import {
 import {
   Visibility as VisibilityIcon,
   Edit as EditIcon,
+  SwapHoriz as SwapHorizIcon,
+  Delete as DeleteIcon,
 } from '@mui/icons-material';
 import { apiHelpers } from '../services/api';
 import {
   type Subscription,
   type Organization,
   type Product,
+  type ProductTier,
   type CreateSubscriptionRequest,
   type UpdateSubscriptionRequest,
 } from '../types';
 import { getStatusBackgroundColor } from '../theme';
 import { TestIds } from '../testIds';
 import { getButtonProps } from '../utils/buttonStyles';
-import { formatTierName, getTierColor } from '../utils/tierFormatter';
-import { useProductTiers } from '../hooks/useProductTiers';
+import { useProductTiersByProduct } from '../hooks/useProductTiers';
+import { useTierRegistry } from '../contexts/TierRegistryContext';
+import { getActiveProducts } from '../utils/productFormatters';
+import { formatMoney } from '../utils/moneyFormatter';
 import OrganizationsDropdown from './common/OrganizationsDropdown';
 import { useAuth } from '../contexts/AuthContext';
 import { PERMISSIONS } from '../config/roles';
-import { useEntityState, usePagination, useEntityData } from '../hooks';
+import {
+  useEntityState,
+  usePagination,
+  useEntityData,
+  useEntityDeepLink,
+} from '../hooks';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
 import { useAlert } from '@/contexts/AlertContext';
+import SubscriptionUsagePanel from './SubscriptionUsagePanel';
+import {
+  SubscriptionStatusDialog,
+  SubscriptionStatusTimeline,
+  DeleteSubscriptionDialog,
+} from './SubscriptionLifecycle';
+import { getAllowedTransitions } from '../utils/subscriptionLifecycle';
 
 // Stubs for missing dialog components (replace with real implementations if available)
 const CreateSubscriptionDialog = ({
@@ -69,14 +86,12 @@ const CreateSubscriptionDialog = ({
   onSubmit,
   organizations,
   products,
-  getTierOptions,
 }: {
   open: boolean;
   onClose: () => void;
   onSubmit: (data: CreateSubscriptionRequest) => Promise<void>;
   organizations: Organization[];
   products: Product[];
-  getTierOptions: (productId: string) => string[];
 }) => {
   const [form, setForm] = useState<CreateSubscriptionRequest>({
     organization_id: 0,
@@ -105,7 +120,10 @@ const CreateSubscriptionDialog = ({
     }
   }, [open]);
 
-  const tierOptions = getTierOptions(form.product_id);
+  const { tiers, loading: tiersLoading } = useProductTiersByProduct(
+    form.product_id
+  );
+  const tierOptions = tiers.filter(tier => tier.status === 'Active');
 
   const handleChange = (field: keyof CreateSubscriptionRequest, value: any) => {
     setForm(prev => ({ ...prev, [field]: value }));
@@ -205,7 +223,7 @@ const CreateSubscriptionDialog = ({
                   label="Product *"
                   data-testid={TestIds.subscriptions.createDialog.product}
                 >
-                  {products.map(product => (
+                  {getActiveProducts(products).map(product => (
                     <MenuItem
                       key={product.id}
                       value={product.id}
@@ -227,18 +245,23 @@ const CreateSubscriptionDialog = ({
                   value={form.tier}
                   onChange={e => handleChange('tier', e.target.value)}
                   label="Tier *"
-                  disabled={!form.product_id}
+                  disabled={!form.product_id || tiersLoading}
                   data-testid={TestIds.subscriptions.createDialog.tier}
                 >
+                  {tierOptions.length === 0 && (
+                    <MenuItem value="" disabled>
+                      No active tiers configured for this product
+                    </MenuItem>
+                  )}
                   {tierOptions.map(tier => (
                     <MenuItem
-                      key={tier}
-                      value={tier}
+                      key={tier.id}
+                      value={tier.tier_name}
                       data-testid={TestIds.subscriptions.createDialog.tierOption(
-                        tier
+                        tier.tier_name
                       )}
                     >
-                      {formatTierName(tier)}
+                      {getTierOptionLabel(tier)}
                     </MenuItem>
                   ))}
                 </Select>
@@ -297,6 +320,10 @@ const CreateSubscriptionDialog = ({
   );
 };
 
+// Describes a tier with its limit and price in the tier pickers
+const getTierOptionLabel = (tier: ProductTier): string =>
+  `${tier.display_name} (${tier.max_limit.toLocaleString()} / ${formatMoney(tier.price, tier.currency)})`;
+
 // Add helper functions to handle both field formats
 const getTierName = (subscription: Subscription): string => {
   return subscription.tier || '';
@@ -313,21 +340,26 @@ const EditSubscriptionDialog = ({
   subscription,
   onClose,
   onSubmit,
-  getTierOptions,
 }: {
   subscription: Subscription;
   onClose: () => void;
   onSubmit: (data: UpdateSubscriptionRequest) => Promise<void>;
-  getTierOptions: (productId: string) => string[];
 }) => {
+  // Status changes go through the lifecycle transitions, not this form
   const [form, setForm] = useState<UpdateSubscriptionRequest>({
-    status: subscription.status,
     tier: getTierName(subscription),
   });
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const tierOptions = getTierOptions(subscription.product_id);
+  const { tiers, loading: tiersLoading } = useProductTiersByProduct(
+    subscription.product_id
+  );
+  // Keep the current tier selectable even if it has since been deactivated
+  const tierOptions = tiers.filter(
+    tier =>
+      tier.status === 'Active' || tier.tier_name === getTierName(subscription)
+  );
 
   const handleChange = (field: keyof UpdateSubscriptionRequest, value: any) => {
     setForm(prev => ({ ...prev, [field]: value }));
@@ -367,50 +399,24 @@ const EditSubscriptionDialog = ({
                   value={form.tier || ''}
                   onChange={e => handleChange('tier', e.target.value)}
                   label="Tier"
+                  disabled={tiersLoading}
                   data-testid={TestIds.subscriptions.editDialog.tier}
                 >
                   {tierOptions.map(tier => (
                     <MenuItem
-                      key={tier}
-                      value={tier}
+                      key={tier.id}
+                      value={tier.tier_name}
                       data-testid={TestIds.subscriptions.editDialog.tierOption(
-                        tier
+                        tier.tier_name
                       )}
                     >
-                      {formatTierName(tier)}
+                      {getTierOptionLabel(tier)}
+                      {tier.status !== 'Active' && ' - Inactive'}
                     </MenuItem>
                   ))}
                 </Select>
               </FormControl>
             </Grid>
-            <Grid item xs={12} sm={6}>
-              <FormControl fullWidth margin="normal">
-                <InputLabel>Status</InputLabel>
-                <Select
-                  value={form.status || ''}
-                  onChange={e => handleChange('status', e.target.value)}
-                  label="Status"
-                  data-testid={TestIds.subscriptions.editDialog.status}
-                >
-                  <MenuItem
-                    value="active"
-                    data-testid={TestIds.subscriptions.editDialog.statusOption(
-                      'active'
-                    )}
-                  >
-                    Active
-                  </MenuItem>
-                  <MenuItem
-                    value="inactive"
-                    data-testid={TestIds.subscriptions.editDialog.statusOption(
-                      'inactive'
-                    )}
-                  >
-                    Inactive
-                  </MenuItem>
-                </Select>
-              </FormControl>
-            </Grid>
           </Grid>
           {error && (
             <Alert
@@ -475,9 +481,14 @@ const Subscriptions: React.FC = () => {
 
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [statusSubscription, setStatusSubscription] =
+    useState<Subscription | null>(null);
+  const [deletingSubscription, setDeletingSubscription] =
+    useState<Subscription | null>(null);
 
-  // Product tiers hook for dynamic tier data
-  const { tiers: productTiers } = useProductTiers();
+  // Shared tier registry for tier options, labels and colors
+  const { getTiersForProduct, getTierLabel, getTierChipColor } =
+    useTierRegistry();
 
   const { fetchData: fetchSubscriptions, refetch: refetchSubscriptions } =
     useEntityData(entityState, setEntityState, setPagination, {
@@ -519,6 +530,19 @@ const Subscriptions: React.FC = () => {
 
   const { showAlert } = useAlert();
 
+  // Open the details dialog when linked from another page (e.g. audit log)
+  const { clearDeepLink } = useEntityDeepLink<Subscription>({
+    entityLabel: 'Subscription',
+    loadEntity: async (id, signal) => {
+      const response = await apiHelpers.getSubscription(id, signal);
+      return response.data;
+    },
+    onLoad: subscription => {
+      setSelectedSubscription(subscription);
+      setEditMode(false);
+    },
+  });
+
   useEffect(() => {
     const token = localStorage.getItem('access_token');
     if (!token) {
@@ -618,33 +642,7 @@ const Subscriptions: React.FC = () => {
 
   const getTierOptions = (productId: string): string[] => {
     if (!productId) return [];
-
-    // Get tiers for the specific product from API data
-    const productTiersForProduct = productTiers.filter(
-      tier => tier.product_id === productId
-    );
-
-    if (productTiersForProduct.length > 0) {
-      // Return tier names from API data
-      return productTiersForProduct.map(tier => tier.tier_name);
-    }
-
-    // Fallback to hardcoded values if no API data available
-    const product = products.find(p => p.id === productId);
-    if (!product) return [];
-
-    // Use name field instead of display_name
-    const productName = (product.name || '').toLowerCase();
-    if (productName.includes('transcript')) {
-      return ['Trans 200', 'Trans 500', 'Trans 1000'];
-    } else if (productName.includes('admission')) {
-      return ['Admis 200', 'Admis 500', 'Admis 1000'];
-    } else if (productName.includes('transcript')) {
-      return ['transcripts_500', 'transcripts_1000', 'transcripts_2000'];
-    } else if (productName.includes('admission')) {
-      return ['admissions_200', 'admissions_500', 'admissions_1000'];
-    }
-    return ['tier_1', 'tier_2', 'tier_3'];
+    return getTiersForProduct(productId).map(tier => tier.tier_name);
   };
 
   const handleFilterChange = (field: string, value: string): void => {
@@ -694,6 +692,7 @@ const Subscriptions: React.FC = () => {
       showAlert('Subscription updated successfully!');
       setSelectedSubscription(null);
       setEditMode(false);
+      clearDeepLink();
       refetchSubscriptions();
     } catch (error: any) {
       showAlert(
@@ -834,7 +833,7 @@ const Subscriptions: React.FC = () => {
                       value={tier}
                       data-testid={TestIds.filterForm.tierOption(tier)}
                     >
-                      {formatTierName(tier)}
+                      {getTierLabel(tier, filters.product_id)}
                     </MenuItem>
                   ))}
               </Select>
@@ -924,8 +923,14 @@ const Subscriptions: React.FC = () => {
                       </TableCell>
                       <TableCell>
                         <Chip
-                          label={formatTierName(getTierName(subscription))}
-                          color={getTierColor(getTierName(subscription))}
+                          label={getTierLabel(
+                            getTierName(subscription),
+                            subscription.product_id
+                          )}
+                          color={getTierChipColor(
+                            getTierName(subscription),
+                            subscription.product_id
+                          )}
                           size="small"
                         />
                       </TableCell>
@@ -969,6 +974,39 @@ const Subscriptions: React.FC = () => {
                               <EditIcon />
                             </IconButton>
                           )}
+                          {hasPermission(PERMISSIONS.SUBSCRIPTION_UPDATE) && (
+                            <IconButton
+                              size="small"
+                              onClick={() =>
+                                setStatusSubscription(subscription)
+                              }
+                              disabled={
+                                getAllowedTransitions(subscription.status)
+                                  .length === 0
+                              }
+                              title="Change status"
+                              data-testid={TestIds.subscriptions.updateStatus(
+                                subscription.id
+                              )}
+                            >
+                              <SwapHorizIcon />
+                            </IconButton>
+                          )}
+                          {hasPermission(PERMISSIONS.SUBSCRIPTION_DELETE) && (
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() =>
+                                setDeletingSubscription(subscription)
+                              }
+                              title="Delete subscription"
+                              data-testid={TestIds.subscriptions.cancel(
+                                subscription.id
+                              )}
+                            >
+                              <DeleteIcon />
+                            </IconButton>
+                          )}
                         </Box>
                       </TableCell>
                     </TableRow>
@@ -1079,8 +1117,8 @@ const Subscriptions: React.FC = () => {
                   Tier
                 </Typography>
                 <Chip
-                  label={formatTierName(tierName)}
-                  color={getTierColor(tierName)}
+                  label={getTierLabel(tierName, subscription.product_id)}
+                  color={getTierChipColor(tierName, subscription.product_id)}
                   size="small"
                   sx={{ mb: 2 }}
                 />
@@ -1156,6 +1194,21 @@ const Subscriptions: React.FC = () => {
                   {new Date(subscription.updated_at).toLocaleDateString()}
                 </Typography>
               </Grid>
+
+              {hasPermission(PERMISSIONS.AUDIT_READ) && (
+                <Grid item xs={12}>
+                  <SubscriptionStatusTimeline
+                    subscriptionId={subscription.id}
+                  />
+                </Grid>
+              )}
+
+              <Grid item xs={12}>
+                <SubscriptionUsagePanel
+                  subscriptionId={subscription.id}
+                  maxLimit={maxLimit}
+                />
+              </Grid>
             </Grid>
           </Box>
         </DialogContent>
@@ -1197,9 +1250,34 @@ const Subscriptions: React.FC = () => {
         onSubmit={handleCreateSubscription}
         organizations={organizations}
         products={products}
-        getTierOptions={getTierOptions}
       />
 
+      {statusSubscription && (
+        <SubscriptionStatusDialog
+          subscription={statusSubscription}
+          onClose={() => setStatusSubscription(null)}
+          onTransitioned={() => {
+            setStatusSubscription(null);
+            refetchSubscriptions();
+          }}
+        />
+      )}
+
+      {deletingSubscription && (
+        <DeleteSubscriptionDialog
+          subscription={deletingSubscription}
+          organizationName={getOrganizationName(
+            deletingSubscription.organization_id
+          )}
+          productName={getProductName(deletingSubscription.product_id)}
+          onClose={() => setDeletingSubscription(null)}
+          onDeleted={() => {
+            setDeletingSubscription(null);
+            refetchSubscriptions();
+          }}
+        />
+      )}
+
       {selectedSubscription && (
         <>
           {!editMode && (
@@ -1208,6 +1286,7 @@ const Subscriptions: React.FC = () => {
               onClose={() => {
                 setSelectedSubscription(null);
                 setEditMode(false);
+                clearDeepLink();
               }}
               organizations={organizations}
               products={products}
@@ -1219,9 +1298,9 @@ const Subscriptions: React.FC = () => {
               onClose={() => {
                 setSelectedSubscription(null);
                 setEditMode(false);
+                clearDeepLink();
               }}
               onSubmit={handleUpdateSubscription}
-              getTierOptions={getTierOptions}
             />
           )}
         </>
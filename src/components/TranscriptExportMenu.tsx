@@ -0,0 +1,189 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/TranscriptExportMenu.tsx
+ * Description: Download and print actions for a completed transcript job
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState } from 'react';
+import {
+  Button,
+  CircularProgress,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  DataObject as DataObjectIcon,
+  TableChart as TableChartIcon,
+  Print as PrintIcon,
+} from '@mui/icons-material';
+import {
+  transcriptsApiHelpers,
+  type JobDiagnosticsResponse,
+} from '../services/transcriptsApi';
+import { useAlert } from '../contexts/AlertContext';
+import { TestIds } from '../testIds';
+import { getApiErrorMessage } from '../utils/getApiErrorMessage';
+import {
+  buildTranscriptJson,
+  buildTranscriptFieldsCsv,
+  buildTranscriptCoursesCsv,
+  downloadTextFile,
+  getTranscriptReportLink,
+  hasTranscriptCourses,
+  type TranscriptFileMeta,
+} from '../utils/transcriptExport';
+
+type ExportFormat = 'json' | 'fieldsCsv' | 'coursesCsv';
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface TranscriptExportMenuProps {
+  jobId: number | string;
+
+  /** Already loaded job; fetched on demand when omitted */
+  job?: JobDiagnosticsResponse | null;
+
+  /** Upload details the diagnostics endpoint does not return */
+  fileMeta?: TranscriptFileMeta;
+
+  disabled?: boolean;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({
+  jobId,
+  job = null,
+  fileMeta = {},
+  disabled = false,
+}) => {
+  const { showAlert } = useAlert();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const testIds = TestIds.transcriptExport;
+
+  const loadJob = async (): Promise<JobDiagnosticsResponse> => {
+    if (job) return job;
+    const response = await transcriptsApiHelpers.getJobStatus(Number(jobId));
+    return response.data;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setAnchorEl(null);
+    setLoading(true);
+    try {
+      const exportJob = await loadJob();
+      const baseName = `transcript-job-${jobId}`;
+
+      if (format === 'json') {
+        downloadTextFile(
+          buildTranscriptJson(exportJob, fileMeta),
+          `${baseName}.json`,
+          'application/json'
+        );
+      } else if (format === 'fieldsCsv') {
+        downloadTextFile(
+          buildTranscriptFieldsCsv(exportJob),
+          `${baseName}-fields.csv`,
+          'text/csv'
+        );
+      } else {
+        if (!hasTranscriptCourses(exportJob)) {
+          showAlert('This transcript has no courses to export', 'info');
+          return;
+        }
+        downloadTextFile(
+          buildTranscriptCoursesCsv(exportJob),
+          `${baseName}-courses.csv`,
+          'text/csv'
+        );
+      }
+    } catch (error) {
+      showAlert(
+        getApiErrorMessage(error, 'Failed to export transcript'),
+        'error'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrint = () => {
+    setAnchorEl(null);
+    window.open(getTranscriptReportLink(jobId, fileMeta), '_blank');
+  };
+
+  return (
+    // Keeps clicks from reaching clickable parents such as job rows
+    <span onClick={e => e.stopPropagation()}>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={loading ? <CircularProgress size={16} /> : <DownloadIcon />}
+        onClick={e => setAnchorEl(e.currentTarget)}
+        disabled={disabled || loading}
+        data-testid={testIds.button(jobId)}
+      >
+        Export
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        data-testid={testIds.menu(jobId)}
+      >
+        <MenuItem
+          onClick={() => handleExport('json')}
+          data-testid={testIds.json}
+        >
+          <ListItemIcon>
+            <DataObjectIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Download JSON</ListItemText>
+        </MenuItem>
+        <MenuItem
+          onClick={() => handleExport('fieldsCsv')}
+          data-testid={testIds.fieldsCsv}
+        >
+          <ListItemIcon>
+            <TableChartIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Download Fields CSV</ListItemText>
+        </MenuItem>
+        <MenuItem
+          onClick={() => handleExport('coursesCsv')}
+          data-testid={testIds.coursesCsv}
+        >
+          <ListItemIcon>
+            <TableChartIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Download Courses CSV</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={handlePrint} data-testid={testIds.printReport}>
+          <ListItemIcon>
+            <PrintIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Print Report</ListItemText>
+        </MenuItem>
+      </Menu>
+    </span>
+  );
+};
+
+export default TranscriptExportMenu;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/TranscriptExportMenu.tsx
+// ──────────────────────────────────────────────────
@@ -0,0 +1,510 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/TranscriptReviewPanel.tsx
+ * Description: Inline review of a document's corrected extraction with revision history and job approval
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Chip,
+  Checkbox,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Divider,
+  CircularProgress,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import {
+  Save as SaveIcon,
+  Verified as VerifiedIcon,
+} from '@mui/icons-material';
+import {
+  transcriptsApiHelpers,
+  type ExtractionRevision,
+  type JobDiagnosticsDocument,
+  type JobDiagnosticsResponse,
+} from '../services/transcriptsApi';
+import { useAlert } from '../contexts/AlertContext';
+import { useAuth } from '../contexts/AuthContext';
+import { PERMISSIONS } from '../config/roles';
+import { TestIds } from '../testIds';
+import { getApiErrorMessage } from '../utils/getApiErrorMessage';
+import { formatDiffPath } from '../utils/analysisDiff';
+import {
+  flattenExtractionFields,
+  formatFieldInput,
+  parseFieldInput,
+  setFieldValue,
+} from '../utils/extractionReview';
+import {
+  getFieldConfidence,
+  isLowConfidence,
+  sortByConfidence,
+} from '../utils/extractionConfidence';
+import ConfidenceChip from './common/ConfidenceChip';
+
+const formatTimestamp = (timestamp: string | null | undefined): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'N/A';
+
+// ────────────────────────────────────────
+// Job Approval
+// ────────────────────────────────────────
+
+interface JobApprovalButtonProps {
+  job: JobDiagnosticsResponse;
+  onApproved?: (job: JobDiagnosticsResponse) => void;
+}
+
+/**
+ * Marks a job as human-verified, or shows who verified it
+ */
+export const JobApprovalButton: React.FC<JobApprovalButtonProps> = ({
+  job,
+  onApproved,
+}) => {
+  const { showAlert } = useAlert();
+  const { hasPermission } = useAuth();
+  const [approvedJob, setApprovedJob] = useState<JobDiagnosticsResponse | null>(
+    null
+  );
+  const [approving, setApproving] = useState<boolean>(false);
+
+  const current = approvedJob || job;
+
+  if (current.human_verified) {
+    return (
+      <Chip
+        icon={<VerifiedIcon />}
+        label={
+          current.verified_by
+            ? `Verified by ${current.verified_by}`
+            : 'Human verified'
+        }
+        color="success"
+        data-testid={TestIds.transcriptReview.verifiedChip}
+      />
+    );
+  }
+
+  if (!hasPermission(PERMISSIONS.TRANSCRIPT_REVIEW)) return null;
+
+  const handleApprove = async () => {
+    if (
+      !window.confirm(
+        `Approve job #${job.id}? It will be marked as human-verified.`
+      )
+    ) {
+      return;
+    }
+
+    setApproving(true);
+    try {
+      const response = await transcriptsApiHelpers.approveJob(job.id);
+      const updatedJob = { ...job, ...response.data, human_verified: true };
+      setApprovedJob(updatedJob);
+      onApproved?.(updatedJob);
+      showAlert(`Job #${job.id} approved`);
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to approve job'), 'error');
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="contained"
+      color="success"
+      startIcon={approving ? <CircularProgress size={16} /> : <VerifiedIcon />}
+      onClick={handleApprove}
+      disabled={approving}
+      data-testid={TestIds.transcriptReview.approveButton}
+    >
+      Approve
+    </Button>
+  );
+};
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface TranscriptReviewPanelProps {
+  jobId: number;
+  document: JobDiagnosticsDocument;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const TranscriptReviewPanel: React.FC<TranscriptReviewPanelProps> = ({
+  jobId,
+  document,
+}) => {
+  const { showAlert } = useAlert();
+  const { hasPermission } = useAuth();
+  const canReview = hasPermission(PERMISSIONS.TRANSCRIPT_REVIEW);
+  const testIds = TestIds.transcriptReview;
+
+  const [revisions, setRevisions] = useState<ExtractionRevision[]>([]);
+  const [loadingRevisions, setLoadingRevisions] = useState<boolean>(true);
+  // Text typed by the reviewer, keyed by field path
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [reviewedFields, setReviewedFields] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  // Newest revision first; edits build on top of it
+  const latestRevision = revisions[0] || null;
+  const baseData = latestRevision
+    ? latestRevision.data
+    : document.result?.pass_2_correction || {};
+  // Least confident fields first; scores come from the model's final pass
+  const fields = useMemo(() => {
+    const modelData = document.result?.pass_2_correction;
+    return sortByConfidence(
+      flattenExtractionFields(baseData).map(field => ({
+        ...field,
+        confidence: getFieldConfidence(modelData, field.path),
+      })),
+      field => field.confidence
+    );
+  }, [baseData, document.result]);
+  const lowConfidenceCount = fields.filter(field =>
+    isLowConfidence(field.confidence)
+  ).length;
+
+  // ────────────────────────────────────────
+  // Revision History
+  // ────────────────────────────────────────
+
+  useEffect(() => {
+    const controller = transcriptsApiHelpers.createAbortController();
+
+    const fetchRevisions = async () => {
+      setLoadingRevisions(true);
+      try {
+        const response = await transcriptsApiHelpers.getDocumentRevisions(
+          jobId,
+          document.id,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        const sorted = [...(response.data || [])].sort(
+          (a, b) => b.revision_number - a.revision_number
+        );
+        setRevisions(sorted);
+        setReviewedFields(new Set(sorted[0]?.reviewed_fields || []));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        showAlert(
+          getApiErrorMessage(error, 'Failed to load revision history'),
+          'error'
+        );
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoadingRevisions(false);
+        }
+      }
+    };
+
+    fetchRevisions();
+
+    return () => controller.abort();
+  }, [jobId, document.id]);
+
+  // ────────────────────────────────────────
+  // Editing
+  // ────────────────────────────────────────
+
+  const editedFields = fields.filter(
+    field =>
+      drafts[field.key] !== undefined &&
+      drafts[field.key] !== formatFieldInput(field.value)
+  );
+  const savedReviewed = new Set(latestRevision?.reviewed_fields || []);
+  const reviewedChanged =
+    reviewedFields.size !== savedReviewed.size ||
+    [...reviewedFields].some(key => !savedReviewed.has(key));
+  const isDirty = editedFields.length > 0 || reviewedChanged;
+
+  const toggleReviewed = (key: string, reviewed: boolean) => {
+    setReviewedFields(prev => {
+      const next = new Set(prev);
+      if (reviewed) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const handleMarkAllReviewed = () => {
+    setReviewedFields(new Set(fields.map(field => field.key)));
+  };
+
+  const handleDiscard = () => {
+    setDrafts({});
+    setReviewedFields(savedReviewed);
+    setComment('');
+  };
+
+  const handleSaveRevision = async () => {
+    const data = editedFields.reduce(
+      (acc, field) =>
+        setFieldValue(
+          acc,
+          field.path,
+          parseFieldInput(drafts[field.key] ?? '', field.value)
+        ),
+      baseData
+    );
+
+    setSaving(true);
+    try {
+      const response = await transcriptsApiHelpers.createDocumentRevision(
+        jobId,
+        document.id,
+        {
+          data,
+          reviewed_fields: [...reviewedFields],
+          ...(comment.trim() && { comment: comment.trim() }),
+        }
+      );
+      setRevisions(prev => [response.data, ...prev]);
+      setDrafts({});
+      setComment('');
+      showAlert(`Revision ${response.data.revision_number} saved`);
+    } catch (error) {
+      showAlert(getApiErrorMessage(error, 'Failed to save revision'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ────────────────────────────────────────
+  // Render Logic
+  // ────────────────────────────────────────
+
+  const renderFieldInput = (field: (typeof fields)[number]) => {
+    const value = drafts[field.key] ?? formatFieldInput(field.value);
+    const setValue = (next: string) =>
+      setDrafts(prev => ({ ...prev, [field.key]: next }));
+
+    if (typeof field.value === 'boolean') {
+      return (
+        <Checkbox
+          size="small"
+          checked={value === 'true'}
+          onChange={e => setValue(String(e.target.checked))}
+          disabled={!canReview}
+          data-testid={testIds.fieldInput(field.key)}
+        />
+      );
+    }
+
+    return (
+      <TextField
+        size="small"
+        fullWidth
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        disabled={!canReview}
+        {...(Array.isArray(field.value) && {
+          helperText: 'Separate values with commas',
+        })}
+        inputProps={{
+          'data-testid': testIds.fieldInput(field.key),
+          'aria-label': formatDiffPath(field.path),
+        }}
+      />
+    );
+  };
+
+  return (
+    <Card variant="outlined" data-testid={testIds.container(document.id)}>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Typography variant="h6">Human Review</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {reviewedFields.size} of {fields.length} fields reviewed
+              {lowConfidenceCount > 0 &&
+                ` · ${lowConfidenceCount} low confidence`}
+              {latestRevision &&
+                ` · Revision ${latestRevision.revision_number}`}
+            </Typography>
+          </Box>
+          {canReview && (
+            <Button
+              size="small"
+              onClick={handleMarkAllReviewed}
+              disabled={reviewedFields.size === fields.length}
+              data-testid={testIds.markAllReviewed}
+            >
+              Mark All Reviewed
+            </Button>
+          )}
+        </Box>
+
+        {fields.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No extracted fields to review
+          </Typography>
+        ) : (
+          <TableContainer
+            component={Paper}
+            variant="outlined"
+            sx={{ maxHeight: 480 }}
+          >
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Value</TableCell>
+                  <TableCell align="center">Confidence</TableCell>
+                  <TableCell align="center">Reviewed</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fields.map(field => (
+                  <TableRow
+                    key={field.key}
+                    sx={theme =>
+                      isLowConfidence(field.confidence)
+                        ? { bgcolor: alpha(theme.palette.error.main, 0.06) }
+                        : {}
+                    }
+                    data-testid={testIds.fieldRow(field.key)}
+                  >
+                    <TableCell sx={{ width: '35%' }}>
+                      <strong>{formatDiffPath(field.path)}</strong>
+                    </TableCell>
+                    <TableCell>{renderFieldInput(field)}</TableCell>
+                    <TableCell align="center">
+                      <ConfidenceChip
+                        confidence={field.confidence}
+                        testId={testIds.fieldConfidence(field.key)}
+                      />
+                    </TableCell>
+                    <TableCell align="center">
+                      <Checkbox
+                        size="small"
+                        checked={reviewedFields.has(field.key)}
+                        onChange={e =>
+                          toggleReviewed(field.key, e.target.checked)
+                        }
+                        disabled={!canReview}
+                        data-testid={testIds.fieldReviewed(field.key)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {canReview && (
+          <Box sx={{ display: 'flex', gap: 2, mt: 2, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="Revision comment"
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              sx={{ flexGrow: 1 }}
+              inputProps={{ 'data-testid': testIds.comment }}
+            />
+            <Button
+              onClick={handleDiscard}
+              disabled={!isDirty || saving}
+              data-testid={testIds.discardButton}
+            >
+              Discard
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />}
+              onClick={handleSaveRevision}
+              disabled={!isDirty || saving}
+              data-testid={testIds.saveButton}
+            >
+              Save Revision
+            </Button>
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle1" gutterBottom>
+          Revision History
+        </Typography>
+        {loadingRevisions ? (
+          <CircularProgress size={24} />
+        ) : revisions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No revisions yet; the values above come from the final pass.
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small" data-testid={testIds.history}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Revision</TableCell>
+                  <TableCell>Saved By</TableCell>
+                  <TableCell>Saved At</TableCell>
+                  <TableCell>Reviewed Fields</TableCell>
+                  <TableCell>Comment</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {revisions.map(revision => (
+                  <TableRow key={revision.id}>
+                    <TableCell>{revision.revision_number}</TableCell>
+                    <TableCell>{revision.created_by || 'N/A'}</TableCell>
+                    <TableCell>
+                      {formatTimestamp(revision.created_at)}
+                    </TableCell>
+                    <TableCell>{revision.reviewed_fields.length}</TableCell>
+                    <TableCell>{revision.comment || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TranscriptReviewPanel;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/TranscriptReviewPanel.tsx
+// ──────────────────────────────────────────────────
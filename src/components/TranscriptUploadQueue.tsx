@@ -0,0 +1,224 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/TranscriptUploadQueue.tsx
+ * Description: Table of queued transcript uploads with per-file status and actions
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Visibility as VisibilityIcon,
+  Replay as ReplayIcon,
+  Cancel as CancelIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { TestIds } from '../testIds';
+import {
+  isUploadQueueItemActive,
+  type UploadQueueItem,
+  type UploadQueueStatus,
+} from '../hooks';
+import { formatFileSize } from '../utils/transcriptFormatters';
+
+// ────────────────────────────────────────
+// Status Display
+// ────────────────────────────────────────
+
+const STATUS_CHIP_COLORS: Record<
+  UploadQueueStatus,
+  'default' | 'primary' | 'info' | 'success' | 'error' | 'warning'
+> = {
+  invalid: 'error',
+  pending: 'default',
+  queued: 'default',
+  uploading: 'info',
+  processing: 'primary',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'warning',
+};
+
+const CANCELLABLE_STATUSES: UploadQueueStatus[] = [
+  'pending',
+  'queued',
+  'uploading',
+];
+const RETRYABLE_STATUSES: UploadQueueStatus[] = ['failed', 'cancelled'];
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface TranscriptUploadQueueProps {
+  items: UploadQueueItem[];
+  selectedItemId: string | null;
+  onView: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const TranscriptUploadQueue: React.FC<TranscriptUploadQueueProps> = ({
+  items,
+  selectedItemId,
+  onView,
+  onRetry,
+  onCancel,
+  onRemove,
+}) => {
+  if (items.length === 0) return null;
+
+  const testIds = TestIds.transcripts.queue;
+  const completedCount = items.filter(
+    item => item.status === 'completed'
+  ).length;
+  const failedCount = items.filter(item =>
+    ['failed', 'invalid'].includes(item.status)
+  ).length;
+
+  return (
+    <Box data-testid={testIds.container}>
+      <Typography
+        variant="body2"
+        color="text.secondary"
+        sx={{ mb: 1 }}
+        data-testid={testIds.summary}
+      >
+        {completedCount} of {items.length} completed
+        {failedCount > 0 && `, ${failedCount} failed`}
+      </Typography>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>File</TableCell>
+              <TableCell>Size</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Job</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map(item => (
+              <TableRow
+                key={item.id}
+                selected={item.id === selectedItemId}
+                data-testid={testIds.row(item.id)}
+              >
+                <TableCell>
+                  <Typography variant="body2">{item.filename}</Typography>
+                  {item.error && (
+                    <Typography
+                      variant="caption"
+                      color="error"
+                      data-testid={testIds.error(item.id)}
+                    >
+                      {item.error}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {item.file ? formatFileSize(item.fileSize) : 'N/A'}
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Chip
+                      label={item.status}
+                      color={STATUS_CHIP_COLORS[item.status]}
+                      size="small"
+                      sx={{ textTransform: 'capitalize' }}
+                      data-testid={testIds.status(item.id)}
+                    />
+                    {isUploadQueueItemActive(item) && (
+                      <CircularProgress size={16} />
+                    )}
+                  </Box>
+                </TableCell>
+                <TableCell>
+                  {item.jobId !== null ? `#${item.jobId}` : '—'}
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  {item.status === 'completed' && (
+                    <Tooltip title="View results">
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={() => onView(item.id)}
+                        data-testid={testIds.viewButton(item.id)}
+                      >
+                        <VisibilityIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {RETRYABLE_STATUSES.includes(item.status) &&
+                    (item.file || item.jobId !== null) && (
+                      <Tooltip title="Retry">
+                        <IconButton
+                          size="small"
+                          onClick={() => onRetry(item.id)}
+                          data-testid={testIds.retryButton(item.id)}
+                        >
+                          <ReplayIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  {CANCELLABLE_STATUSES.includes(item.status) ? (
+                    <Tooltip title="Cancel">
+                      <IconButton
+                        size="small"
+                        color="warning"
+                        onClick={() => onCancel(item.id)}
+                        data-testid={testIds.cancelButton(item.id)}
+                      >
+                        <CancelIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  ) : (
+                    <Tooltip title="Remove from queue">
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => onRemove(item.id)}
+                        data-testid={testIds.removeButton(item.id)}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default TranscriptUploadQueue;
+
+// ──────────────────────────────────────────────────
+// End of File: src/components/TranscriptUploadQueue.tsx
+// ──────────────────────────────────────────────────
@@ -4,16 +4,19 @@
  * Description: Transcripts management page for TondroAI CRM with asynchronous job-based processing
  * Author: Muhammad Abubakar Khan
  * Created: 25-06-2025
- * Last Updated: 18-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  *
  * This component handles transcript file uploads and analysis using an asynchronous job-based API.
  * Features:
- * - File upload with validation (PDF, max 10MB)
+ * - Multi-file and drag-and-drop upload with validation (PDF/JPG/PNG, max 10MB)
+ * - Upload queue with a concurrency limit, per-file retry and cancel
  * - Job submission and status polling
  * - Detailed analysis results display
  * - Error handling with retry logic
  * - Support for both first-pass and final-pass analysis results (first-pass is the initial analysis, final-pass is the corrected analysis)
+ * - Field-by-field view of what the final pass corrected
+ * - Human review with inline corrections, revisions and job approval
  *
  * API Flow:
  * 1. Submit file → Receive job_id
@@ -23,28 +26,41 @@
  * 5. Display analysis results (first-pass and final-pass)
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Card,
   CardContent,
   Typography,
   Button,
-  Alert,
-  CircularProgress,
-  Paper,
-  Chip,
   Grid,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableRow,
-  Divider,
+  Tabs,
+  Tab,
+  Alert,
+  AlertTitle,
 } from '@mui/material';
 import { CloudUpload as CloudUploadIcon } from '@mui/icons-material';
 import { TestIds } from '../testIds';
-import { transcriptsApiHelpers } from '../services/transcriptsApi';
+import { useTranscriptUploadQueue, type UploadQueueItem } from '../hooks';
+import DynamicAnalysisView from './DynamicAnalysisView';
+import AnalysisDiffView from './AnalysisDiffView';
+import TranscriptReviewPanel, {
+  JobApprovalButton,
+} from './TranscriptReviewPanel';
+import TranscriptUploadQueue from './TranscriptUploadQueue';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import {
+  buildTranscriptFileInfo,
+  type TranscriptFileInfo,
+  type TranscriptFileMeta,
+} from '../utils/transcriptExport';
+import { flattenExtractionFields } from '../utils/extractionReview';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  formatConfidence,
+  getFieldConfidence,
+  isLowConfidence,
+} from '../utils/extractionConfidence';
 
 // ────────────────────────────────────────
 // Type Definitions
@@ -138,25 +154,18 @@ interface TranscriptAnalysisResponse {
   success: boolean;
   data?: {
     job_id: number; // Changed from string to number
-    file_info: {
-      filename: string;
-      file_size: number;
-      file_type: string;
-      uploaded_at: string;
-      processing_started_at: string;
-      processing_completed_at: string;
-      total_processing_time_seconds: number;
-    };
+    file_info: TranscriptFileInfo;
     analysis_results: {
       first_pass: TranscriptAnalysisData;
       final_pass: TranscriptAnalysisData;
     };
+    // Scores are null when the extraction service does not report them
     processing_metadata: {
-      first_pass_confidence: number;
-      final_pass_confidence: number;
-      improvement_score: number;
+      first_pass_confidence: number | null;
+      final_pass_confidence: number | null;
+      improvement_score: number | null;
       processing_warnings: string[];
-      extraction_quality_score: number;
+      extraction_quality_score: number | null;
     };
   };
   error?: {
@@ -166,517 +175,251 @@ interface TranscriptAnalysisResponse {
   };
 }
 
+// How the two extraction passes are presented
+type ResultsView = 'sideBySide' | 'changes' | 'review';
+
+// Remembers processing jobs so they resume after a page reload
+const TRANSCRIPT_QUEUE_STORAGE_KEY = 'transcripts_upload_queue';
+// Single in-flight job saved before batch uploads; migrated into the queue
+const LEGACY_TRANSCRIPT_JOB_STORAGE_KEY = 'transcripts_pending_job';
+
+const getItemFileMeta = (item: UploadQueueItem): TranscriptFileMeta => ({
+  filename: item.filename,
+  fileSize: item.fileSize,
+  fileType: item.fileType,
+});
+
+/**
+ * Converts a completed queue item into the analysis response shown on the page
+ * @param item - A queue item whose job has settled
+ * @returns The analysis response, or null if the job has no result
+ */
+const buildAnalysisResponse = (
+  item: UploadQueueItem
+): TranscriptAnalysisResponse | null => {
+  const { job } = item;
+  const document = job?.documents?.[0];
+  if (!job || !document?.result) return null;
+
+  const { result } = document;
+  const metadata = document.processing_metadata;
+  // Older results only carry warnings inside the final pass
+  const resultWarnings =
+    result.pass_2_correction?.extractionMetadata
+      ?.extractionMetadata_processing_warnings;
+
+  return {
+    success: true,
+    data: {
+      job_id: job.id,
+      file_info: buildTranscriptFileInfo(job, getItemFileMeta(item)),
+      analysis_results: {
+        first_pass: result.pass_1_extraction || {},
+        final_pass: result.pass_2_correction || {},
+      },
+      processing_metadata: {
+        first_pass_confidence: metadata?.first_pass_confidence ?? null,
+        final_pass_confidence: metadata?.final_pass_confidence ?? null,
+        improvement_score: metadata?.improvement_score ?? null,
+        processing_warnings:
+          metadata?.processing_warnings ??
+          (Array.isArray(resultWarnings) ? resultWarnings : []),
+        extraction_quality_score: metadata?.extraction_quality_score ?? null,
+      },
+    },
+  };
+};
+
 // ────────────────────────────────────────
 // Main Component
 // ────────────────────────────────────────
 
 const Transcripts: React.FC = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [jobId, setJobId] = useState<number | null>(null);
-  const [jobStatus, setJobStatus] = useState<
-    'idle' | 'processing' | 'completed' | 'failed'
-  >('idle');
-  // Remove polling-related refs and state
-  const [response, setResponse] = useState<TranscriptAnalysisResponse | null>(
-    null
+  const uploadQueue = useTranscriptUploadQueue({
+    persistKey: TRANSCRIPT_QUEUE_STORAGE_KEY,
+    legacyPersistKey: LEGACY_TRANSCRIPT_JOB_STORAGE_KEY,
+  });
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [resultsView, setResultsView] = useState<ResultsView>('sideBySide');
+
+  const { items } = uploadQueue;
+  const selectedItem = items.find(item => item.id === selectedItemId) || null;
+  const response = useMemo(
+    () =>
+      selectedItem?.status === 'completed'
+        ? buildAnalysisResponse(selectedItem)
+        : null,
+    [selectedItem]
   );
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string>('');
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+
+  // Show the first finished transcript without an extra click
+  useEffect(() => {
+    if (selectedItem) return;
+    const firstCompleted = items.find(item => item.status === 'completed');
+    if (firstCompleted) {
+      setSelectedItemId(firstCompleted.id);
+    }
+  }, [items, selectedItem]);
 
   // ────────────────────────────────────────
-  // File Upload Handlers
+  // File Selection Handlers
   // ────────────────────────────────────────
 
   /**
-   * Handles file selection and validation
+   * Adds the chosen files to the queue, where each one is validated
    * @param event - File input change event
    */
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      // Validate file type
-      const allowedTypes = [
-        'application/pdf',
-        'image/jpeg',
-        'image/jpg',
-        'image/png',
-      ];
-      if (!allowedTypes.includes(file.type)) {
-        setError('Please select a valid file type (PDF)');
-        setSelectedFile(null);
-        return;
-      }
-
-      // Validate file size (max 10MB)
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      if (file.size > maxSize) {
-        setError('File size must be less than 10MB');
-        setSelectedFile(null);
-        return;
-      }
-
-      setSelectedFile(file);
-      setError('');
-      setResponse(null);
-    }
+    uploadQueue.addFiles(Array.from(event.target.files || []));
+    // Allow the same file to be chosen again after it is removed
+    event.target.value = '';
   };
 
-  /**
-   * Submits the selected file for transcript analysis
-   * Creates a job and fetches results in a single flow
-   */
-  const handleSubmit = async () => {
-    if (!selectedFile) {
-      setError('Please select a file first');
-      return;
-    }
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
 
-    setLoading(true);
-    setError('');
-    setResponse(null);
-    setJobStatus('processing');
-
-    try {
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('document_type', 'transcript');
-
-      // Step 1: Submit the job
-      const submitResponse =
-        await transcriptsApiHelpers.submitTranscriptJob(formData);
-      const newJobId = submitResponse.data.job_id;
-      setJobId(newJobId);
-
-      // Step 2: Wait a moment for processing to start, then fetch results
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Step 3: Fetch the job results
-      const statusResponse = await transcriptsApiHelpers.getJobStatus(newJobId);
-      // Fix: The API returns a single job object, not an array
-      const job = statusResponse.data; // Remove the [0] indexing
-      const document = job?.documents?.[0];
-
-      if (!document) {
-        throw new Error('Invalid job structure received from API.');
-      }
-
-      const { status, result, error: docError } = document;
-
-      if (status === 'completed' && result) {
-        setJobStatus('completed');
-
-        const transformedResponse: TranscriptAnalysisResponse = {
-          success: true,
-          data: {
-            job_id: newJobId,
-            file_info: {
-              filename: selectedFile?.name || 'Unknown',
-              file_size: selectedFile?.size || 0,
-              file_type: selectedFile?.type || 'application/pdf',
-              uploaded_at: job.created_timestamp,
-              processing_started_at: job.created_timestamp,
-              processing_completed_at: job.created_timestamp,
-              total_processing_time_seconds:
-                job.processing_duration_seconds || 0, // Use the actual processing duration from API
-            },
-            analysis_results: {
-              first_pass: result.pass_1_extraction || {},
-              final_pass: result.pass_2_correction || {},
-            },
-            processing_metadata: {
-              first_pass_confidence: 0.8, // Placeholder
-              final_pass_confidence: 0.9, // Placeholder
-              improvement_score: 0.1, // Placeholder
-              processing_warnings: [],
-              extraction_quality_score: 0.85, // Placeholder
-            },
-          },
-        };
-        setResponse(transformedResponse);
-      } else if (status === 'failed') {
-        setJobStatus('failed');
-        const errorMessage = getErrorMessage(docError?.code, docError?.message);
-        setError(errorMessage);
-      } else {
-        // If still processing, show a message that it may take time
-        setJobStatus('processing');
-        setError(
-          'Processing is taking longer than expected. Please check back later or try again.'
-        );
-      }
-    } catch (err: any) {
-      console.error('Error processing transcript:', err);
-
-      // Handle specific API errors
-      if (err?.response?.data?.error?.code) {
-        const errorMessage = getErrorMessage(
-          err.response.data.error.code,
-          err.response.data.error.message
-        );
-        setError(errorMessage);
-      } else if (err?.response?.status === 413) {
-        setError('File too large. Please use a smaller file (max 10MB).');
-      } else if (err?.response?.status === 415) {
-        setError(
-          'Unsupported file type. Please use PDF, JPG, JPEG, or PNG files.'
-        );
-      } else if (err?.response?.status >= 500) {
-        setError('Server error. Please try again later or contact support.');
-      } else if (err?.code === 'NETWORK_ERROR') {
-        setError('Network error. Please check your connection and try again.');
-      } else {
-        setError(
-          err?.message || 'Failed to process transcript. Please try again.'
-        );
-      }
-      setJobStatus('failed');
-    } finally {
-      setLoading(false);
-    }
+  const handleDragLeave = () => {
+    setIsDragging(false);
   };
 
-  /**
-   * Clears all state
-   */
-  const handleClear = () => {
-    setSelectedFile(null);
-    setJobId(null);
-    setJobStatus('idle');
-    setResponse(null);
-    setError('');
-    setLoading(false);
-    // Reset file input
-    const fileInput = document.getElementById('file-input') as HTMLInputElement;
-    if (fileInput) {
-      fileInput.value = '';
-    }
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    uploadQueue.addFiles(Array.from(event.dataTransfer.files));
   };
 
   // ────────────────────────────────────────
-  // Error Handling Functions
+  // Queue Handlers
   // ────────────────────────────────────────
 
   /**
-   * Maps error codes to user-friendly error messages
-   * @param errorCode - The error code from the API
-   * @param defaultMessage - Default message if code is not recognized
-   * @returns User-friendly error message
+   * Submits every pending file; the queue limits how many upload at once
    */
-  const getErrorMessage = (
-    errorCode?: string,
-    defaultMessage?: string
-  ): string => {
-    if (!errorCode) {
-      return defaultMessage || 'Job processing failed';
-    }
+  const handleSubmit = () => {
+    uploadQueue.submitPending();
+  };
 
-    switch (errorCode) {
-      case 'FILE_TOO_LARGE':
-        return 'The uploaded file is too large. Please use a smaller file (max 10MB).';
-      case 'INVALID_FILE_TYPE':
-        return 'The uploaded file type is not supported. Please use PDF, JPG, JPEG, or PNG files.';
-      case 'PROCESSING_TIMEOUT':
-        return 'Processing timed out. Please try again with a smaller file or contact support.';
-      case 'SERVER_ERROR':
-        return 'Server error occurred. Please try again later or contact support.';
-      case 'INSUFFICIENT_QUOTA':
-        return 'Processing quota exceeded. Please try again later or upgrade your plan.';
-      case 'FILE_CORRUPTED':
-        return 'The uploaded file appears to be corrupted. Please try a different file.';
-      case 'UNSUPPORTED_LANGUAGE':
-        return 'The document language is not supported. Please use English documents.';
-      default:
-        return (
-          defaultMessage || 'An unexpected error occurred. Please try again.'
-        );
+  const handleRemove = (id: string) => {
+    if (id === selectedItemId) {
+      setSelectedItemId(null);
     }
+    uploadQueue.removeItem(id);
   };
 
-  // ────────────────────────────────────────
-  // Detailed Results Handler
-  // ────────────────────────────────────────
-
-  // ────────────────────────────────────────
-  // Cleanup Effect
-  // ────────────────────────────────────────
-
-  useEffect(() => {
-    // Cleanup function to stop polling when component unmounts
-    return () => {
-      // No polling to stop, but keep the effect for now
-    };
-  }, []);
-
-  // ────────────────────────────────────────
-  // Progress Indicators
-  // ────────────────────────────────────────
-
   /**
-   * Renders the progress indicator with status message
-   * @returns Progress indicator component
+   * Clears the queue and the displayed results
    */
-  const renderProgressIndicator = () => {
-    if (jobStatus === 'idle') return null;
-
-    const getStatusMessage = () => {
-      switch (jobStatus) {
-        case 'processing':
-          return 'Processing transcript... This may take a few minutes.';
-        case 'completed':
-          return 'Analysis completed successfully!';
-        case 'failed':
-          return 'Processing failed. Please try again.';
-        default:
-          return '';
-      }
-    };
-
-    return (
-      <Card sx={{ mt: 2, mb: 2 }}>
-        <CardContent>
-          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
-            <Typography variant="h6" sx={{ flexGrow: 1 }}>
-              Processing Status
-            </Typography>
-            {jobStatus === 'processing' && (
-              <CircularProgress size={20} sx={{ ml: 1 }} />
-            )}
-          </Box>
-
-          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-            {getStatusMessage()}
-          </Typography>
-
-          {jobId && (
-            <Box sx={{ mt: 2, p: 1, bgcolor: 'grey.50', borderRadius: 1 }}>
-              <Typography variant="caption" color="text.secondary">
-                Job ID: {jobId}
-              </Typography>
-            </Box>
-          )}
-
-          {/* Retry button for failed jobs */}
-          {jobStatus === 'failed' && (
-            <Box sx={{ mt: 2 }}>
-              <Button
-                variant="outlined"
-                size="small"
-                onClick={() => {
-                  setError('');
-                  setJobStatus('processing');
-                  if (selectedFile) {
-                    handleSubmit();
-                  }
-                }}
-                data-testid={TestIds.transcripts.retryButton}
-              >
-                Retry Processing
-              </Button>
-            </Box>
-          )}
-        </CardContent>
-      </Card>
-    );
+  const handleClear = () => {
+    uploadQueue.clearQueue();
+    setSelectedItemId(null);
   };
 
   // ────────────────────────────────────────
-  // Dynamic Data Rendering Functions
+  // Analysis Rendering Functions
   // ────────────────────────────────────────
 
-  const renderDynamicTable = (data: any, title: string, testId: string) => {
-    if (!data || typeof data !== 'object') return null;
-
-    const entries = Object.entries(data).filter(([key, value]) => {
-      // Skip internal fields like _confidence
-      if (key.startsWith('_')) return false;
-      // Skip null/undefined values
-      if (value === null || value === undefined) return false;
-      return true;
-    });
-
-    if (entries.length === 0) return null;
-
-    return (
-      <Box sx={{ mb: 2 }}>
-        <Typography variant="subtitle2" gutterBottom>
-          {title}
-        </Typography>
-        <TableContainer
-          component={Paper}
-          variant="outlined"
-          data-testid={testId}
-        >
-          <Table size="small">
-            <TableBody>
-              {entries.map(([key, value]) => (
-                <TableRow key={key}>
-                  <TableCell>
-                    <strong>{formatFieldName(key)}</strong>
-                  </TableCell>
-                  <TableCell>{renderValue(value)}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
-      </Box>
-    );
-  };
-
-  const formatFieldName = (fieldName: string): string => {
-    // Convert camelCase or snake_case to readable format
-    return fieldName
-      .replace(/([A-Z])/g, ' $1') // Add space before capital letters
-      .replace(/_/g, ' ') // Replace underscores with spaces
-      .replace(/^./, str => str.toUpperCase()) // Capitalize first letter
-      .trim();
-  };
-
-  const renderValue = (value: any): React.ReactNode => {
-    if (value === null || value === undefined) {
-      return 'N/A';
-    }
-
-    if (typeof value === 'string') {
-      return value;
-    }
-
-    if (typeof value === 'number') {
-      return value.toString();
-    }
-
-    if (typeof value === 'boolean') {
-      return value ? 'Yes' : 'No';
-    }
-
-    if (Array.isArray(value)) {
-      if (value.length === 0) return 'None';
-
-      // If array contains objects, render as a list
-      if (typeof value[0] === 'object' && value[0] !== null) {
-        return (
-          <Box>
-            {value.map((item, index) => (
-              <Box
-                key={index}
-                sx={{ mb: 1, p: 1, bgcolor: 'grey.50', borderRadius: 1 }}
-              >
-                {renderObjectValue(item)}
-              </Box>
-            ))}
-          </Box>
-        );
-      }
-
-      // Simple array
-      return value.join(', ');
-    }
-
-    if (typeof value === 'object') {
-      return renderObjectValue(value);
-    }
-
-    return String(value);
-  };
-
-  const renderObjectValue = (obj: any): React.ReactNode => {
-    const entries = Object.entries(obj).filter(([key, value]) => {
-      if (key.startsWith('_')) return false;
-      if (value === null || value === undefined) return false;
-      return true;
-    });
-
-    if (entries.length === 0) return 'N/A';
-
-    return (
-      <Box>
-        {entries.map(([key, value]) => (
-          <Box key={key} sx={{ mb: 0.5 }}>
-            <Typography variant="caption" color="text.secondary">
-              {formatFieldName(key)}:
-            </Typography>
-            <Typography variant="body2">{renderValue(value)}</Typography>
-          </Box>
-        ))}
-      </Box>
-    );
-  };
-
-  const renderDynamicAnalysis = (
-    analysisData: any,
-    passType: 'first' | 'final'
-  ) => {
-    if (!analysisData || typeof analysisData !== 'object') return null;
-
-    const sections = Object.entries(analysisData).filter(([key, value]) => {
-      if (key.startsWith('_')) return false;
-      if (value === null || value === undefined) return false;
-      if (typeof value === 'object' && Object.keys(value).length === 0)
-        return false;
-      return true;
-    });
-
-    if (sections.length === 0) return null;
-
-    return (
-      <Card
-        data-testid={
-          TestIds.transcripts.analysisResults[`${passType}PassContainer`]
-        }
-      >
-        <CardContent>
-          <Typography
-            variant="h6"
-            gutterBottom
-            color={passType === 'first' ? 'primary' : 'success.main'}
-          >
-            {passType === 'first' ? 'First' : 'Final'} Pass Analysis
-          </Typography>
-          <Divider sx={{ mb: 2 }} />
-
-          {sections.map(([sectionKey, sectionData]) => (
-            <Box key={sectionKey}>
-              {renderDynamicTable(
-                sectionData,
-                formatFieldName(sectionKey),
-                TestIds.transcripts.analysisResults.dynamicTable(
-                  passType,
-                  sectionKey
-                )
-              )}
-            </Box>
-          ))}
-        </CardContent>
-      </Card>
-    );
-  };
-
   const renderAnalysisResults = () => {
     if (!response?.data) return null;
 
     const { first_pass, final_pass } = response.data.analysis_results;
+    const job = selectedItem?.job;
+    const document = job?.documents?.[0];
 
     return (
       <Box
         sx={{ mt: 3 }}
         data-testid={TestIds.transcripts.analysisResults.container}
       >
-        <Typography variant="h5" gutterBottom>
-          Analysis Results
-        </Typography>
-
-        <Grid container spacing={3}>
-          {/* First Pass */}
-          <Grid item xs={12} md={6}>
-            {renderDynamicAnalysis(first_pass, 'first')}
-          </Grid>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 1,
+          }}
+        >
+          <Typography variant="h5">Analysis Results</Typography>
+          {job && selectedItem && (
+            <TranscriptExportMenu
+              jobId={job.id}
+              job={job}
+              fileMeta={getItemFileMeta(selectedItem)}
+            />
+          )}
+        </Box>
+
+        <Tabs
+          value={resultsView}
+          onChange={(_, value: ResultsView) => setResultsView(value)}
+          sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}
+        >
+          <Tab
+            label="Side by Side"
+            value="sideBySide"
+            data-testid={TestIds.transcripts.analysisResults.sideBySideTab}
+          />
+          <Tab
+            label="Changes"
+            value="changes"
+            data-testid={TestIds.transcripts.analysisResults.changesTab}
+          />
+          <Tab
+            label="Review"
+            value="review"
+            data-testid={TestIds.transcripts.analysisResults.reviewTab}
+          />
+        </Tabs>
+
+        {resultsView === 'changes' && (
+          <AnalysisDiffView firstPass={first_pass} finalPass={final_pass} />
+        )}
+
+        {resultsView === 'review' && job && document && (
+          <>
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+              <JobApprovalButton job={job} />
+            </Box>
+            <TranscriptReviewPanel jobId={job.id} document={document} />
+          </>
+        )}
+
+        {resultsView === 'sideBySide' && (
+          <Grid container spacing={3}>
+            {/* First Pass */}
+            <Grid item xs={12} md={6}>
+              <DynamicAnalysisView
+                analysisData={first_pass}
+                passType="first"
+                testId={TestIds.transcripts.analysisResults.firstPassContainer}
+                sectionTestId={sectionKey =>
+                  TestIds.transcripts.analysisResults.dynamicTable(
+                    'first',
+                    sectionKey
+                  )
+                }
+              />
+            </Grid>
 
-          {/* Final Pass */}
-          <Grid item xs={12} md={6}>
-            {renderDynamicAnalysis(final_pass, 'final')}
+            {/* Final Pass */}
+            <Grid item xs={12} md={6}>
+              <DynamicAnalysisView
+                analysisData={final_pass}
+                passType="final"
+                testId={TestIds.transcripts.analysisResults.finalPassContainer}
+                sectionTestId={sectionKey =>
+                  TestIds.transcripts.analysisResults.dynamicTable(
+                    'final',
+                    sectionKey
+                  )
+                }
+              />
+            </Grid>
           </Grid>
-        </Grid>
+        )}
       </Box>
     );
   };
@@ -685,28 +428,36 @@ const Transcripts: React.FC = () => {
   // Render Functions
   // ────────────────────────────────────────
 
-  const renderFileInfo = () => {
-    if (!selectedFile) return null;
-
-    return (
-      <Box sx={{ mt: 2, p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
-        <Typography variant="subtitle2" gutterBottom>
-          Selected File:
-        </Typography>
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-          <Chip label={selectedFile.name} color="primary" variant="outlined" />
-          <Typography variant="body2" color="text.secondary">
-            ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
-          </Typography>
-        </Box>
-      </Box>
-    );
-  };
-
   const renderProcessingInfo = () => {
     if (!response?.data) return null;
 
     const { file_info, processing_metadata } = response.data;
+    const testIds = TestIds.transcripts.processingInfo;
+
+    // Only scores the service reported are shown
+    const qualityScores = [
+      {
+        label: 'First Pass Confidence',
+        score: processing_metadata.first_pass_confidence,
+        testId: testIds.firstPassConfidence,
+      },
+      {
+        label: 'Final Pass Confidence',
+        score: processing_metadata.final_pass_confidence,
+        testId: testIds.finalPassConfidence,
+      },
+      {
+        label: 'Extraction Quality',
+        score: processing_metadata.extraction_quality_score,
+        testId: testIds.extractionQuality,
+      },
+    ].filter(
+      (entry): entry is typeof entry & { score: number } => entry.score !== null
+    );
+    const { final_pass } = response.data.analysis_results;
+    const lowConfidenceCount = flattenExtractionFields(final_pass).filter(
+      field => isLowConfidence(getFieldConfidence(final_pass, field.path))
+    ).length;
 
     return (
       <Card
@@ -725,7 +476,7 @@ const Transcripts: React.FC = () => {
               <Typography
                 variant="body2"
                 gutterBottom
-                data-testid={TestIds.transcripts.processingInfo.jobId}
+                data-testid={testIds.jobId}
               >
                 {response.data.job_id}
               </Typography>
@@ -736,39 +487,57 @@ const Transcripts: React.FC = () => {
               <Typography
                 variant="body2"
                 gutterBottom
-                data-testid={TestIds.transcripts.processingInfo.processingTime}
+                data-testid={testIds.processingTime}
               >
                 {file_info.total_processing_time_seconds} seconds
               </Typography>
             </Grid>
-            <Grid item xs={12} sm={6}>
-              <Typography variant="subtitle2" color="text.secondary">
-                First Pass Confidence
-              </Typography>
-              <Typography
-                variant="body2"
-                gutterBottom
-                data-testid={
-                  TestIds.transcripts.processingInfo.firstPassConfidence
-                }
-              >
-                {(processing_metadata.first_pass_confidence * 100).toFixed(1)}%
-              </Typography>
-
-              <Typography variant="subtitle2" color="text.secondary">
-                Final Pass Confidence
-              </Typography>
-              <Typography
-                variant="body2"
-                gutterBottom
-                data-testid={
-                  TestIds.transcripts.processingInfo.finalPassConfidence
-                }
-              >
-                {(processing_metadata.final_pass_confidence * 100).toFixed(1)}%
-              </Typography>
-            </Grid>
+            {qualityScores.length > 0 && (
+              <Grid item xs={12} sm={6}>
+                {qualityScores.map(({ label, score, testId }) => (
+                  <React.Fragment key={label}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      {label}
+                    </Typography>
+                    <Typography
+                      variant="body2"
+                      gutterBottom
+                      data-testid={testId}
+                    >
+                      {formatConfidence(score)}
+                    </Typography>
+                  </React.Fragment>
+                ))}
+              </Grid>
+            )}
           </Grid>
+
+          {lowConfidenceCount > 0 && (
+            <Alert
+              severity="warning"
+              sx={{ mt: 2 }}
+              data-testid={testIds.lowConfidence}
+            >
+              {lowConfidenceCount} field{lowConfidenceCount === 1 ? '' : 's'}{' '}
+              below {formatConfidence(LOW_CONFIDENCE_THRESHOLD)} confidence.
+              They are listed first in the Review tab.
+            </Alert>
+          )}
+
+          {processing_metadata.processing_warnings.length > 0 && (
+            <Alert
+              severity="info"
+              sx={{ mt: 2 }}
+              data-testid={testIds.warnings}
+            >
+              <AlertTitle>Processing Warnings</AlertTitle>
+              {processing_metadata.processing_warnings.map(warning => (
+                <Typography key={warning} variant="body2">
+                  {warning}
+                </Typography>
+              ))}
+            </Alert>
+          )}
         </CardContent>
       </Card>
     );
@@ -781,32 +550,40 @@ const Transcripts: React.FC = () => {
       </Typography>
 
       <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
-        Upload PDF, JPG, JPEG, or PNG files to analyze transcripts with
-        AI-powered two-pass processing.
+        Upload one or more PDF, JPG, JPEG, or PNG files to analyze transcripts
+        with AI-powered two-pass processing.
       </Typography>
 
-      {error && (
-        <Alert
-          severity="error"
-          sx={{ mb: 2 }}
-          data-testid={TestIds.common.errorAlert}
-        >
-          {error}
-        </Alert>
-      )}
-
       <Card>
         <CardContent>
           <Typography variant="h6" gutterBottom>
-            Upload Document
+            Upload Documents
           </Typography>
 
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-            {/* File Upload */}
-            <Box>
+            {/* Drop Zone */}
+            <Box
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              sx={{
+                p: 3,
+                textAlign: 'center',
+                border: '2px dashed',
+                borderColor: isDragging ? 'primary.main' : 'grey.400',
+                borderRadius: 2,
+                bgcolor: isDragging ? 'action.hover' : 'transparent',
+              }}
+              data-testid={TestIds.transcripts.dropZone}
+            >
+              <CloudUploadIcon color="action" sx={{ fontSize: 40 }} />
+              <Typography variant="body1" sx={{ mb: 1 }}>
+                Drag and drop transcripts here, or
+              </Typography>
               <input
                 id="file-input"
                 type="file"
+                multiple
                 accept=".pdf,.jpg,.jpeg,.png"
                 onChange={handleFileSelect}
                 style={{ display: 'none' }}
@@ -828,37 +605,37 @@ const Transcripts: React.FC = () => {
                 display="block"
                 color="text.secondary"
               >
-                Supported formats: PDF, (Max size: 10MB)
+                Supported formats: PDF, JPG, JPEG, PNG (Max size: 10MB per file)
               </Typography>
             </Box>
 
-            {/* File Info */}
-            {renderFileInfo()}
+            {/* Upload Queue */}
+            <TranscriptUploadQueue
+              items={items}
+              selectedItemId={selectedItemId}
+              onView={setSelectedItemId}
+              onRetry={uploadQueue.retryItem}
+              onCancel={uploadQueue.cancelItem}
+              onRemove={handleRemove}
+            />
 
             {/* Action Buttons */}
-            <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+            <Box sx={{ display: 'flex', gap: 2 }}>
               <Button
                 variant="contained"
                 onClick={handleSubmit}
-                disabled={
-                  !selectedFile || loading || jobStatus === 'processing'
-                }
+                disabled={pendingCount === 0}
                 data-testid={TestIds.transcripts.submitButton}
               >
-                {loading ? (
-                  <>
-                    <CircularProgress size={20} sx={{ mr: 1 }} />
-                    Analyzing...
-                  </>
-                ) : (
-                  'Analyze Transcript'
-                )}
+                {pendingCount > 1
+                  ? `Analyze ${pendingCount} Transcripts`
+                  : 'Analyze Transcript'}
               </Button>
 
               <Button
                 variant="outlined"
                 onClick={handleClear}
-                disabled={!selectedFile && !response}
+                disabled={items.length === 0}
                 data-testid={TestIds.transcripts.clearButton}
               >
                 Clear
@@ -868,9 +645,6 @@ const Transcripts: React.FC = () => {
         </CardContent>
       </Card>
 
-      {/* Progress Indicator */}
-      {renderProgressIndicator()}
-
       {/* Processing Information */}
       {renderProcessingInfo()}
 
@@ -4,7 +4,7 @@
  * Description: Users management page for TondroAI CRM
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 10-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -37,12 +37,14 @@ import {
   IconButton,
   Chip,
   TablePagination,
+  Menu,
+  Tooltip,
 } from '@mui/material';
 import {
   Visibility as VisibilityIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
-  VisibilityOff as VisibilityOffIcon,
+  ManageAccounts as ManageAccountsIcon,
 } from '@mui/icons-material';
 import { apiHelpers } from '../services/api';
 import {
@@ -51,6 +53,7 @@ import {
   type CreateUserRequest,
   type UpdateUserRequest,
   type Domain,
+  type UserStatus,
 } from '../types';
 import { getStatusBackgroundColor } from '../theme';
 import { TestIds } from '../testIds';
@@ -59,81 +62,39 @@ import { useAuth } from '../contexts/AuthContext';
 import { PERMISSIONS } from '../config/roles';
 import { debounce } from 'lodash';
 import OrganizationsDropdown from './common/OrganizationsDropdown';
-import { useEntityState, usePagination, useEntityData } from '../hooks';
+import CreateUserDialog from './common/CreateUserDialog';
+import ConfirmUserChangeDialog from './common/ConfirmUserChangeDialog';
+import {
+  useEntityState,
+  usePagination,
+  useEntityData,
+  useEntityDeepLink,
+} from '../hooks';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
 import { useAlert } from '@/contexts/AlertContext';
-
-// ────────────────────────────────────────
-// Helper Functions
-// ────────────────────────────────────────
-
-const getRoleColor = (
-  role: string
-): 'error' | 'warning' | 'info' | 'default' => {
-  // Handle both backend format and display format
-  const normalizedRole = role.toLowerCase().replace('_', ' ');
-
-  switch (normalizedRole) {
-    case 'global admin':
-      return 'error';
-    case 'tenant admin':
-      return 'warning';
-    default:
-      return 'default';
-  }
-};
-
-const getRoleDisplayName = (role: string): string => {
-  switch (role) {
-    case 'global_admin':
-      return 'Global Admin';
-    case 'tenant_admin':
-      return 'Tenant Admin';
-    default:
-      return role.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
-  }
-};
-
-const getDomainName = (
-  user: User,
-  domains: Record<string, Domain[]>
-): string => {
-  // Flatten all domains from all organizations to search for user's assigned domain
-  const allDomains = Object.values(domains).flat();
-
-  // Find the domain assigned to this specific user
-  const userDomain = allDomains.find(domain => domain.user_id === user.id);
-
-  if (userDomain) {
-    return userDomain.domain_name || 'Unknown';
-  }
-
-  // Fallback: if no direct assignment, show primary domain for their organization
-  const orgId = user.organization_id;
-  const orgDomains = domains[orgId] || [];
-
-  const primaryDomain = orgDomains.find(d => d.is_primary);
-  if (primaryDomain) {
-    return primaryDomain.domain_name || 'Unknown';
-  }
-
-  // Final fallback: first available domain for organization
-  if (orgDomains.length > 0) {
-    return orgDomains[0]?.domain_name || 'Unknown';
-  }
-
-  return 'N/A';
-};
-
-// Get available roles that match the expected role values
-const availableRoles = ['global_admin', 'tenant_admin'];
+import {
+  getRoleColor,
+  getRoleDisplayName,
+  getDomainName,
+  USER_ROLES,
+  USER_STATUS_ACTIONS,
+  applyUserChange,
+  getSelfChangeBlockReason,
+  type UserChange,
+} from '../utils/userFormatters';
+import { createUserWithDomain } from '../utils/createUserWithDomain';
 
 // ────────────────────────────────────────
 // Main Component
 // ────────────────────────────────────────
 
+interface PendingUserChange {
+  user: User;
+  change: UserChange;
+}
+
 const Users: React.FC = () => {
-  const { hasPermission } = useAuth();
+  const { hasPermission, user: currentUser } = useAuth();
   const {
     entityState,
     setEntityState,
@@ -168,8 +129,25 @@ const Users: React.FC = () => {
   const [organizations, setOrganizations] = useState<OrganizationV2[]>([]);
   const [domains, setDomains] = useState<Record<string, Domain[]>>({});
   const initialLoadRef = useRef<boolean>(false);
+  const [pendingChange, setPendingChange] = useState<PendingUserChange | null>(
+    null
+  );
+  const [updatingUserId, setUpdatingUserId] = useState<number | null>(null);
   const { showAlert } = useAlert();
 
+  // Open the details dialog when linked from another page (e.g. audit log)
+  const { clearDeepLink } = useEntityDeepLink<User>({
+    entityLabel: 'User',
+    loadEntity: async (id, signal) => {
+      const response = await apiHelpers.getUser(Number(id), signal);
+      return response.data;
+    },
+    onLoad: user => {
+      setSelectedUser(user);
+      setEditMode(false);
+    },
+  });
+
   const { refetch } = useEntityData(
     entityState,
     setEntityState,
@@ -272,36 +250,7 @@ const Users: React.FC = () => {
     formData: CreateUserRequest
   ): Promise<void> => {
     try {
-      // Step 1: Create user without domain_id
-      const userData = {
-        organization_id: formData.organization_id,
-        email: formData.email,
-        first_name: formData.first_name,
-        last_name: formData.last_name,
-        role: formData.role,
-        password: formData.password,
-      };
-
-      const userResponse = await apiHelpers.createUser(userData as any);
-      const newUserId = userResponse.data.id;
-
-      // Step 2: Update the selected domain with the new user_id
-      if (formData.domain_id) {
-        try {
-          await apiHelpers.updateDomain(String(formData.domain_id), {
-            user_id: newUserId,
-          });
-        } catch (domainError) {
-          console.error('Failed to assign domain to user:', domainError);
-          // Optionally delete the user if domain assignment fails
-          // await apiHelpers.deleteUser(newUserId);
-          throw new Error('User created but domain assignment failed');
-        }
-      }
-
-      if (formData.password) {
-        navigator.clipboard.writeText(formData.password);
-      }
+      await createUserWithDomain(formData);
 
       showAlert('User created and password copied to clipboard!');
       setCreateDialogOpen(false);
@@ -332,6 +281,56 @@ const Users: React.FC = () => {
     }
   };
 
+  const replaceUserRow = (updatedUser: User): void => {
+    setEntityState(prev => ({
+      ...prev,
+      data: prev.data.map(user =>
+        user.id === updatedUser.id ? updatedUser : user
+      ),
+    }));
+  };
+
+  const sendUserChange = async (
+    user: User,
+    change: UserChange
+  ): Promise<User> => {
+    const response =
+      change.type === 'role'
+        ? await apiHelpers.updateUserRole(user.id, change.value)
+        : await apiHelpers.updateUserStatus(user.id, change.value);
+    return applyUserChange({ ...user, ...response.data }, change);
+  };
+
+  const handleRequestUserChange = (user: User, change: UserChange): void => {
+    const blockReason = getSelfChangeBlockReason(currentUser, user, change);
+    if (blockReason) {
+      showAlert(blockReason, 'warning');
+      return;
+    }
+    setPendingChange({ user, change });
+  };
+
+  const handleConfirmUserChange = async (): Promise<void> => {
+    if (!pendingChange) return;
+
+    const { user, change } = pendingChange;
+    setPendingChange(null);
+    setUpdatingUserId(user.id);
+
+    // Update the row optimistically and roll back if the request fails
+    replaceUserRow(applyUserChange(user, change));
+    try {
+      const updatedUser = await sendUserChange(user, change);
+      replaceUserRow(updatedUser);
+      showAlert(`User ${change.type} updated successfully`);
+    } catch (error) {
+      replaceUserRow(user);
+      showAlert(getApiErrorMessage(error, 'Failed to update user'), 'error');
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
   const handleFilterChange = (field: string, value: string | number): void => {
     setFilters(prev => ({
       ...prev,
@@ -357,6 +356,30 @@ const Users: React.FC = () => {
   ): Promise<void> => {
     if (!selectedUser) return;
 
+    // Role and status have dedicated endpoints, so they are not sent in the PATCH
+    const changes: UserChange[] = [];
+    if (formData.role !== undefined && formData.role !== selectedUser.role) {
+      changes.push({ type: 'role', value: formData.role });
+    }
+    if (
+      formData.status !== undefined &&
+      formData.status !== selectedUser.status
+    ) {
+      changes.push({ type: 'status', value: formData.status });
+    }
+
+    for (const change of changes) {
+      const blockReason = getSelfChangeBlockReason(
+        currentUser,
+        selectedUser,
+        change
+      );
+      if (blockReason) {
+        showAlert(blockReason, 'warning');
+        return;
+      }
+    }
+
     try {
       // Step 1: Update user without domain_id - only include fields that have values
       const userData: UpdateUserRequest = {};
@@ -373,15 +396,13 @@ const Users: React.FC = () => {
       if (formData.last_name !== undefined) {
         userData.last_name = formData.last_name;
       }
-      if (formData.role !== undefined) {
-        userData.role = formData.role;
-      }
-      if (formData.status !== undefined) {
-        userData.status = formData.status;
-      }
 
       await apiHelpers.updateUser(selectedUser.id, userData);
 
+      for (const change of changes) {
+        await sendUserChange(selectedUser, change);
+      }
+
       // Step 2: Handle domain assignment if domain selection changed
       // Find the current domain assigned to this user
       //const allDomains = Object.values(domains).flat();
@@ -394,6 +415,7 @@ const Users: React.FC = () => {
       showAlert('User updated successfully');
       setSelectedUser(null);
       setEditMode(false);
+      clearDeepLink();
       fetchUsers();
       fetchDomains(); // Refresh domains to show updated user assignments
     } catch (error: any) {
@@ -420,7 +442,7 @@ const Users: React.FC = () => {
       <FilterSection
         filters={filters}
         organizations={organizations}
-        userRoles={availableRoles}
+        userRoles={USER_ROLES}
         handleFilterChange={handleFilterChange}
         handleClearFilters={handleClearFilters}
       />
@@ -435,6 +457,8 @@ const Users: React.FC = () => {
         handlePageChange={paginationHandlers.handlePageChange}
         handlePageSizeChange={paginationHandlers.handlePageSizeChange}
         handleDeleteUser={handleDeleteUser}
+        onRequestUserChange={handleRequestUserChange}
+        updatingUserId={updatingUserId}
         setSelectedUser={setSelectedUser}
         setCreateDialogOpen={setCreateDialogOpen}
         setEditMode={setEditMode}
@@ -459,6 +483,7 @@ const Users: React.FC = () => {
               onClose={() => {
                 setSelectedUser(null);
                 setEditMode(false);
+                clearDeepLink();
               }}
               onUpdate={fetchUsers}
               organizations={organizations}
@@ -473,15 +498,25 @@ const Users: React.FC = () => {
               onClose={() => {
                 setSelectedUser(null);
                 setEditMode(false);
+                clearDeepLink();
               }}
               onSubmit={handleUpdateUser}
               organizations={organizations}
               domains={domains}
-              userRoles={availableRoles}
+              userRoles={USER_ROLES}
             />
           )}
         </>
       )}
+
+      {pendingChange && (
+        <ConfirmUserChangeDialog
+          user={pendingChange.user}
+          change={pendingChange.change}
+          onClose={() => setPendingChange(null)}
+          onConfirm={handleConfirmUserChange}
+        />
+      )}
     </Box>
   );
 };
@@ -616,6 +651,12 @@ const FilterSection: React.FC<FilterSectionProps> = ({
                 >
                   Inactive
                 </MenuItem>
+                <MenuItem
+                  value="suspended"
+                  data-testid={TestIds.filterForm.statusOption('suspended')}
+                >
+                  Suspended
+                </MenuItem>
                 <MenuItem
                   value="invited"
                   data-testid={TestIds.filterForm.statusOption('invited')}
@@ -666,6 +707,8 @@ interface UsersTableProps {
     event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => void;
   handleDeleteUser: (id: number) => void;
+  onRequestUserChange: (user: User, change: UserChange) => void;
+  updatingUserId: number | null;
   setSelectedUser: (user: User) => void;
   setCreateDialogOpen: (open: boolean) => void;
   setEditMode: (edit: boolean) => void;
@@ -684,11 +727,19 @@ const UsersTable: React.FC<UsersTableProps> = ({
   handlePageChange,
   handlePageSizeChange,
   handleDeleteUser,
+  onRequestUserChange,
+  updatingUserId,
   setSelectedUser,
   setCreateDialogOpen,
   setEditMode,
   hasPermission,
 }) => {
+  const [statusMenu, setStatusMenu] = useState<{
+    anchorEl: HTMLElement;
+    user: User;
+  } | null>(null);
+  const canUpdate = hasPermission(PERMISSIONS.USER_UPDATE);
+
   return (
     <Card data-testid={TestIds.users.table}>
       <CardContent>
@@ -761,11 +812,34 @@ const UsersTable: React.FC<UsersTableProps> = ({
                       </TableCell>
                       <TableCell>{getDomainName(user, domains)}</TableCell>
                       <TableCell>
-                        <Chip
-                          label={getRoleDisplayName(user.role)}
-                          color={getRoleColor(user.role)}
-                          size="small"
-                        />
+                        {canUpdate ? (
+                          <Select
+                            size="small"
+                            variant="standard"
+                            value={user.role}
+                            disabled={updatingUserId === user.id}
+                            onChange={e =>
+                              e.target.value !== user.role &&
+                              onRequestUserChange(user, {
+                                type: 'role',
+                                value: e.target.value as User['role'],
+                              })
+                            }
+                            data-testid={TestIds.users.updateRole(user.id)}
+                          >
+                            {USER_ROLES.map(role => (
+                              <MenuItem key={role} value={role}>
+                                {getRoleDisplayName(role)}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        ) : (
+                          <Chip
+                            label={getRoleDisplayName(user.role)}
+                            color={getRoleColor(user.role)}
+                            size="small"
+                          />
+                        )}
                       </TableCell>
                       <TableCell>
                         <Chip
@@ -806,6 +880,27 @@ const UsersTable: React.FC<UsersTableProps> = ({
                               <EditIcon />
                             </IconButton>
                           )}
+                          {canUpdate && (
+                            <Tooltip title="Change status">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  disabled={updatingUserId === user.id}
+                                  onClick={e =>
+                                    setStatusMenu({
+                                      anchorEl: e.currentTarget,
+                                      user,
+                                    })
+                                  }
+                                  data-testid={TestIds.users.updateStatus(
+                                    user.id
+                                  )}
+                                >
+                                  <ManageAccountsIcon />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          )}
                           {hasPermission(PERMISSIONS.USER_DELETE) && (
                             <IconButton
                               size="small"
@@ -824,6 +919,34 @@ const UsersTable: React.FC<UsersTableProps> = ({
               </Table>
             </TableContainer>
 
+            <Menu
+              anchorEl={statusMenu?.anchorEl ?? null}
+              open={Boolean(statusMenu)}
+              onClose={() => setStatusMenu(null)}
+            >
+              {statusMenu &&
+                USER_STATUS_ACTIONS.filter(
+                  action => action.status !== statusMenu.user.status
+                ).map(action => (
+                  <MenuItem
+                    key={action.status}
+                    onClick={() => {
+                      onRequestUserChange(statusMenu.user, {
+                        type: 'status',
+                        value: action.status,
+                      });
+                      setStatusMenu(null);
+                    }}
+                    data-testid={TestIds.users.statusAction(
+                      statusMenu.user.id,
+                      action.status
+                    )}
+                  >
+                    {action.label}
+                  </MenuItem>
+                ))}
+            </Menu>
+
             <TablePagination
               component="div"
               count={pagination.total}
@@ -841,447 +964,6 @@ const UsersTable: React.FC<UsersTableProps> = ({
   );
 };
 
-// ────────────────────────────────────────
-// Create User Dialog Component
-// ────────────────────────────────────────
-
-interface CreateUserDialogProps {
-  open: boolean;
-  onClose: () => void;
-  onSubmit: (data: CreateUserRequest) => Promise<void>;
-  organizations: OrganizationV2[];
-  domains: Record<string, Domain[]>; // Add this prop
-}
-
-const CreateUserDialog: React.FC<CreateUserDialogProps> = ({
-  open,
-  onClose,
-  onSubmit,
-  organizations,
-  domains, // Add this prop
-}) => {
-  const [formData, setFormData] = useState<CreateUserRequest>({
-    organization_id: 0,
-    domain_id: 0,
-    email: '',
-    first_name: '',
-    last_name: '',
-    role: 'tenant_admin',
-    password: '',
-  });
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [showPassword, setShowPassword] = useState(false);
-  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [availableDomains, setAvailableDomains] = useState<Domain[]>([]); // Rename to match EditUserDialog
-  const [domainsLoading] = useState<boolean>(false);
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  // Update available domains when organization changes - use pre-fetched data
-  useEffect(() => {
-    if (formData.organization_id) {
-      const orgDomains = domains[formData.organization_id] || [];
-      setAvailableDomains(orgDomains);
-
-      // Only set default domain if no domain is currently selected
-      if (!formData.domain_id) {
-        // Find the primary domain and set it as default
-        const primaryDomain = orgDomains.find(domain => domain.is_primary);
-        if (primaryDomain) {
-          setFormData(prev => ({
-            ...prev,
-            domain_id: Number(primaryDomain.id),
-          }));
-        } else if (orgDomains.length > 0) {
-          // If no primary domain found, select the first domain
-          setFormData(prev => ({
-            ...prev,
-            domain_id: Number(orgDomains[0]?.id || 0),
-          }));
-        } else {
-          // No domains available
-          setFormData(prev => ({ ...prev, domain_id: 0 }));
-        }
-      }
-    } else {
-      setAvailableDomains([]);
-      setFormData(prev => ({ ...prev, domain_id: 0 }));
-    }
-  }, [formData.organization_id, domains]);
-
-  // Remove the fetchDomains function - no longer needed
-
-  const handleSubmit = async (): Promise<void> => {
-    // Clear previous errors
-    setErrors({});
-
-    // Validate required fields
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.organization_id) {
-      newErrors.organization_id = 'Organization is required';
-    }
-
-    if (!formData.domain_id) {
-      newErrors.domain_id = 'Domain is required';
-    }
-
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else {
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(formData.email)) {
-        newErrors.email = 'Please enter a valid email address';
-      }
-    }
-
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else {
-      const passwordRegex =
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
-      if (!passwordRegex.test(formData.password)) {
-        newErrors.password =
-          'Password must be at least 8 characters long and contain at least one uppercase letter, one lowercase letter, one number, and one special character.';
-      }
-    }
-
-    if (formData.password !== confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-    }
-
-    if (Object.keys(newErrors).length > 0) {
-      setErrors(newErrors);
-      return;
-    }
-
-    setLoading(true);
-    try {
-      // Convert data for API - API expects integer organization_id and display name for role
-      const apiData = {
-        organization_id: formData.organization_id,
-        domain_id: formData.domain_id,
-        email: formData.email,
-        first_name: formData.first_name,
-        last_name: formData.last_name,
-        role: formData.role,
-        password: formData.password,
-      };
-
-      await onSubmit(apiData as unknown as CreateUserRequest);
-      setFormData({
-        organization_id: 0,
-        domain_id: 0,
-        email: '',
-        first_name: '',
-        last_name: '',
-        role: 'tenant_admin',
-        password: '',
-      });
-      setConfirmPassword('');
-      setErrors({});
-    } catch (error) {
-      console.error('Error in create dialog:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleClose = () => {
-    setFormData({
-      organization_id: 0,
-      domain_id: 0,
-      email: '',
-      first_name: '',
-      last_name: '',
-      role: 'tenant_admin',
-      password: '',
-    });
-    setConfirmPassword('');
-    setErrors({});
-    setAvailableDomains([]); // Clear available domains on close
-    onClose();
-  };
-
-  return (
-    <Dialog
-      open={open}
-      onClose={handleClose}
-      maxWidth="sm"
-      fullWidth
-      data-testid={TestIds.users.createDialog.container}
-    >
-      <DialogTitle data-testid={TestIds.users.createDialog.title}>
-        Create New User
-      </DialogTitle>
-      <DialogContent>
-        <Alert severity="info" sx={{ mt: 2, mb: 1 }}>
-          The password can only be set once. Please save it in a secure
-          location.
-        </Alert>
-        <Box sx={{ pt: 1 }}>
-          <FormControl
-            fullWidth
-            margin="normal"
-            required
-            error={!!errors.organization_id}
-          >
-            <OrganizationsDropdown
-              value={formData.organization_id}
-              onChange={value =>
-                setFormData({ ...formData, organization_id: Number(value) })
-              }
-              label="Organization"
-              required={true}
-              testIdPrefix="users-create-organization"
-              showAllOption={false}
-              organizations={organizations as any}
-              fetchFromApi={false}
-              margin="none"
-            />
-            {errors.organization_id && (
-              <Typography variant="caption" color="error" sx={{ mt: 0.5 }}>
-                {errors.organization_id}
-              </Typography>
-            )}
-          </FormControl>
-
-          <FormControl
-            fullWidth
-            margin="normal"
-            required
-            error={!!errors.domain_id}
-          >
-            <InputLabel>Domain</InputLabel>
-            <Select
-              value={
-                domainsLoading
-                  ? ''
-                  : availableDomains.length > 0
-                    ? String(formData.domain_id || '')
-                    : ''
-              }
-              onChange={e =>
-                setFormData({
-                  ...formData,
-                  domain_id: Number(e.target.value),
-                })
-              }
-              label="Domain"
-              disabled={!formData.organization_id || domainsLoading}
-              data-testid={TestIds.users.createDialog.domain}
-              inputProps={{
-                'aria-label': 'Domain selection',
-              }}
-            >
-              {domainsLoading ? (
-                <MenuItem disabled>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    <CircularProgress size={16} />
-                    Loading domains...
-                  </Box>
-                </MenuItem>
-              ) : availableDomains.length === 0 ? (
-                <MenuItem disabled>No domains available</MenuItem>
-              ) : (
-                availableDomains.map(domain => (
-                  <MenuItem
-                    key={domain.id}
-                    value={domain.id}
-                    data-testid={TestIds.users.createDialog.domainOption(
-                      domain.id
-                    )}
-                  >
-                    {(() => {
-                      let domainName = '';
-                      if (
-                        domain.domain_name &&
-                        typeof domain.domain_name === 'string'
-                      ) {
-                        domainName = domain.domain_name;
-                      } else if (
-                        domain.name &&
-                        typeof domain.name === 'string'
-                      ) {
-                        domainName = domain.name;
-                      }
-                      const cleanDomainName = domainName.trim();
-
-                      return (
-                        <>
-                          {cleanDomainName || 'Unknown Domain'}
-                          {(domain.is_primary && ' (Primary)') || ''}
-                        </>
-                      );
-                    })()}
-                  </MenuItem>
-                ))
-              )}
-            </Select>
-            {errors.domain_id && (
-              <Typography variant="caption" color="error" sx={{ mt: 0.5 }}>
-                {errors.domain_id}
-              </Typography>
-            )}
-          </FormControl>
-
-          <TextField
-            fullWidth
-            margin="normal"
-            label="Email"
-            type="email"
-            value={formData.email}
-            onChange={e => setFormData({ ...formData, email: e.target.value })}
-            required
-            error={!!errors.email}
-            helperText={errors.email}
-            data-testid={TestIds.users.createDialog.email}
-            inputProps={{
-              'data-testid': TestIds.users.createDialog.email,
-              'aria-label': 'User email input',
-            }}
-          />
-
-          <TextField
-            fullWidth
-            margin="normal"
-            label="First Name"
-            value={formData.first_name}
-            onChange={e =>
-              setFormData({ ...formData, first_name: e.target.value })
-            }
-            data-testid={TestIds.users.createDialog.firstName}
-            inputProps={{
-              'data-testid': TestIds.users.createDialog.firstName,
-              'aria-label': 'User first name input',
-            }}
-          />
-
-          <TextField
-            fullWidth
-            margin="normal"
-            label="Last Name"
-            value={formData.last_name}
-            onChange={e =>
-              setFormData({ ...formData, last_name: e.target.value })
-            }
-            data-testid={TestIds.users.createDialog.lastName}
-            inputProps={{
-              'data-testid': TestIds.users.createDialog.lastName,
-              'aria-label': 'User last name input',
-            }}
-          />
-
-          <TextField
-            fullWidth
-            margin="normal"
-            label="Password"
-            type={showPassword ? 'text' : 'password'}
-            value={formData.password}
-            onChange={e =>
-              setFormData({ ...formData, password: e.target.value })
-            }
-            required
-            error={!!errors.password}
-            helperText={errors.password}
-            data-testid={TestIds.users.createDialog.password}
-            InputProps={{
-              endAdornment: (
-                <IconButton
-                  onClick={() => setShowPassword(!showPassword)}
-                  edge="end"
-                >
-                  {showPassword ? <VisibilityOffIcon /> : <VisibilityIcon />}
-                </IconButton>
-              ),
-            }}
-            inputProps={{
-              'data-testid': TestIds.users.createDialog.password,
-              'aria-label': 'User password input',
-            }}
-          />
-
-          <TextField
-            fullWidth
-            margin="normal"
-            label="Confirm Password"
-            type={showConfirmPassword ? 'text' : 'password'}
-            value={confirmPassword}
-            onChange={e => setConfirmPassword(e.target.value)}
-            required
-            error={!!errors.confirmPassword}
-            helperText={errors.confirmPassword}
-            data-testid={TestIds.users.createDialog.confirmPassword}
-            InputProps={{
-              endAdornment: (
-                <IconButton
-                  onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                  edge="end"
-                >
-                  {showConfirmPassword ? (
-                    <VisibilityOffIcon />
-                  ) : (
-                    <VisibilityIcon />
-                  )}
-                </IconButton>
-              ),
-            }}
-            inputProps={{
-              'data-testid': TestIds.users.createDialog.confirmPassword,
-              'aria-label': 'User confirm password input',
-            }}
-          />
-
-          {/* <FormControl fullWidth margin="normal" required>
-            <InputLabel>Role</InputLabel>
-            <Select
-              value={formData.role}
-              onChange={e =>
-                setFormData({
-                  ...formData,
-                  role: e.target.value as 'global_admin' | 'tenant_admin',
-                })
-              }
-              label="Role"
-              data-testid={TestIds.users.createDialog.role}
-              inputProps={{
-                'aria-label': 'Role selection',
-              }}
-            >
-              {availableRoles.map(role => (
-                <MenuItem
-                  key={role}
-                  value={role}
-                  data-testid={TestIds.users.createDialog.roleOption(role)}
-                >
-                  {getRoleDisplayName(role)}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl> */}
-        </Box>
-      </DialogContent>
-      <DialogActions>
-        <Button
-          onClick={handleClose}
-          disabled={loading}
-          data-testid={TestIds.users.createDialog.cancel}
-        >
-          Cancel
-        </Button>
-        <Button
-          onClick={handleSubmit}
-          variant="contained"
-          disabled={loading}
-          data-testid={TestIds.users.createDialog.submit}
-        >
-          {loading ? <CircularProgress size={20} /> : 'Create User'}
-        </Button>
-      </DialogActions>
-    </Dialog>
-  );
-};
-
 // ────────────────────────────────────────
 // View User Dialog Component
 // ────────────────────────────────────────
@@ -1460,7 +1142,7 @@ const EditUserDialog: React.FC<EditUserDialogProps> = ({
     first_name: user.first_name || '',
     last_name: user.last_name || '',
     role: user.role,
-    status: user.status as 'active' | 'inactive' | 'pending' | 'invited',
+    status: user.status,
   });
   const [loading, setLoading] = useState<boolean>(false);
   const [availableDomains, setAvailableDomains] = useState<Domain[]>([]);
@@ -1682,7 +1364,7 @@ const EditUserDialog: React.FC<EditUserDialogProps> = ({
                 'aria-label': 'Role selection',
               }}
             >
-              {availableRoles.map(role => (
+              {USER_ROLES.map(role => (
                 <MenuItem
                   key={role}
                   value={role}
@@ -1701,11 +1383,7 @@ const EditUserDialog: React.FC<EditUserDialogProps> = ({
               onChange={e =>
                 setFormData({
                   ...formData,
-                  status: e.target.value as
-                    | 'active'
-                    | 'inactive'
-                    | 'pending'
-                    | 'invited',
+                  status: e.target.value as UserStatus,
                 })
               }
               label="Status"
@@ -1727,6 +1405,12 @@ const EditUserDialog: React.FC<EditUserDialogProps> = ({
               >
                 Inactive
               </MenuItem>
+              <MenuItem
+                value="suspended"
+                data-testid={TestIds.users.editDialog.statusOption('suspended')}
+              >
+                Suspended
+              </MenuItem>
               <MenuItem
                 value="invited"
                 data-testid={TestIds.users.editDialog.statusOption('invited')}
@@ -0,0 +1,56 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/common/ConfidenceChip.tsx
+ * Description: Color-coded indicator of an extraction confidence score
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import {
+  CONFIDENCE_COLORS,
+  formatConfidence,
+  getConfidenceLevel,
+} from '../../utils/extractionConfidence';
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface ConfidenceChipProps {
+  /** Score between 0 and 1; nothing is rendered without one */
+  confidence: number | null;
+
+  /** Test ID for the chip */
+  testId?: string;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const ConfidenceChip: React.FC<ConfidenceChipProps> = ({
+  confidence,
+  testId,
+}) => {
+  if (confidence === null) return null;
+
+  const level = getConfidenceLevel(confidence);
+
+  return (
+    <Tooltip title={`Model confidence: ${level}`}>
+      <Chip
+        label={formatConfidence(confidence)}
+        color={CONFIDENCE_COLORS[level]}
+        size="small"
+        variant="outlined"
+        {...(testId && { 'data-testid': testId })}
+      />
+    </Tooltip>
+  );
+};
+
+export default ConfidenceChip;
@@ -0,0 +1,90 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/common/ConfirmUserChangeDialog.tsx
+ * Description: Confirmation dialog for changing a user's role or status
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import { type User } from '../../types';
+import { TestIds } from '../../testIds';
+import {
+  describeUserChange,
+  getRoleDisplayName,
+  type UserChange,
+} from '../../utils/userFormatters';
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface ConfirmUserChangeDialogProps {
+  user: User;
+  change: UserChange;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+export const ConfirmUserChangeDialog: React.FC<
+  ConfirmUserChangeDialogProps
+> = ({ user, change, onClose, onConfirm }) => {
+  const currentValue =
+    change.type === 'role' ? getRoleDisplayName(user.role) : user.status;
+  const newValue =
+    change.type === 'role' ? getRoleDisplayName(change.value) : change.value;
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      data-testid={TestIds.users.changeDialog.container}
+    >
+      <DialogTitle>{describeUserChange(change)}</DialogTitle>
+      <DialogContent>
+        <Typography data-testid={TestIds.users.changeDialog.message}>
+          Change the {change.type} of <strong>{user.email}</strong> from{' '}
+          <strong>{currentValue}</strong> to <strong>{newValue}</strong>?
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          data-testid={TestIds.users.changeDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color={
+            change.type === 'status' && change.value !== 'active'
+              ? 'error'
+              : 'primary'
+          }
+          onClick={onConfirm}
+          data-testid={TestIds.users.changeDialog.confirm}
+        >
+          {describeUserChange(change)}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ConfirmUserChangeDialog;
@@ -0,0 +1,490 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/common/CreateUserDialog.tsx
+ * Description: Dialog for creating a user with an initial password and domain
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Visibility as VisibilityIcon,
+  VisibilityOff as VisibilityOffIcon,
+} from '@mui/icons-material';
+import {
+  type CreateUserRequest,
+  type Domain,
+  type OrganizationV2,
+} from '../../types';
+import { TestIds } from '../../testIds';
+import OrganizationsDropdown from './OrganizationsDropdown';
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface CreateUserDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateUserRequest) => Promise<void>;
+  organizations: OrganizationV2[];
+  domains: Record<string, Domain[]>; // Add this prop
+  // Pre-selects and locks the organization, e.g. when inviting into an org
+  fixedOrganizationId?: number;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+export const CreateUserDialog: React.FC<CreateUserDialogProps> = ({
+  open,
+  onClose,
+  onSubmit,
+  organizations,
+  domains, // Add this prop
+  fixedOrganizationId,
+}) => {
+  const [formData, setFormData] = useState<CreateUserRequest>({
+    organization_id: fixedOrganizationId ?? 0,
+    domain_id: 0,
+    email: '',
+    first_name: '',
+    last_name: '',
+    role: 'tenant_admin',
+    password: '',
+  });
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [availableDomains, setAvailableDomains] = useState<Domain[]>([]); // Rename to match EditUserDialog
+  const [domainsLoading] = useState<boolean>(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Update available domains when organization changes - use pre-fetched data
+  useEffect(() => {
+    if (formData.organization_id) {
+      const orgDomains = domains[formData.organization_id] || [];
+      setAvailableDomains(orgDomains);
+
+      // Only set default domain if no domain is currently selected
+      if (!formData.domain_id) {
+        // Find the primary domain and set it as default
+        const primaryDomain = orgDomains.find(domain => domain.is_primary);
+        if (primaryDomain) {
+          setFormData(prev => ({
+            ...prev,
+            domain_id: Number(primaryDomain.id),
+          }));
+        } else if (orgDomains.length > 0) {
+          // If no primary domain found, select the first domain
+          setFormData(prev => ({
+            ...prev,
+            domain_id: Number(orgDomains[0]?.id || 0),
+          }));
+        } else {
+          // No domains available
+          setFormData(prev => ({ ...prev, domain_id: 0 }));
+        }
+      }
+    } else {
+      setAvailableDomains([]);
+      setFormData(prev => ({ ...prev, domain_id: 0 }));
+    }
+  }, [formData.organization_id, domains]);
+
+  // Remove the fetchDomains function - no longer needed
+
+  const handleSubmit = async (): Promise<void> => {
+    // Clear previous errors
+    setErrors({});
+
+    // Validate required fields
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.organization_id) {
+      newErrors.organization_id = 'Organization is required';
+    }
+
+    if (!formData.domain_id) {
+      newErrors.domain_id = 'Domain is required';
+    }
+
+    if (!formData.email.trim()) {
+      newErrors.email = 'Email is required';
+    } else {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(formData.email)) {
+        newErrors.email = 'Please enter a valid email address';
+      }
+    }
+
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    } else {
+      const passwordRegex =
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
+      if (!passwordRegex.test(formData.password)) {
+        newErrors.password =
+          'Password must be at least 8 characters long and contain at least one uppercase letter, one lowercase letter, one number, and one special character.';
+      }
+    }
+
+    if (formData.password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    if (Object.keys(newErrors).length > 0) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Convert data for API - API expects integer organization_id and display name for role
+      const apiData = {
+        organization_id: formData.organization_id,
+        domain_id: formData.domain_id,
+        email: formData.email,
+        first_name: formData.first_name,
+        last_name: formData.last_name,
+        role: formData.role,
+        password: formData.password,
+      };
+
+      await onSubmit(apiData as unknown as CreateUserRequest);
+      setFormData({
+        organization_id: fixedOrganizationId ?? 0,
+        domain_id: 0,
+        email: '',
+        first_name: '',
+        last_name: '',
+        role: 'tenant_admin',
+        password: '',
+      });
+      setConfirmPassword('');
+      setErrors({});
+    } catch (error) {
+      console.error('Error in create dialog:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFormData({
+      organization_id: fixedOrganizationId ?? 0,
+      domain_id: 0,
+      email: '',
+      first_name: '',
+      last_name: '',
+      role: 'tenant_admin',
+      password: '',
+    });
+    setConfirmPassword('');
+    setErrors({});
+    setAvailableDomains([]); // Clear available domains on close
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="sm"
+      fullWidth
+      data-testid={TestIds.users.createDialog.container}
+    >
+      <DialogTitle data-testid={TestIds.users.createDialog.title}>
+        Create New User
+      </DialogTitle>
+      <DialogContent>
+        <Alert severity="info" sx={{ mt: 2, mb: 1 }}>
+          The password can only be set once. Please save it in a secure
+          location.
+        </Alert>
+        <Box sx={{ pt: 1 }}>
+          <FormControl
+            fullWidth
+            margin="normal"
+            required
+            error={!!errors.organization_id}
+          >
+            <OrganizationsDropdown
+              value={formData.organization_id}
+              onChange={value =>
+                setFormData({ ...formData, organization_id: Number(value) })
+              }
+              label="Organization"
+              required={true}
+              testIdPrefix="users-create-organization"
+              showAllOption={false}
+              organizations={organizations}
+              fetchFromApi={false}
+              margin="none"
+              disabled={fixedOrganizationId !== undefined}
+            />
+            {errors.organization_id && (
+              <Typography variant="caption" color="error" sx={{ mt: 0.5 }}>
+                {errors.organization_id}
+              </Typography>
+            )}
+          </FormControl>
+
+          <FormControl
+            fullWidth
+            margin="normal"
+            required
+            error={!!errors.domain_id}
+          >
+            <InputLabel>Domain</InputLabel>
+            <Select
+              value={
+                domainsLoading
+                  ? ''
+                  : availableDomains.length > 0
+                    ? String(formData.domain_id || '')
+                    : ''
+              }
+              onChange={e =>
+                setFormData({
+                  ...formData,
+                  domain_id: Number(e.target.value),
+                })
+              }
+              label="Domain"
+              disabled={!formData.organization_id || domainsLoading}
+              data-testid={TestIds.users.createDialog.domain}
+              inputProps={{
+                'aria-label': 'Domain selection',
+              }}
+            >
+              {domainsLoading ? (
+                <MenuItem disabled>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <CircularProgress size={16} />
+                    Loading domains...
+                  </Box>
+                </MenuItem>
+              ) : availableDomains.length === 0 ? (
+                <MenuItem disabled>No domains available</MenuItem>
+              ) : (
+                availableDomains.map(domain => (
+                  <MenuItem
+                    key={domain.id}
+                    value={domain.id}
+                    data-testid={TestIds.users.createDialog.domainOption(
+                      domain.id
+                    )}
+                  >
+                    {(() => {
+                      let domainName = '';
+                      if (
+                        domain.domain_name &&
+                        typeof domain.domain_name === 'string'
+                      ) {
+                        domainName = domain.domain_name;
+                      } else if (
+                        domain.name &&
+                        typeof domain.name === 'string'
+                      ) {
+                        domainName = domain.name;
+                      }
+                      const cleanDomainName = domainName.trim();
+
+                      return (
+                        <>
+                          {cleanDomainName || 'Unknown Domain'}
+                          {(domain.is_primary && ' (Primary)') || ''}
+                        </>
+                      );
+                    })()}
+                  </MenuItem>
+                ))
+              )}
+            </Select>
+            {errors.domain_id && (
+              <Typography variant="caption" color="error" sx={{ mt: 0.5 }}>
+                {errors.domain_id}
+              </Typography>
+            )}
+          </FormControl>
+
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Email"
+            type="email"
+            value={formData.email}
+            onChange={e => setFormData({ ...formData, email: e.target.value })}
+            required
+            error={!!errors.email}
+            helperText={errors.email}
+            data-testid={TestIds.users.createDialog.email}
+            inputProps={{
+              'data-testid': TestIds.users.createDialog.email,
+              'aria-label': 'User email input',
+            }}
+          />
+
+          <TextField
+            fullWidth
+            margin="normal"
+            label="First Name"
+            value={formData.first_name}
+            onChange={e =>
+              setFormData({ ...formData, first_name: e.target.value })
+            }
+            data-testid={TestIds.users.createDialog.firstName}
+            inputProps={{
+              'data-testid': TestIds.users.createDialog.firstName,
+              'aria-label': 'User first name input',
+            }}
+          />
+
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Last Name"
+            value={formData.last_name}
+            onChange={e =>
+              setFormData({ ...formData, last_name: e.target.value })
+            }
+            data-testid={TestIds.users.createDialog.lastName}
+            inputProps={{
+              'data-testid': TestIds.users.createDialog.lastName,
+              'aria-label': 'User last name input',
+            }}
+          />
+
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Password"
+            type={showPassword ? 'text' : 'password'}
+            value={formData.password}
+            onChange={e =>
+              setFormData({ ...formData, password: e.target.value })
+            }
+            required
+            error={!!errors.password}
+            helperText={errors.password}
+            data-testid={TestIds.users.createDialog.password}
+            InputProps={{
+              endAdornment: (
+                <IconButton
+                  onClick={() => setShowPassword(!showPassword)}
+                  edge="end"
+                >
+                  {showPassword ? <VisibilityOffIcon /> : <VisibilityIcon />}
+                </IconButton>
+              ),
+            }}
+            inputProps={{
+              'data-testid': TestIds.users.createDialog.password,
+              'aria-label': 'User password input',
+            }}
+          />
+
+          <TextField
+            fullWidth
+            margin="normal"
+            label="Confirm Password"
+            type={showConfirmPassword ? 'text' : 'password'}
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            required
+            error={!!errors.confirmPassword}
+            helperText={errors.confirmPassword}
+            data-testid={TestIds.users.createDialog.confirmPassword}
+            InputProps={{
+              endAdornment: (
+                <IconButton
+                  onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                  edge="end"
+                >
+                  {showConfirmPassword ? (
+                    <VisibilityOffIcon />
+                  ) : (
+                    <VisibilityIcon />
+                  )}
+                </IconButton>
+              ),
+            }}
+            inputProps={{
+              'data-testid': TestIds.users.createDialog.confirmPassword,
+              'aria-label': 'User confirm password input',
+            }}
+          />
+
+          {/* <FormControl fullWidth margin="normal" required>
+            <InputLabel>Role</InputLabel>
+            <Select
+              value={formData.role}
+              onChange={e =>
+                setFormData({
+                  ...formData,
+                  role: e.target.value as 'global_admin' | 'tenant_admin',
+                })
+              }
+              label="Role"
+              data-testid={TestIds.users.createDialog.role}
+              inputProps={{
+                'aria-label': 'Role selection',
+              }}
+            >
+              {USER_ROLES.map(role => (
+                <MenuItem
+                  key={role}
+                  value={role}
+                  data-testid={TestIds.users.createDialog.roleOption(role)}
+                >
+                  {getRoleDisplayName(role)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl> */}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={handleClose}
+          disabled={loading}
+          data-testid={TestIds.users.createDialog.cancel}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={loading}
+          data-testid={TestIds.users.createDialog.submit}
+        >
+          {loading ? <CircularProgress size={20} /> : 'Create User'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateUserDialog;
@@ -0,0 +1,72 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/components/common/CurrencySelect.tsx
+ * Description: Reusable currency picker for price fields
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React from 'react';
+import { TextField, MenuItem } from '@mui/material';
+import { SUPPORTED_CURRENCIES } from '../../utils/moneyFormatter';
+
+// ────────────────────────────────────────
+// Component Props Interface
+// ────────────────────────────────────────
+
+interface CurrencySelectProps {
+  /** Current ISO 4217 currency code */
+  value: string;
+
+  /** Callback when selection changes */
+  onChange: (value: string) => void;
+
+  /** Label for the field */
+  label?: string;
+
+  /** Whether the field is disabled */
+  disabled?: boolean;
+
+  /** Test ID for the underlying input */
+  testId?: string;
+}
+
+// ────────────────────────────────────────
+// Main Component
+// ────────────────────────────────────────
+
+const CurrencySelect: React.FC<CurrencySelectProps> = ({
+  value,
+  onChange,
+  label = 'Currency',
+  disabled = false,
+  testId,
+}) => {
+  // Keep a stored currency selectable even if it is no longer offered
+  const options: string[] =
+    value && !(SUPPORTED_CURRENCIES as readonly string[]).includes(value)
+      ? [value, ...SUPPORTED_CURRENCIES]
+      : [...SUPPORTED_CURRENCIES];
+
+  return (
+    <TextField
+      select
+      fullWidth
+      label={label}
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      disabled={disabled}
+      inputProps={{ ...(testId && { 'data-testid': testId }) }}
+    >
+      {options.map(currency => (
+        <MenuItem key={currency} value={currency}>
+          {currency}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+};
+
+export default CurrencySelect;
@@ -4,7 +4,7 @@
  * Description: Environment configuration for TondroAI CRM
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 21-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -24,10 +24,22 @@ export const ENV_CONFIG = {
     process.env.NEXT_PUBLIC_TRANSCRIPTS_API_TIMEOUT || '60000',
     10
   ), // Longer timeout for file processing
+  // Transcripts submitted at the same time during a batch upload (at least 1)
+  TRANSCRIPTS_UPLOAD_CONCURRENCY: Math.max(
+    1,
+    parseInt(
+      process.env.NEXT_PUBLIC_TRANSCRIPTS_UPLOAD_CONCURRENCY || '3',
+      10
+    ) || 3
+  ),
 
   // Auth API Configuration (dedicated auth backend)
   AUTH_API_BASE_URL: process.env.NEXT_PUBLIC_AUTH_API_BASE_PATH,
 
+  // Domain Verification
+  DOMAIN_CNAME_TARGET:
+    process.env.NEXT_PUBLIC_DOMAIN_CNAME_TARGET || 'tenants.tondro.ai',
+
   // Environment
   NODE_ENV: process.env.NODE_ENV || 'development',
   IS_DEVELOPMENT: (process.env.NODE_ENV || 'development') === 'development',
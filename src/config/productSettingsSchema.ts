@@ -0,0 +1,33 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/config/productSettingsSchema.ts
+ * Description: JSON Schema for the product settings edited in the CRM
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { type JsonSchema } from '../utils/jsonSchema';
+import { TIER_PALETTE } from '../utils/tierFormatter';
+
+/**
+ * Known settings are validated strictly; unknown keys are allowed so that
+ * settings consumed only by the backend are preserved when editing
+ */
+export const PRODUCT_SETTINGS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tier_labels: {
+      type: 'object',
+      description: 'Display label per tier name',
+      additionalProperties: { type: 'string', minLength: 1 },
+    },
+    tier_colors: {
+      type: 'object',
+      description: 'Chip color per tier name',
+      additionalProperties: { type: 'string', enum: TIER_PALETTE },
+    },
+  },
+  additionalProperties: true,
+};
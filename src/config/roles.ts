@@ -37,6 +37,7 @@ export const PERMISSIONS = {
   DOMAIN_DELETE: 'domain:delete',
   AUDIT_READ: 'audit:read',
   TRANSCRIPT_UPLOAD: 'transcript:upload',
+  TRANSCRIPT_REVIEW: 'transcript:review',
   JOB_READ: 'job:read',
 } as const;
 
@@ -73,6 +74,7 @@ const ROLES: Record<string, Permission[]> = {
     PERMISSIONS.DOMAIN_DELETE,
     PERMISSIONS.AUDIT_READ,
     PERMISSIONS.TRANSCRIPT_UPLOAD,
+    PERMISSIONS.TRANSCRIPT_REVIEW,
     PERMISSIONS.JOB_READ,
   ],
   // Role ID 2 from CSV
@@ -0,0 +1,144 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/contexts/TierRegistryContext.tsx
+ * Description: Shared registry of product tiers used to resolve tier labels and colors
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import type { ProductTier } from '../types';
+import { useProductTiers, sortProductTiers } from '../hooks/useProductTiers';
+import {
+  formatTierName,
+  getTierColor,
+  type TierColorType,
+} from '../utils/tierFormatter';
+
+interface TierRegistryContextType {
+  tiers: ProductTier[];
+  loading: boolean;
+  error: string | null;
+  refreshTiers: () => Promise<void>;
+  getTiersForProduct: (productId: string) => ProductTier[];
+  getTier: (tierName: string, productId?: string) => ProductTier | undefined;
+  getTierLabel: (tierName: string, productId?: string) => string;
+  getTierChipColor: (tierName: string, productId?: string) => TierColorType;
+  /** Starts the first fetch; called by useTierRegistry */
+  requestTiers: () => void;
+}
+
+const TierRegistryContext = createContext<TierRegistryContextType | undefined>(
+  undefined
+);
+
+interface TierRegistryProviderProps {
+  children: ReactNode;
+}
+
+export const TierRegistryProvider: React.FC<TierRegistryProviderProps> = ({
+  children,
+}) => {
+  // Tiers are fetched once a component first uses the registry, so pages
+  // that never show tiers do not load them
+  const [requested, setRequested] = useState(false);
+  const { tiers, products, loading, error, refetch } =
+    useProductTiers(requested);
+
+  const requestTiers = useCallback(() => setRequested(true), []);
+
+  const getTiersForProduct = useCallback(
+    (productId: string): ProductTier[] =>
+      sortProductTiers(tiers.filter(tier => tier.product_id === productId)),
+    [tiers]
+  );
+
+  // Without a product, fall back to the first tier with a matching name
+  const getTier = useCallback(
+    (tierName: string, productId?: string): ProductTier | undefined =>
+      tiers.find(
+        tier =>
+          tier.tier_name === tierName &&
+          (!productId || tier.product_id === productId)
+      ),
+    [tiers]
+  );
+
+  const getTierLabel = useCallback(
+    (tierName: string, productId?: string): string => {
+      const tier = getTier(tierName, productId);
+      const product = products.find(
+        p => String(p.id) === (productId ?? tier?.product_id)
+      );
+      return formatTierName(tierName, tier, product);
+    },
+    [getTier, products]
+  );
+
+  const getTierChipColor = useCallback(
+    (tierName: string, productId?: string): TierColorType => {
+      const product = products.find(
+        p => String(p.id) === (productId ?? getTier(tierName)?.product_id)
+      );
+      return getTierColor(tierName, product);
+    },
+    [getTier, products]
+  );
+
+  const value = useMemo<TierRegistryContextType>(
+    () => ({
+      tiers,
+      loading,
+      error,
+      refreshTiers: refetch,
+      getTiersForProduct,
+      getTier,
+      getTierLabel,
+      getTierChipColor,
+      requestTiers,
+    }),
+    [
+      tiers,
+      loading,
+      error,
+      refetch,
+      getTiersForProduct,
+      getTier,
+      getTierLabel,
+      getTierChipColor,
+      requestTiers,
+    ]
+  );
+
+  return (
+    <TierRegistryContext.Provider value={value}>
+      {children}
+    </TierRegistryContext.Provider>
+  );
+};
+
+export const useTierRegistry = (): TierRegistryContextType => {
+  const context = useContext(TierRegistryContext);
+  if (context === undefined) {
+    throw new Error(
+      'useTierRegistry must be used within a TierRegistryProvider'
+    );
+  }
+
+  const { requestTiers } = context;
+  useEffect(() => {
+    requestTiers();
+  }, [requestTiers]);
+
+  return context;
+};
@@ -20,6 +20,7 @@ export {
 } from './useEntityState';
 export { usePagination } from './usePagination';
 export { useEntityData } from './useEntityData';
+export { useEntityDeepLink } from './useEntityDeepLink';
 
 // ────────────────────────────────────────
 // Feature-Specific Hooks
@@ -29,7 +30,19 @@ export {
   useProductTiers,
   useProductTier,
   useProductTiersByProduct,
+  sortProductTiers,
 } from './useProductTiers';
+export {
+  useJobPolling,
+  type JobPollingStatus,
+  type PendingJob,
+} from './useJobPolling';
+export {
+  useTranscriptUploadQueue,
+  isUploadQueueItemActive,
+  type UploadQueueItem,
+  type UploadQueueStatus,
+} from './useTranscriptUploadQueue';
 
 // ────────────────────────────────────────
 // End of File: src/hooks/index.ts
@@ -0,0 +1,109 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/hooks/useEntityDeepLink.ts
+ * Description: Opens an entity detail view from the `?view=<id>` query parameter
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useRouter } from 'next/router';
+import { useAlert } from '../contexts/AlertContext';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import { ENTITY_VIEW_QUERY_PARAM } from '@/utils/entityLinks';
+
+// ────────────────────────────────────────
+// Hook Interface
+// ────────────────────────────────────────
+
+interface UseEntityDeepLinkOptions<T> {
+  loadEntity: (id: string, signal: AbortSignal) => Promise<T | null>;
+  onLoad: (entity: T) => void;
+  entityLabel: string;
+}
+
+interface UseEntityDeepLinkReturn {
+  viewId: string | null;
+  clearDeepLink: () => void;
+}
+
+// ────────────────────────────────────────
+// Hook Implementation
+// ────────────────────────────────────────
+
+export function useEntityDeepLink<T>({
+  loadEntity,
+  onLoad,
+  entityLabel,
+}: UseEntityDeepLinkOptions<T>): UseEntityDeepLinkReturn {
+  const router = useRouter();
+  const { showAlert } = useAlert();
+
+  const rawViewId = router.query[ENTITY_VIEW_QUERY_PARAM];
+  const viewId = typeof rawViewId === 'string' && rawViewId ? rawViewId : null;
+
+  // Keep the latest callbacks without re-triggering the fetch effect
+  const loadEntityRef = useRef(loadEntity);
+  const onLoadRef = useRef(onLoad);
+  loadEntityRef.current = loadEntity;
+  onLoadRef.current = onLoad;
+
+  // ────────────────────────────────────────
+  // Load Entity From Query
+  // ────────────────────────────────────────
+
+  useEffect(() => {
+    if (!router.isReady || !viewId) return;
+
+    const controller = new AbortController();
+
+    const load = async (): Promise<void> => {
+      try {
+        const entity = await loadEntityRef.current(viewId, controller.signal);
+        if (controller.signal.aborted) return;
+
+        if (entity) {
+          onLoadRef.current(entity);
+        } else {
+          showAlert(`${entityLabel} ${viewId} was not found`, 'warning');
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(`Error loading ${entityLabel.toLowerCase()}:`, error);
+        showAlert(
+          getApiErrorMessage(
+            error,
+            `Failed to load ${entityLabel.toLowerCase()}`
+          ),
+          'error'
+        );
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [router.isReady, viewId, entityLabel, showAlert]);
+
+  // ────────────────────────────────────────
+  // Clear Query Parameter
+  // ────────────────────────────────────────
+
+  const clearDeepLink = useCallback((): void => {
+    if (!viewId) return;
+
+    const query = { ...router.query };
+    delete query[ENTITY_VIEW_QUERY_PARAM];
+    router.replace({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+    });
+  }, [router, viewId]);
+
+  return { viewId, clearDeepLink };
+}
+
+// ────────────────────────────────────────
+// End of File: src/hooks/useEntityDeepLink.ts
+// ────────────────────────────────────────
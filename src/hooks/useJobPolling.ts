@@ -0,0 +1,175 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/hooks/useJobPolling.ts
+ * Description: Polls a transcript job until it settles and resumes in-flight jobs after a reload
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { JobDiagnosticsResponse } from '../services/transcriptsApi';
+import {
+  pollJobUntilSettled,
+  type JobPollingOptions,
+} from '@/utils/jobPolling';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+
+// ────────────────────────────────────────
+// Hook Interface
+// ────────────────────────────────────────
+
+export type JobPollingStatus =
+  | 'idle'
+  | 'polling'
+  | 'settled'
+  | 'timeout'
+  | 'error';
+
+export interface PendingJob {
+  jobId: number;
+  startedAt: number;
+  filename?: string;
+}
+
+interface UseJobPollingOptions extends JobPollingOptions {
+  /** localStorage key used to resume an in-flight job after a page reload */
+  persistKey?: string;
+}
+
+interface UseJobPollingReturn {
+  status: JobPollingStatus;
+  /** Latest status received for the job */
+  job: JobDiagnosticsResponse | null;
+  /** The job being (or last) polled */
+  pendingJob: PendingJob | null;
+  error: string | null;
+  startPolling: (jobId: number, filename?: string) => void;
+  /** Stops polling and forgets the job, including its persisted copy */
+  stopPolling: () => void;
+}
+
+// ────────────────────────────────────────
+// Persistence Helpers
+// ────────────────────────────────────────
+
+const readPendingJob = (key: string): PendingJob | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || 'null');
+    if (
+      typeof stored?.jobId === 'number' &&
+      typeof stored?.startedAt === 'number'
+    ) {
+      return stored as PendingJob;
+    }
+  } catch {
+    // Ignore malformed entries; they are overwritten by the next job
+  }
+  return null;
+};
+
+const writePendingJob = (key: string, pendingJob: PendingJob | null) => {
+  if (pendingJob) {
+    localStorage.setItem(key, JSON.stringify(pendingJob));
+  } else {
+    localStorage.removeItem(key);
+  }
+};
+
+// ────────────────────────────────────────
+// Hook Implementation
+// ────────────────────────────────────────
+
+export const useJobPolling = ({
+  persistKey,
+  ...pollingOptions
+}: UseJobPollingOptions = {}): UseJobPollingReturn => {
+  const [status, setStatus] = useState<JobPollingStatus>('idle');
+  const [job, setJob] = useState<JobDiagnosticsResponse | null>(null);
+  const [pendingJob, setPendingJob] = useState<PendingJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef(pollingOptions);
+  optionsRef.current = pollingOptions;
+
+  const persist = useCallback(
+    (value: PendingJob | null) => {
+      if (persistKey) writePendingJob(persistKey, value);
+    },
+    [persistKey]
+  );
+
+  const runPolling = useCallback(
+    async (target: PendingJob) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setPendingJob(target);
+      setJob(null);
+      setError(null);
+      setStatus('polling');
+      persist(target);
+
+      try {
+        const result = await pollJobUntilSettled(target.jobId, {
+          ...optionsRef.current,
+          signal: controller.signal,
+          startedAt: target.startedAt,
+          onUpdate: setJob,
+        });
+
+        // Keep the persisted job so it resumes when the page is opened again
+        if (result.outcome === 'aborted') return;
+
+        persist(null);
+        setStatus(result.outcome === 'settled' ? 'settled' : 'timeout');
+      } catch (err) {
+        if (controller.signal.aborted) return;
+
+        persist(null);
+        setError(getApiErrorMessage(err, 'Failed to check job status'));
+        setStatus('error');
+      }
+    },
+    [persist]
+  );
+
+  const startPolling = useCallback(
+    (jobId: number, filename?: string) => {
+      runPolling({
+        jobId,
+        startedAt: Date.now(),
+        ...(filename && { filename }),
+      });
+    },
+    [runPolling]
+  );
+
+  const stopPolling = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    persist(null);
+    setPendingJob(null);
+    setJob(null);
+    setError(null);
+    setStatus('idle');
+  }, [persist]);
+
+  // ────────────────────────────────────────
+  // Resume After Reload / Cancel On Unmount
+  // ────────────────────────────────────────
+
+  useEffect(() => {
+    if (persistKey) {
+      const stored = readPendingJob(persistKey);
+      if (stored) runPolling(stored);
+    }
+
+    return () => controllerRef.current?.abort();
+  }, [persistKey, runPolling]);
+
+  return { status, job, pendingJob, error, startPolling, stopPolling };
+};
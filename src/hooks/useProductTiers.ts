@@ -4,21 +4,37 @@
  * Description: Custom hook for managing product tiers data
  * Author: Muhammad Abubakar Khan
  * Created: 24-06-2025
- * Last Updated: 04-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { apiHelpers } from '../services/api';
-import type { ProductTier } from '../types';
+import type { Product, ProductTier } from '../types';
 import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
 
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+/**
+ * Sorts tiers by their configured order, falling back to max_limit for
+ * tiers that have not been explicitly ordered
+ */
+export const sortProductTiers = (tiers: ProductTier[]): ProductTier[] =>
+  [...tiers].sort(
+    (a, b) =>
+      (a.sort_order ?? Number.MAX_SAFE_INTEGER) -
+        (b.sort_order ?? Number.MAX_SAFE_INTEGER) || a.max_limit - b.max_limit
+  );
+
 // ────────────────────────────────────────
 // Hook Interface
 // ────────────────────────────────────────
 
 interface UseProductTiersReturn {
   tiers: ProductTier[];
+  products: Product[];
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
@@ -33,9 +49,15 @@ interface UseProductTiersReturn {
 // Hook Implementation
 // ────────────────────────────────────────
 
-export const useProductTiers = (): UseProductTiersReturn => {
+/**
+ * @param enabled - Tiers are only fetched once this is true
+ */
+export const useProductTiers = (
+  enabled: boolean = true
+): UseProductTiersReturn => {
   const [tiers, setTiers] = useState<ProductTier[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState<boolean>(enabled);
   const [error, setError] = useState<string | null>(null);
 
   // ────────────────────────────────────────
@@ -53,29 +75,33 @@ export const useProductTiers = (): UseProductTiersReturn => {
         ? productsResponse.data
         : productsResponse.data.products || [];
 
-      // Then fetch tiers for each product
-      const allTiers: ProductTier[] = [];
-
-      for (const product of products) {
-        try {
-          const controller = apiHelpers.createAbortController();
-          const response = await apiHelpers.getProductTiersByProduct(
-            String(product.id),
-            controller.signal
-          );
-
-          if (response.data.tiers) {
-            allTiers.push(...response.data.tiers);
+      // Then fetch the tiers of every product in parallel
+      const tiersByProduct = await Promise.all(
+        products.map(async product => {
+          try {
+            const controller = apiHelpers.createAbortController();
+            const response = await apiHelpers.getProductTiersByProduct(
+              String(product.id),
+              controller.signal
+            );
+            return response.data.tiers || [];
+          } catch (err) {
+            console.warn(
+              `Failed to fetch tiers for product ${product.id}:`,
+              err
+            );
+            // Continue with other products even if one fails
+            return [];
           }
-        } catch (err) {
-          console.warn(`Failed to fetch tiers for product ${product.id}:`, err);
-          // Continue with other products even if one fails
-        }
-      }
+        })
+      );
+      const allTiers = tiersByProduct.flat();
 
+      setProducts(products);
       setTiers(allTiers);
     } catch (err: any) {
       setError(getApiErrorMessage(err, 'Failed to fetch product tiers'));
+      setProducts([]);
       setTiers([]);
     } finally {
       setLoading(false);
@@ -87,8 +113,8 @@ export const useProductTiers = (): UseProductTiersReturn => {
   // ────────────────────────────────────────
 
   useEffect(() => {
-    fetchTiers();
-  }, [fetchTiers]);
+    if (enabled) fetchTiers();
+  }, [enabled, fetchTiers]);
 
   // ────────────────────────────────────────
   // Utility Functions
@@ -112,6 +138,7 @@ export const useProductTiers = (): UseProductTiersReturn => {
 
   return {
     tiers,
+    products,
     loading,
     error,
     refetch: fetchTiers,
@@ -213,7 +240,7 @@ export const useProductTiersByProduct = (
         controller.signal
       );
 
-      setTiers(response.data.tiers || []);
+      setTiers(sortProductTiers(response.data.tiers || []));
     } catch (err: any) {
       setError(getApiErrorMessage(err));
       setTiers([]);
@@ -0,0 +1,467 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/hooks/useTranscriptUploadQueue.ts
+ * Description: Queue that validates, submits and follows a batch of transcript uploads
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  transcriptsApiHelpers,
+  type JobDiagnosticsResponse,
+} from '../services/transcriptsApi';
+import { ENV_CONFIG } from '../config/env';
+import {
+  isJobSettled,
+  pollJobUntilSettled,
+  type JobPollingOptions,
+} from '@/utils/jobPolling';
+import { getApiErrorMessage } from '@/utils/getApiErrorMessage';
+import {
+  getTranscriptErrorMessage,
+  getTranscriptSubmitErrorMessage,
+  validateTranscriptFile,
+} from '@/utils/transcriptFormatters';
+
+// ────────────────────────────────────────
+// Hook Interface
+// ────────────────────────────────────────
+
+export type UploadQueueStatus =
+  | 'invalid' // Rejected by the type/size rules
+  | 'pending' // Selected, not yet submitted
+  | 'queued' // Waiting for a free upload slot
+  | 'uploading'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  filename: string;
+  fileSize: number;
+  fileType: string;
+  /** Null for jobs restored after a page reload */
+  file: File | null;
+  status: UploadQueueStatus;
+  error: string | null;
+  jobId: number | null;
+  startedAt: number | null;
+  job: JobDiagnosticsResponse | null;
+}
+
+interface UseTranscriptUploadQueueOptions {
+  /** Files uploaded at the same time; processing jobs do not hold a slot */
+  concurrency?: number;
+  /** localStorage key used to resume processing jobs after a page reload */
+  persistKey?: string;
+  /** Single-job key saved before batch uploads; read once to move its job into the queue */
+  legacyPersistKey?: string;
+  pollingOptions?: JobPollingOptions;
+}
+
+interface UseTranscriptUploadQueueReturn {
+  items: UploadQueueItem[];
+  addFiles: (files: File[]) => void;
+  /** Moves every pending file into the upload queue */
+  submitPending: () => void;
+  retryItem: (id: string) => void;
+  cancelItem: (id: string) => void;
+  removeItem: (id: string) => void;
+  clearQueue: () => void;
+}
+
+// Subset of an item that survives a page reload
+interface PersistedQueueItem {
+  id: string;
+  filename: string;
+  jobId: number;
+  startedAt: number;
+}
+
+// Statuses with a request or poll in flight
+const ACTIVE_STATUSES: UploadQueueStatus[] = ['uploading', 'processing'];
+
+export const isUploadQueueItemActive = (item: UploadQueueItem): boolean =>
+  ACTIVE_STATUSES.includes(item.status);
+
+let itemSequence = 0;
+const createItemId = (): string => `upload-${Date.now()}-${++itemSequence}`;
+
+// ────────────────────────────────────────
+// Persistence Helpers
+// ────────────────────────────────────────
+
+const readPersistedItems = (key: string): PersistedQueueItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter(
+          item =>
+            typeof item?.jobId === 'number' &&
+            typeof item?.startedAt === 'number'
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const updatePersistedItems = (
+  key: string,
+  update: (items: PersistedQueueItem[]) => PersistedQueueItem[]
+) => {
+  const items = update(readPersistedItems(key));
+  if (items.length > 0) {
+    localStorage.setItem(key, JSON.stringify(items));
+  } else {
+    localStorage.removeItem(key);
+  }
+};
+
+/**
+ * Moves a job saved under a single-job key into the queue's saved items and
+ * clears the old key
+ */
+const migrateLegacyItem = (legacyKey: string, key: string) => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(legacyKey) || 'null');
+    if (
+      typeof stored?.jobId === 'number' &&
+      typeof stored?.startedAt === 'number'
+    ) {
+      updatePersistedItems(key, items =>
+        items.some(item => item.jobId === stored.jobId)
+          ? items
+          : [
+              ...items,
+              {
+                id: createItemId(),
+                filename:
+                  typeof stored.filename === 'string'
+                    ? stored.filename
+                    : `Job #${stored.jobId}`,
+                jobId: stored.jobId,
+                startedAt: stored.startedAt,
+              },
+            ]
+      );
+    }
+  } catch {
+    // Malformed entries are dropped with the key
+  }
+  localStorage.removeItem(legacyKey);
+};
+
+// ────────────────────────────────────────
+// Hook Implementation
+// ────────────────────────────────────────
+
+export const useTranscriptUploadQueue = ({
+  concurrency = ENV_CONFIG.TRANSCRIPTS_UPLOAD_CONCURRENCY,
+  persistKey,
+  legacyPersistKey,
+  pollingOptions,
+}: UseTranscriptUploadQueueOptions = {}): UseTranscriptUploadQueueReturn => {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+
+  // One controller per item with a request or poll in flight
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const pollingOptionsRef = useRef(pollingOptions);
+  pollingOptionsRef.current = pollingOptions;
+
+  const updateItem = useCallback(
+    (id: string, changes: Partial<UploadQueueItem>) => {
+      setItems(prev =>
+        prev.map(item => (item.id === id ? { ...item, ...changes } : item))
+      );
+    },
+    []
+  );
+
+  const persist = useCallback(
+    (update: (items: PersistedQueueItem[]) => PersistedQueueItem[]) => {
+      if (persistKey) updatePersistedItems(persistKey, update);
+    },
+    [persistKey]
+  );
+
+  const forget = useCallback(
+    (id: string) => persist(saved => saved.filter(item => item.id !== id)),
+    [persist]
+  );
+
+  const abortItem = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+  }, []);
+
+  // ────────────────────────────────────────
+  // Job Processing
+  // ────────────────────────────────────────
+
+  const followJob = useCallback(
+    async (
+      id: string,
+      jobId: number,
+      startedAt: number,
+      controller: AbortController
+    ) => {
+      try {
+        const result = await pollJobUntilSettled(jobId, {
+          ...pollingOptionsRef.current,
+          signal: controller.signal,
+          startedAt,
+          onUpdate: job => updateItem(id, { job }),
+        });
+
+        // Keep the persisted job so it resumes when the page is opened again
+        if (result.outcome === 'aborted') return;
+
+        forget(id);
+
+        if (result.outcome === 'timeout') {
+          updateItem(id, {
+            status: 'failed',
+            error: `Processing is taking longer than expected. Job #${jobId} is still running; check the Jobs page for its results.`,
+          });
+          return;
+        }
+
+        const document = result.job?.documents?.[0];
+        if (document?.status === 'completed' && document.result) {
+          updateItem(id, { status: 'completed', error: null });
+        } else {
+          updateItem(id, {
+            status: 'failed',
+            error: document
+              ? getTranscriptErrorMessage(
+                  document.error?.code,
+                  document.error?.message
+                )
+              : 'Invalid job structure received from API.',
+          });
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+
+        forget(id);
+        updateItem(id, {
+          status: 'failed',
+          error: getApiErrorMessage(err, 'Failed to check job status'),
+        });
+      } finally {
+        if (controllersRef.current.get(id) === controller) {
+          controllersRef.current.delete(id);
+        }
+      }
+    },
+    [forget, updateItem]
+  );
+
+  const uploadItem = useCallback(
+    async (item: UploadQueueItem) => {
+      if (!item.file) return;
+
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      updateItem(item.id, { status: 'uploading', error: null, job: null });
+
+      try {
+        const formData = new FormData();
+        formData.append('file', item.file);
+        formData.append('document_type', 'transcript');
+
+        const response = await transcriptsApiHelpers.submitTranscriptJob(
+          formData,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        const jobId = response.data.job_id;
+        const startedAt = Date.now();
+        updateItem(item.id, { status: 'processing', jobId, startedAt });
+        persist(saved => [
+          ...saved,
+          { id: item.id, filename: item.filename, jobId, startedAt },
+        ]);
+
+        await followJob(item.id, jobId, startedAt, controller);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+
+        console.error('Error submitting transcript:', err);
+        controllersRef.current.delete(item.id);
+        updateItem(item.id, {
+          status: 'failed',
+          error: getTranscriptSubmitErrorMessage(err),
+        });
+      }
+    },
+    [followJob, persist, updateItem]
+  );
+
+  // ────────────────────────────────────────
+  // Scheduler
+  // ────────────────────────────────────────
+
+  useEffect(() => {
+    const uploading = items.filter(item => item.status === 'uploading').length;
+    const freeSlots = Math.max(0, concurrency - uploading);
+    if (freeSlots === 0) return;
+
+    items
+      .filter(
+        item => item.status === 'queued' && !controllersRef.current.has(item.id)
+      )
+      .slice(0, freeSlots)
+      .forEach(item => uploadItem(item));
+  }, [items, concurrency, uploadItem]);
+
+  // ────────────────────────────────────────
+  // Resume After Reload / Cancel On Unmount
+  // ────────────────────────────────────────
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+
+    if (persistKey) {
+      if (legacyPersistKey) migrateLegacyItem(legacyPersistKey, persistKey);
+
+      const restored = readPersistedItems(persistKey);
+      if (restored.length > 0) {
+        setItems(
+          restored.map(saved => ({
+            id: saved.id,
+            filename: saved.filename,
+            fileSize: 0,
+            fileType: '',
+            file: null,
+            status: 'processing',
+            error: null,
+            jobId: saved.jobId,
+            startedAt: saved.startedAt,
+            job: null,
+          }))
+        );
+        restored.forEach(saved => {
+          const controller = new AbortController();
+          controllers.set(saved.id, controller);
+          followJob(saved.id, saved.jobId, saved.startedAt, controller);
+        });
+      }
+    }
+
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, [persistKey, legacyPersistKey, followJob]);
+
+  // ────────────────────────────────────────
+  // Queue Actions
+  // ────────────────────────────────────────
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files.map((file): UploadQueueItem => {
+      const validationError = validateTranscriptFile(file);
+      return {
+        id: createItemId(),
+        filename: file.name,
+        fileSize: file.size,
+        fileType: file.type,
+        file,
+        status: validationError ? 'invalid' : 'pending',
+        error: validationError,
+        jobId: null,
+        startedAt: null,
+        job: null,
+      };
+    });
+    setItems(prev => [...prev, ...added]);
+  }, []);
+
+  const submitPending = useCallback(() => {
+    setItems(prev =>
+      prev.map(item =>
+        item.status === 'pending' ? { ...item, status: 'queued' } : item
+      )
+    );
+  }, []);
+
+  const retryItem = useCallback(
+    (id: string) => {
+      const item = items.find(entry => entry.id === id);
+      if (!item || !['failed', 'cancelled'].includes(item.status)) return;
+
+      // Jobs that timed out or lost contact may still finish on the server;
+      // check on them again instead of submitting a second job
+      const jobUnsettled = !item.job || !isJobSettled(item.job);
+      if (item.jobId !== null && (jobUnsettled || !item.file)) {
+        const { jobId } = item;
+        const controller = new AbortController();
+        const startedAt = Date.now();
+        controllersRef.current.set(id, controller);
+        updateItem(id, { status: 'processing', error: null, startedAt });
+        persist(saved => [
+          ...saved.filter(entry => entry.id !== id),
+          { id, filename: item.filename, jobId, startedAt },
+        ]);
+        followJob(id, jobId, startedAt, controller);
+      } else if (item.file) {
+        updateItem(id, {
+          status: 'queued',
+          error: null,
+          jobId: null,
+          job: null,
+        });
+      }
+    },
+    [items, followJob, persist, updateItem]
+  );
+
+  const cancelItem = useCallback(
+    (id: string) => {
+      abortItem(id);
+      setItems(prev =>
+        prev.map(item =>
+          item.id === id &&
+          ['pending', 'queued', 'uploading'].includes(item.status)
+            ? { ...item, status: 'cancelled', error: null }
+            : item
+        )
+      );
+    },
+    [abortItem]
+  );
+
+  const removeItem = useCallback(
+    (id: string) => {
+      abortItem(id);
+      forget(id);
+      setItems(prev => prev.filter(item => item.id !== id));
+    },
+    [abortItem, forget]
+  );
+
+  const clearQueue = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+    persist(() => []);
+    setItems([]);
+  }, [persist]);
+
+  return {
+    items,
+    addFiles,
+    submitPending,
+    retryItem,
+    cancelItem,
+    removeItem,
+    clearQueue,
+  };
+};
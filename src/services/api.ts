@@ -46,6 +46,12 @@ import {
   type UsageLimitsResponse,
   type ProductsResponse,
   type CreateOrganizationApiRequest,
+  type OrganizationApiKey,
+  type OrganizationApiKeySecret,
+  type CreateAuditLogRequest,
+  type ProductTier,
+  type CreateProductTierRequest,
+  type UpdateProductTierRequest,
 } from '../types';
 import { addApiResponseInterceptor, handleAppLogout } from './apiErrorUtils';
 
@@ -85,6 +91,14 @@ const API_ENDPOINTS = {
       buildCrmEndpoint(`/organizations/${id}/domains`),
     GET_API_KEY: (id: string): string =>
       buildCrmEndpoint(`/tenant/${id}/api-key`),
+    API_KEYS: (id: string): string =>
+      buildCrmEndpoint(`/organizations/${id}/api-keys`),
+    API_KEY_BY_ID: (id: string, keyId: string): string =>
+      buildCrmEndpoint(`/organizations/${id}/api-keys/${keyId}`),
+    REVEAL_API_KEY: (id: string, keyId: string): string =>
+      buildCrmEndpoint(`/organizations/${id}/api-keys/${keyId}/reveal`),
+    ROTATE_API_KEY: (id: string, keyId: string): string =>
+      buildCrmEndpoint(`/organizations/${id}/api-keys/${keyId}/rotate`),
   },
 
   // Domains
@@ -136,6 +150,9 @@ const API_ENDPOINTS = {
       buildCrmEndpoint(`/products/${productId}/tiers`),
     BY_PRODUCT_AND_TIER: (productId: string, tierName: string): string =>
       buildCrmEndpoint(`/product-tiers/${productId}/${tierName}`),
+    BY_ID: buildCrmEndpointWithId('/product-tiers'),
+    REORDER: (productId: string): string =>
+      buildCrmEndpoint(`/products/${productId}/tiers/order`),
   },
 
   // Audit Logs
@@ -557,6 +574,58 @@ export const apiHelpers = {
       signal: signal as GenericAbortSignal,
     }),
 
+  getOrganizationApiKeys: (
+    id: string,
+    signal?: AbortSignal
+  ): Promise<
+    AxiosResponse<PaginatedResponse<OrganizationApiKey> | OrganizationApiKey[]>
+  > =>
+    api.get(API_ENDPOINTS.ORGANIZATIONS.API_KEYS(id), {
+      signal: signal as GenericAbortSignal,
+    }),
+
+  createOrganizationApiKey: (
+    id: string,
+    name: string,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<OrganizationApiKeySecret>> =>
+    api.post(
+      API_ENDPOINTS.ORGANIZATIONS.API_KEYS(id),
+      { name },
+      { signal: signal as GenericAbortSignal }
+    ),
+
+  revealOrganizationApiKey: (
+    id: string,
+    keyId: string,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<OrganizationApiKeySecret>> =>
+    api.post(
+      API_ENDPOINTS.ORGANIZATIONS.REVEAL_API_KEY(id, keyId),
+      {},
+      { signal: signal as GenericAbortSignal }
+    ),
+
+  rotateOrganizationApiKey: (
+    id: string,
+    keyId: string,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<OrganizationApiKeySecret>> =>
+    api.post(
+      API_ENDPOINTS.ORGANIZATIONS.ROTATE_API_KEY(id, keyId),
+      {},
+      { signal: signal as GenericAbortSignal }
+    ),
+
+  revokeOrganizationApiKey: (
+    id: string,
+    keyId: string,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<void>> =>
+    api.delete(API_ENDPOINTS.ORGANIZATIONS.API_KEY_BY_ID(id, keyId), {
+      signal: signal as GenericAbortSignal,
+    }),
+
   // ────────────────────────────────────────
   // Domain Management
   // ────────────────────────────────────────
@@ -615,7 +684,9 @@ export const apiHelpers = {
   getOrganizationDomains: (
     organizationId: string,
     signal?: AbortSignal
-  ): Promise<AxiosResponse<OrganizationDomainsArrayResponse>> =>
+  ): Promise<
+    AxiosResponse<OrganizationDomainsArrayResponse | PaginatedResponse<Domain>>
+  > =>
     api.get(API_ENDPOINTS.DOMAINS.BASE, {
       params: { organization_id: organizationId },
       signal: signal as GenericAbortSignal,
@@ -754,7 +825,7 @@ export const apiHelpers = {
     signal?: AbortSignal
   ): Promise<AxiosResponse<void>> =>
     api.delete(
-      `${API_ENDPOINTS.SUBSCRIPTIONS.BY_ID(id)}${reason ? `?reason=${reason}` : ''}`,
+      `${API_ENDPOINTS.SUBSCRIPTIONS.BY_ID(id)}${reason ? `?reason=${encodeURIComponent(reason)}` : ''}`,
       {
         signal: signal as GenericAbortSignal,
       }
@@ -807,6 +878,14 @@ export const apiHelpers = {
       signal: signal as GenericAbortSignal,
     }),
 
+  getProduct: (
+    id: number,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<Product>> =>
+    api.get(API_ENDPOINTS.PRODUCTS.BY_ID(String(id)), {
+      signal: signal as GenericAbortSignal,
+    }),
+
   createProduct: (
     data: CreateProductRequest,
     signal?: AbortSignal
@@ -824,6 +903,14 @@ export const apiHelpers = {
       signal: signal as GenericAbortSignal,
     }),
 
+  deleteProduct: (
+    id: number,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<void>> =>
+    api.delete(API_ENDPOINTS.PRODUCTS.BY_ID(String(id)), {
+      signal: signal as GenericAbortSignal,
+    }),
+
   // ────────────────────────────────────────
   // Product Tiers
   // ────────────────────────────────────────
@@ -859,6 +946,35 @@ export const apiHelpers = {
       }
     ),
 
+  createProductTier: (
+    productId: string,
+    data: CreateProductTierRequest,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<ProductTier>> =>
+    api.post(API_ENDPOINTS.PRODUCT_TIERS.BY_PRODUCT(productId), data, {
+      signal: signal as GenericAbortSignal,
+    }),
+
+  updateProductTier: (
+    tierId: string,
+    data: UpdateProductTierRequest,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<ProductTier>> =>
+    api.patch(API_ENDPOINTS.PRODUCT_TIERS.BY_ID(tierId), data, {
+      signal: signal as GenericAbortSignal,
+    }),
+
+  reorderProductTiers: (
+    productId: string,
+    tierIds: string[],
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<{ tiers: ProductTier[] }>> =>
+    api.put(
+      API_ENDPOINTS.PRODUCT_TIERS.REORDER(productId),
+      { tier_ids: tierIds },
+      { signal: signal as GenericAbortSignal }
+    ),
+
   // ────────────────────────────────────────
   // Audit Log
   // ────────────────────────────────────────
@@ -880,6 +996,14 @@ export const apiHelpers = {
       signal: signal as GenericAbortSignal,
     }),
 
+  createAuditLog: (
+    data: CreateAuditLogRequest,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<AuditLog>> =>
+    api.post(API_ENDPOINTS.AUDIT_LOGS.BASE, data, {
+      signal: signal as GenericAbortSignal,
+    }),
+
   // ────────────────────────────────────────
   // Health checks
   // ────────────────────────────────────────
@@ -4,7 +4,7 @@
  * Description: Axios configuration and API helper functions for Transcripts service
  * Author: Muhammad Abubakar Khan
  * Created: 17-07-2025
- * Last Updated: 21-07-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
@@ -22,6 +22,15 @@ import { addApiResponseInterceptor } from './apiErrorUtils';
 // Types and Interfaces
 // ────────────────────────────────────────
 
+// Quality scores reported by the extraction service, when available
+export interface TranscriptProcessingMetadata {
+  first_pass_confidence?: number | null;
+  final_pass_confidence?: number | null;
+  improvement_score?: number | null;
+  extraction_quality_score?: number | null;
+  processing_warnings?: string[];
+}
+
 // Type for the new /jobs_diagnostics endpoint response
 export interface JobDiagnosticsResponse {
   id: number;
@@ -29,6 +38,7 @@ export interface JobDiagnosticsResponse {
   documents: {
     id: string;
     document_type: string;
+    original_filename?: string;
     status: 'processing' | 'completed' | 'failed';
     result?: {
       pass_1_extraction: any;
@@ -38,9 +48,38 @@ export interface JobDiagnosticsResponse {
       code: string;
       message: string;
     };
+    processing_metadata?: TranscriptProcessingMetadata;
   }[];
   created_timestamp: string;
+  processing_started_timestamp?: string | null;
+  processing_completed_timestamp?: string | null;
   processing_duration_seconds: number;
+  // Set once a reviewer approves the job
+  human_verified?: boolean;
+  verified_by?: string | null;
+  verified_at?: string | null;
+}
+
+export type JobDiagnosticsDocument =
+  JobDiagnosticsResponse['documents'][number];
+
+// A reviewer-corrected copy of a document's final pass
+export interface ExtractionRevision {
+  id: number;
+  document_id: string;
+  revision_number: number;
+  data: Record<string, unknown>;
+  // Dot-separated paths of the fields the reviewer confirmed
+  reviewed_fields: string[];
+  comment: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreateExtractionRevisionRequest {
+  data: Record<string, unknown>;
+  reviewed_fields: string[];
+  comment?: string;
 }
 
 // Interfaces for the /jobs endpoint
@@ -64,6 +103,28 @@ export interface Job {
 
 export type JobsApiResponse = Job[];
 
+export type JobSortField = 'upload_timestamp' | 'processing_duration_seconds';
+
+// Query parameters accepted by the jobs list endpoint
+export interface JobsListParams {
+  page?: number;
+  page_size?: number;
+  status?: string;
+  filename?: string;
+  start_date?: string;
+  end_date?: string;
+  organization_id?: string;
+  sort_by?: JobSortField;
+  sort_order?: 'asc' | 'desc';
+}
+
+export interface PaginatedJobsResponse {
+  items: Job[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
 // ────────────────────────────────────────
 // API Endpoints Configuration
 // ────────────────────────────────────────
@@ -74,6 +135,10 @@ const API_ENDPOINTS = {
     SUBMIT_JOB: '/jobs_diagnostics',
     GET_JOB_STATUS: (jobId: number): string => `/jobs_diagnostics?ids=${jobId}`,
     LIST_JOBS: '/jobs_diagnostics',
+    DOCUMENT_REVISIONS: (jobId: number, documentId: string): string =>
+      `/jobs_diagnostics/${jobId}/documents/${encodeURIComponent(documentId)}/revisions`,
+    APPROVE_JOB: (jobId: number): string =>
+      `/jobs_diagnostics/${jobId}/approve`,
   },
 } as const;
 
@@ -248,9 +313,63 @@ export const transcriptsApiHelpers = {
   },
 
   // --- Jobs List --- //
-  getJobsList: (): Promise<AxiosResponse<JobsApiResponse>> => {
-    // This now correctly uses the transcriptsApi instance
-    return transcriptsApi.get(API_ENDPOINTS.TRANSCRIPTS.LIST_JOBS);
+  getJobsList: (
+    params: JobsListParams = {},
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<PaginatedJobsResponse>> => {
+    return transcriptsApi
+      .get<PaginatedJobsResponse | unknown[]>(
+        API_ENDPOINTS.TRANSCRIPTS.LIST_JOBS,
+        {
+          params,
+          signal: signal as GenericAbortSignal,
+        }
+      )
+      .then(response => {
+        // A bare array means the server predates paging and ignored the query
+        if (Array.isArray(response.data)) {
+          throw new Error(
+            'The transcripts service does not support paging the jobs list. Please update the service to view jobs.'
+          );
+        }
+        return response as AxiosResponse<PaginatedJobsResponse>;
+      });
+  },
+
+  // --- Human Review --- //
+  getDocumentRevisions: (
+    jobId: number,
+    documentId: string,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<ExtractionRevision[]>> => {
+    return transcriptsApi.get(
+      API_ENDPOINTS.TRANSCRIPTS.DOCUMENT_REVISIONS(jobId, documentId),
+      { signal: signal as GenericAbortSignal }
+    );
+  },
+
+  createDocumentRevision: (
+    jobId: number,
+    documentId: string,
+    revision: CreateExtractionRevisionRequest,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<ExtractionRevision>> => {
+    return transcriptsApi.post(
+      API_ENDPOINTS.TRANSCRIPTS.DOCUMENT_REVISIONS(jobId, documentId),
+      revision,
+      { signal: signal as GenericAbortSignal }
+    );
+  },
+
+  approveJob: (
+    jobId: number,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<JobDiagnosticsResponse>> => {
+    return transcriptsApi.post(
+      API_ENDPOINTS.TRANSCRIPTS.APPROVE_JOB(jobId),
+      {},
+      { signal: signal as GenericAbortSignal }
+    );
   },
 };
 
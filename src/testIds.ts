@@ -68,6 +68,7 @@ export const TestIds = {
     product: 'filter-form-product',
     tier: 'filter-form-tier',
     entityType: 'filter-form-entity-type',
+    entityId: 'filter-form-entity-id',
     action: 'filter-form-action',
     dateFrom: 'filter-form-date-from',
     dateTo: 'filter-form-date-to',
@@ -116,6 +117,8 @@ export const TestIds = {
       `organizations-view-details-${orgId}`,
     edit: (orgId: string | number) => `organizations-edit-${orgId}`,
     delete: (orgId: string | number) => `organizations-delete-${orgId}`,
+    estimatedAcv: (orgId: string | number) =>
+      `organizations-estimated-acv-${orgId}`,
     updateStatus: (orgId: string | number) =>
       `organizations-update-status-${orgId}`,
     viewMetrics: (orgId: string | number) =>
@@ -180,8 +183,65 @@ export const TestIds = {
       container: 'organizations-view-dialog',
       title: 'organizations-view-dialog-title',
       closeButton: 'organizations-view-close-button',
-      apiKeyButton: 'organizations-view-api-key-btn',
-      apiKeyDisplay: 'organizations-view-api-key-display',
+      apiKeysTab: 'organizations-view-api-keys-tab',
+      deleteSubscription: (subId: string) =>
+        `organizations-view-delete-subscription-${subId}`,
+      metricsTab: 'organizations-view-metrics-tab',
+      membersTab: 'organizations-view-members-tab',
+    },
+
+    // API Keys Tab
+    apiKeys: {
+      container: 'organizations-api-keys',
+      nameInput: 'organizations-api-keys-name-input',
+      createButton: 'organizations-api-keys-create-button',
+      row: (keyId: string) => `organizations-api-keys-row-${keyId}`,
+      keyDisplay: (keyId: string) =>
+        `organizations-api-keys-key-display-${keyId}`,
+      revealButton: (keyId: string) =>
+        `organizations-api-keys-reveal-button-${keyId}`,
+      copyButton: (keyId: string) =>
+        `organizations-api-keys-copy-button-${keyId}`,
+      rotateButton: (keyId: string) =>
+        `organizations-api-keys-rotate-button-${keyId}`,
+      revokeButton: (keyId: string) =>
+        `organizations-api-keys-revoke-button-${keyId}`,
+      auditLogLink: 'organizations-api-keys-audit-log-link',
+      confirmDialog: 'organizations-api-keys-confirm-dialog',
+      confirmSubmit: 'organizations-api-keys-confirm-submit',
+      confirmCancel: 'organizations-api-keys-confirm-cancel',
+    },
+
+    // Members Tab
+    members: {
+      container: 'organizations-members',
+      table: 'organizations-members-table',
+      inviteButton: 'organizations-members-invite-button',
+      roleSelect: (userId: number) =>
+        `organizations-members-role-select-${userId}`,
+      statusSelect: (userId: number) =>
+        `organizations-members-status-select-${userId}`,
+    },
+
+    // Metrics Tab
+    metrics: {
+      container: 'organizations-metrics',
+      users: 'organizations-metrics-users',
+      activeSubscriptions: 'organizations-metrics-active-subscriptions',
+      totalUsage: 'organizations-metrics-total-usage',
+      productUsage: (productId: string) =>
+        `organizations-metrics-product-usage-${productId}`,
+      error: 'organizations-metrics-error',
+    },
+
+    // Delete Dialog
+    deleteDialog: {
+      container: 'organizations-delete-dialog',
+      dependencies: 'organizations-delete-dependencies',
+      confirmInput: 'organizations-delete-confirm-input',
+      submit: 'organizations-delete-submit',
+      cancel: 'organizations-delete-cancel',
+      error: 'organizations-delete-error',
     },
   },
 
@@ -195,8 +255,18 @@ export const TestIds = {
     deactivate: (id: number) => `users-deactivate-${id}`,
     updateRole: (userId: number) => `users-update-role-${userId}`,
     updateStatus: (userId: number) => `users-update-status-${userId}`,
+    statusAction: (userId: number, status: string) =>
+      `users-status-action-${userId}-${status}`,
     recordLogin: (userId: number) => `users-record-login-${userId}`,
 
+    // Role/Status Change Confirmation
+    changeDialog: {
+      container: 'users-change-dialog',
+      message: 'users-change-dialog-message',
+      confirm: 'users-change-dialog-confirm',
+      cancel: 'users-change-dialog-cancel',
+    },
+
     // Create Dialog
     createDialog: {
       container: 'users-create-dialog',
@@ -301,6 +371,67 @@ export const TestIds = {
       title: 'subscriptions-view-dialog-title',
       closeButton: 'subscriptions-view-close-button',
     },
+
+    // Usage Panel
+    usagePanel: {
+      periodSelect: 'subscriptions-usage-period-select',
+      periodOption: (days: number) =>
+        `subscriptions-usage-period-option-${days}`,
+      totalUsage: 'subscriptions-usage-total',
+      eventsCount: 'subscriptions-usage-events-count',
+      usagePercentage: 'subscriptions-usage-percentage',
+      whatIfQuantity: 'subscriptions-usage-what-if-quantity',
+      limitsResult: 'subscriptions-usage-limits-result',
+    },
+
+    // Status Dialog
+    statusDialog: {
+      container: 'subscriptions-status-dialog',
+      transitionOption: (status: string) =>
+        `subscriptions-status-transition-option-${status}`,
+      reason: 'subscriptions-status-reason',
+      submit: 'subscriptions-status-submit',
+      cancel: 'subscriptions-status-cancel',
+      error: 'subscriptions-status-error',
+    },
+
+    // Delete Dialog
+    deleteDialog: {
+      container: 'subscriptions-delete-dialog',
+      currentUsage: 'subscriptions-delete-current-usage',
+      reason: 'subscriptions-delete-reason',
+      confirm: 'subscriptions-delete-confirm',
+      cancel: 'subscriptions-delete-cancel',
+      error: 'subscriptions-delete-error',
+    },
+
+    // Status Timeline
+    statusTimeline: {
+      container: 'subscriptions-status-timeline',
+      entry: (index: number) => `subscriptions-status-timeline-entry-${index}`,
+    },
+
+    // Record Usage Dialog
+    recordUsageDialog: {
+      container: 'subscriptions-record-usage-dialog',
+      eventType: 'subscriptions-record-usage-event-type',
+      eventTypeOption: (eventType: string) =>
+        `subscriptions-record-usage-event-type-option-${eventType}`,
+      quantity: 'subscriptions-record-usage-quantity',
+      addMetadata: 'subscriptions-record-usage-add-metadata',
+      metadataKey: (index: number) =>
+        `subscriptions-record-usage-metadata-key-${index}`,
+      metadataValue: (index: number) =>
+        `subscriptions-record-usage-metadata-value-${index}`,
+      removeMetadata: (index: number) =>
+        `subscriptions-record-usage-remove-metadata-${index}`,
+      limitsWarning: 'subscriptions-record-usage-limits-warning',
+      overrideCheckbox: 'subscriptions-record-usage-override-checkbox',
+      overrideReason: 'subscriptions-record-usage-override-reason',
+      submit: 'subscriptions-record-usage-submit',
+      cancel: 'subscriptions-record-usage-cancel',
+      error: 'subscriptions-record-usage-error',
+    },
   },
 
   // Transcripts
@@ -314,6 +445,20 @@ export const TestIds = {
     progressBar: 'transcripts-progress-bar',
     detailedResultsButton: 'transcripts-detailed-results-button',
     retryButton: 'transcripts-retry-button',
+    dropZone: 'transcripts-drop-zone',
+
+    // Upload Queue
+    queue: {
+      container: 'transcripts-queue',
+      summary: 'transcripts-queue-summary',
+      row: (itemId: string) => `transcripts-queue-row-${itemId}`,
+      status: (itemId: string) => `transcripts-queue-status-${itemId}`,
+      error: (itemId: string) => `transcripts-queue-error-${itemId}`,
+      viewButton: (itemId: string) => `transcripts-queue-view-${itemId}`,
+      retryButton: (itemId: string) => `transcripts-queue-retry-${itemId}`,
+      cancelButton: (itemId: string) => `transcripts-queue-cancel-${itemId}`,
+      removeButton: (itemId: string) => `transcripts-queue-remove-${itemId}`,
+    },
 
     // Processing Information
     processingInfo: {
@@ -322,6 +467,9 @@ export const TestIds = {
       processingTime: 'transcripts-processing-time',
       firstPassConfidence: 'transcripts-first-pass-confidence',
       finalPassConfidence: 'transcripts-final-pass-confidence',
+      extractionQuality: 'transcripts-extraction-quality',
+      lowConfidence: 'transcripts-low-confidence',
+      warnings: 'transcripts-processing-warnings',
     },
 
     // Analysis Results
@@ -334,9 +482,50 @@ export const TestIds = {
       academicSummaryTable: 'transcripts-academic-summary-table',
       dynamicTable: (passType: string, sectionKey: string) =>
         `transcripts-table-${passType}-${sectionKey}`,
+      sideBySideTab: 'transcripts-results-side-by-side-tab',
+      changesTab: 'transcripts-results-changes-tab',
+      reviewTab: 'transcripts-results-review-tab',
+
+      // Pass 1 vs pass 2 comparison
+      diff: {
+        container: 'transcripts-diff-container',
+        summary: 'transcripts-diff-summary',
+        showUnchanged: 'transcripts-diff-show-unchanged',
+        table: 'transcripts-diff-table',
+        row: (fieldPath: string) => `transcripts-diff-row-${fieldPath}`,
+      },
     },
   },
 
+  // Transcript Review
+  transcriptReview: {
+    container: (documentId: string) => `transcript-review-${documentId}`,
+    fieldRow: (fieldKey: string) => `transcript-review-field-${fieldKey}`,
+    fieldInput: (fieldKey: string) =>
+      `transcript-review-field-input-${fieldKey}`,
+    fieldConfidence: (fieldKey: string) =>
+      `transcript-review-field-confidence-${fieldKey}`,
+    fieldReviewed: (fieldKey: string) =>
+      `transcript-review-field-reviewed-${fieldKey}`,
+    markAllReviewed: 'transcript-review-mark-all-reviewed',
+    comment: 'transcript-review-comment',
+    discardButton: 'transcript-review-discard-button',
+    saveButton: 'transcript-review-save-button',
+    history: 'transcript-review-history',
+    approveButton: 'transcript-review-approve-button',
+    verifiedChip: 'transcript-review-verified-chip',
+  },
+
+  // Transcript Export
+  transcriptExport: {
+    button: (jobId: string | number) => `transcript-export-button-${jobId}`,
+    menu: (jobId: string | number) => `transcript-export-menu-${jobId}`,
+    json: 'transcript-export-json',
+    fieldsCsv: 'transcript-export-fields-csv',
+    coursesCsv: 'transcript-export-courses-csv',
+    printReport: 'transcript-export-print-report',
+  },
+
   // Products
   products: {
     page: 'products-page',
@@ -345,6 +534,9 @@ export const TestIds = {
     viewDetails: (productId: number) => `products-view-details-${productId}`,
     edit: (productId: number) => `products-edit-${productId}`,
     delete: (productId: number) => `products-delete-${productId}`,
+    tierChips: (productId: number) => `products-tier-chips-${productId}`,
+    status: (productId: number) => `products-status-${productId}`,
+    toggleStatus: (productId: number) => `products-toggle-status-${productId}`,
 
     // Create Dialog
     createDialog: {
@@ -352,6 +544,8 @@ export const TestIds = {
       title: 'products-create-dialog-title',
       name: 'products-create-name',
       description: 'products-create-description',
+      price: 'products-create-price',
+      currency: 'products-create-currency',
       submit: 'products-create-submit',
       cancel: 'products-create-cancel',
     },
@@ -362,6 +556,8 @@ export const TestIds = {
       title: 'products-edit-dialog-title',
       name: 'products-edit-name',
       description: 'products-edit-description',
+      price: 'products-edit-price',
+      currency: 'products-edit-currency',
       submit: 'products-edit-submit',
       cancel: 'products-edit-cancel',
     },
@@ -373,6 +569,59 @@ export const TestIds = {
       editButton: 'products-view-edit-button',
       closeButton: 'products-view-close-button',
     },
+
+    // Delete Dialog
+    deleteDialog: {
+      container: 'products-delete-dialog',
+      activeSubscriptions: 'products-delete-active-subscriptions',
+      confirmInput: 'products-delete-confirm-input',
+      submit: 'products-delete-submit',
+      cancel: 'products-delete-cancel',
+      error: 'products-delete-error',
+    },
+
+    // Features Editor
+    features: {
+      container: 'products-features',
+      table: 'products-features-table',
+      addButton: 'products-features-add-button',
+      key: (index: number) => `products-features-key-${index}`,
+      description: (index: number) => `products-features-description-${index}`,
+      tierToggle: (index: number, tierName: string) =>
+        `products-features-tier-toggle-${index}-${tierName}`,
+      remove: (index: number) => `products-features-remove-${index}`,
+    },
+
+    // Settings Editor
+    settings: {
+      container: 'products-settings',
+      input: 'products-settings-input',
+      errors: 'products-settings-errors',
+    },
+
+    // Tier Manager
+    tiers: {
+      container: 'products-tiers',
+      createButton: 'products-tiers-create-button',
+      table: 'products-tiers-table',
+      row: (tierId: string) => `products-tiers-row-${tierId}`,
+      edit: (tierId: string) => `products-tiers-edit-${tierId}`,
+      toggleStatus: (tierId: string) =>
+        `products-tiers-toggle-status-${tierId}`,
+      moveUp: (tierId: string) => `products-tiers-move-up-${tierId}`,
+      moveDown: (tierId: string) => `products-tiers-move-down-${tierId}`,
+      comparisonTable: 'products-tiers-comparison-table',
+      dialog: {
+        container: 'products-tier-dialog',
+        tierName: 'products-tier-dialog-tier-name',
+        displayName: 'products-tier-dialog-display-name',
+        maxLimit: 'products-tier-dialog-max-limit',
+        price: 'products-tier-dialog-price',
+        currency: 'products-tier-dialog-currency',
+        submit: 'products-tier-dialog-submit',
+        cancel: 'products-tier-dialog-cancel',
+      },
+    },
   },
 
   // Audit Log
@@ -381,6 +630,7 @@ export const TestIds = {
     table: 'audit-log-table',
     viewDetails: (logId: string) => `audit-log-view-details-${logId}`,
     expandDetails: (logId: string) => `audit-log-expand-details-${logId}`,
+    entityLink: (logId: string) => `audit-log-entity-link-${logId}`,
 
     // View Dialog
     viewDialog: {
@@ -399,6 +649,7 @@ export const TestIds = {
     loadingSpinner: 'common-loading-spinner',
     errorAlert: 'common-error-alert',
     successAlert: 'common-success-alert',
+    accessDenied: 'common-access-denied',
   },
 
   // Domain management
@@ -408,8 +659,29 @@ export const TestIds = {
   editDomainButton: 'edit-domain-button',
   updateDomainButton: 'update-domain-button',
   deleteDomainButton: 'delete-domain-button',
-  addSubdomainButton: 'add-subdomain-button',
+  addSubdomainButton: (domainId: string | number) =>
+    `add-subdomain-button-${domainId}`,
+  domainRow: (domainId: string | number) => `domain-row-${domainId}`,
+  toggleSubdomainsButton: (domainId: string | number) =>
+    `toggle-subdomains-button-${domainId}`,
   domainManagementSection: 'domain-management-section',
+  viewDomainButton: (domainId: string | number) =>
+    `view-domain-button-${domainId}`,
+  pendingDomainsAlert: 'pending-domains-alert',
+
+  // Domain Details Drawer
+  domainDetails: {
+    drawer: 'domain-details-drawer',
+    closeButton: 'domain-details-close-button',
+    status: 'domain-details-status',
+    verificationRecord: (type: string) =>
+      `domain-details-verification-record-${type}`,
+    copyRecordButton: (type: string) =>
+      `domain-details-copy-record-button-${type}`,
+    verifyButton: 'domain-details-verify-button',
+    sslStatus: 'domain-details-ssl-status',
+    sslExpiry: 'domain-details-ssl-expiry',
+  },
 
   // Organizations Dropdown
   organizationsDropdown: {
@@ -426,6 +698,56 @@ export const TestIds = {
     refreshButton: 'jobs-refresh-button',
     jobsTable: 'jobs-table',
     jobRow: (jobId: string | number) => `jobs-job-row-${jobId}`,
+    sortBy: (field: string) => `jobs-sort-by-${field}`,
+    pagination: 'jobs-pagination',
+
+    // Filters
+    filters: {
+      container: 'jobs-filters',
+      filename: 'jobs-filter-filename',
+      status: 'jobs-filter-status',
+      startDate: 'jobs-filter-start-date',
+      endDate: 'jobs-filter-end-date',
+      organizationPrefix: 'jobs-filter-organization',
+      clearButton: 'jobs-filters-clear-button',
+    },
+
+    // Job Details
+    details: {
+      page: 'job-details-page',
+      backButton: 'job-details-back-button',
+      refreshButton: 'job-details-refresh-button',
+      pollingIndicator: 'job-details-polling-indicator',
+      loadingSpinner: 'job-details-loading-spinner',
+      errorAlert: 'job-details-error-alert',
+      summary: 'job-details-summary',
+      status: 'job-details-status',
+      processingTime: 'job-details-processing-time',
+      document: {
+        container: (documentId: string) => `job-details-document-${documentId}`,
+        filename: (documentId: string) =>
+          `job-details-document-filename-${documentId}`,
+        type: (documentId: string) => `job-details-document-type-${documentId}`,
+        status: (documentId: string) =>
+          `job-details-document-status-${documentId}`,
+        error: (documentId: string) =>
+          `job-details-document-error-${documentId}`,
+        pass: (documentId: string, passType: string) =>
+          `job-details-document-${documentId}-${passType}-pass`,
+        passTable: (documentId: string, passType: string, sectionKey: string) =>
+          `job-details-document-${documentId}-table-${passType}-${sectionKey}`,
+      },
+    },
+
+    // Printable Report
+    report: {
+      page: 'job-report-page',
+      loadingSpinner: 'job-report-loading-spinner',
+      errorAlert: 'job-report-error-alert',
+      printButton: 'job-report-print-button',
+      fileInfo: 'job-report-file-info',
+      document: (documentId: string) => `job-report-document-${documentId}`,
+    },
   },
 };
 
@@ -8,6 +8,8 @@
  * ──────────────────────────────────────────────────
  */
 
+import type { TranscriptProcessingMetadata } from '../services/transcriptsApi';
+
 // ────────────────────────────────────────
 // API Response Types
 // ────────────────────────────────────────
@@ -46,6 +48,25 @@ export interface Domain {
   user_id?: number | null; // Add this field
 }
 
+export interface DnsVerificationRecord {
+  type: 'TXT' | 'CNAME';
+  host: string;
+  value: string;
+}
+
+export type SslCertificateStatus =
+  | 'missing'
+  | 'valid'
+  | 'expiring'
+  | 'expired'
+  | 'unknown';
+
+export interface SslCertificateInfo {
+  status: SslCertificateStatus;
+  expires_at: Date | null;
+  issuer: string | null;
+}
+
 export interface CreateDomainRequest {
   organization_id: string;
   domain_name: string;
@@ -159,6 +180,20 @@ export interface OrganizationMetrics {
   error?: string;
 }
 
+export interface OrganizationApiKey {
+  id: string | number;
+  name: string;
+  masked_key?: string;
+  status?: 'active' | 'revoked';
+  created_at: string;
+  last_used_at?: string | null;
+}
+
+// Returned only when a key is created, revealed or rotated
+export interface OrganizationApiKeySecret extends OrganizationApiKey {
+  api_key: string;
+}
+
 // New interface for the updated organization format
 export interface OrganizationV2 {
   id: number;
@@ -192,13 +227,20 @@ export interface UserRoles {
 // User Types
 // ────────────────────────────────────────
 
+export type UserStatus =
+  | 'active'
+  | 'inactive'
+  | 'pending'
+  | 'invited'
+  | 'suspended';
+
 export interface User {
   id: number; // Changed from string to number
   email: string;
   first_name: string | null;
   last_name: string | null;
   role: 'global_admin' | 'tenant_admin';
-  status: 'active' | 'inactive' | 'pending' | 'invited';
+  status: UserStatus;
   organization_id: number;
   domain_id?: number;
   created_at: string;
@@ -222,7 +264,7 @@ export interface UpdateUserRequest {
   first_name?: string;
   last_name?: string;
   role?: 'global_admin' | 'tenant_admin';
-  status?: 'active' | 'inactive' | 'pending' | 'invited';
+  status?: UserStatus;
   organization_id?: number;
 }
 
@@ -230,17 +272,19 @@ export interface UpdateUserRequest {
 // Subscription Types
 // ────────────────────────────────────────
 
+export type SubscriptionStatus =
+  | 'active'
+  | 'inactive'
+  | 'trial'
+  | 'expired'
+  | 'cancelled'
+  | 'suspended';
+
 export interface Subscription {
   id: string;
   organization_id: number;
   product_id: string;
-  status:
-    | 'active'
-    | 'inactive'
-    | 'trial'
-    | 'expired'
-    | 'cancelled'
-    | 'suspended';
+  status: SubscriptionStatus;
   // Support both old and new field names for backward compatibility
   tier_name?: string;
   tier?: string;
@@ -267,31 +311,36 @@ export interface CreateSubscriptionRequest {
 }
 
 export interface UpdateSubscriptionRequest {
-  status?:
-    | 'active'
-    | 'inactive'
-    | 'trial'
-    | 'expired'
-    | 'cancelled'
-    | 'suspended';
+  status?: SubscriptionStatus;
   tier?: string;
   auto_renewal?: boolean;
   ends_at?: string | null;
 }
 
 export interface SubscriptionStatusRequest {
-  status:
-    | 'active'
-    | 'inactive'
-    | 'trial'
-    | 'expired'
-    | 'cancelled'
-    | 'suspended';
+  status: SubscriptionStatus;
   reason?: string;
 }
 
+export interface SubscriptionStatusTransition {
+  from: SubscriptionStatus | null;
+  to: SubscriptionStatus;
+  reason: string | null;
+  performed_by: string;
+  created_at: string;
+}
+
+// Usage event types that can be recorded against a subscription; keep in
+// sync with the event types the usage service accepts
+export const USAGE_EVENT_TYPES = {
+  transcript_processed: 'Transcript Processed',
+  manual_adjustment: 'Manual Adjustment',
+} as const;
+
+export type UsageEventType = keyof typeof USAGE_EVENT_TYPES;
+
 export interface UsageEventRequest {
-  event_type: string;
+  event_type: UsageEventType;
   quantity: number;
   metadata?: Record<string, unknown>;
 }
@@ -331,6 +380,12 @@ export interface PaginatedSubscriptionsResponse {
 // Product Types
 // ────────────────────────────────────────
 
+export interface ProductFeature {
+  key: string;
+  description: string;
+  enabled_tiers: string[]; // Tier names the feature is enabled for
+}
+
 export interface Product {
   id: string | number;
   name: string;
@@ -338,10 +393,10 @@ export interface Product {
   product_type?: string; // Optional for backward compatibility
   description: string | null;
   is_active?: boolean; // Optional for backward compatibility
-  features?: any[]; // Optional for backward compatibility
+  features?: Array<ProductFeature | string>; // Legacy products list bare keys
   settings?: Record<string, any>; // Optional for backward compatibility
   // Keep existing fields for backward compatibility
-  price?: number;
+  price?: number | null;
   currency?: string;
   status?: 'Active' | 'Inactive';
   created_at: string;
@@ -353,14 +408,18 @@ export interface CreateProductRequest {
   description: string;
   price?: number;
   currency?: string;
+  features?: ProductFeature[];
+  settings?: Record<string, unknown>;
 }
 
 export interface UpdateProductRequest {
   name?: string;
   description?: string;
-  price?: number;
+  price?: number | null; // null clears the price
   currency?: string;
   status?: 'Active' | 'Inactive';
+  features?: ProductFeature[];
+  settings?: Record<string, unknown>;
 }
 
 // ────────────────────────────────────────
@@ -376,10 +435,30 @@ export interface ProductTier {
   price: number;
   currency: string;
   status: 'Active' | 'Inactive';
+  sort_order?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface CreateProductTierRequest {
+  tier_name: string;
+  display_name: string;
+  max_limit: number;
+  price: number;
+  currency: string;
+  status?: 'Active' | 'Inactive';
+  sort_order?: number;
+}
+
+export interface UpdateProductTierRequest {
+  display_name?: string;
+  max_limit?: number;
+  price?: number;
+  currency?: string;
+  status?: 'Active' | 'Inactive';
+  sort_order?: number;
+}
+
 export interface ProductTiersResponse {
   total: number;
   page: number;
@@ -426,6 +505,13 @@ export interface AuditLog {
   created_at: string;
 }
 
+export interface CreateAuditLogRequest {
+  entity_type: string;
+  entity_id: string;
+  action: string;
+  details?: Record<string, unknown>;
+}
+
 export interface AuditLogEntry {
   id: string;
   entity_type: string;
@@ -448,8 +534,11 @@ export interface FilterParams {
   organization_id?: string;
   user_id?: string;
   product_id?: string;
+  status_filter?: string;
   event_type?: string;
   action?: string;
+  entity_type?: string;
+  entity_id?: string;
   resource_type?: string;
   start_date?: string;
   end_date?: string;
@@ -675,6 +764,7 @@ export interface JobDiagnosticsResponse {
   documents: {
     id: string;
     document_type: string;
+    original_filename?: string;
     status: 'processing' | 'completed' | 'failed';
     result?: {
       pass_1_extraction: any;
@@ -684,8 +774,11 @@ export interface JobDiagnosticsResponse {
       code: string;
       message: string;
     };
+    processing_metadata?: TranscriptProcessingMetadata;
   }[];
   created_timestamp: string;
+  processing_started_timestamp?: string | null;
+  processing_completed_timestamp?: string | null;
   processing_duration_seconds: number;
 }
 
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffAnalysisPasses,
+  formatDiffPath,
+  formatDiffValue,
+  summarizeAnalysisDiff,
+} from './analysisDiff';
+
+describe('diffAnalysisPasses', () => {
+  it('classifies added, removed, changed and unchanged fields', () => {
+    const diffs = diffAnalysisPasses(
+      { name: 'Ada', gpa: 3.2, major: 'Math', minor: '' },
+      { name: 'Ada', gpa: 3.4, minor: 'Physics' }
+    );
+
+    expect(diffs.map(diff => [diff.path.join('.'), diff.kind])).toEqual([
+      ['name', 'unchanged'],
+      ['gpa', 'changed'],
+      ['major', 'removed'],
+      ['minor', 'added'],
+    ]);
+  });
+
+  it('walks arrays of objects item by item', () => {
+    const diffs = diffAnalysisPasses(
+      { courses: [{ code: 'CS101' }] },
+      { courses: [{ code: 'CS101' }, { code: 'CS102' }] }
+    );
+
+    expect(diffs).toEqual([
+      {
+        path: ['courses', 0, 'code'],
+        kind: 'unchanged',
+        before: 'CS101',
+        after: 'CS101',
+      },
+      {
+        path: ['courses', 1, 'code'],
+        kind: 'added',
+        before: undefined,
+        after: 'CS102',
+      },
+    ]);
+  });
+
+  it('compares plain arrays as one value and skips metadata keys', () => {
+    const diffs = diffAnalysisPasses(
+      { honors: ['Dean'], _confidence: 0.5 },
+      { honors: ['Dean', 'Cum Laude'], _confidence: 0.9 }
+    );
+
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]).toMatchObject({ path: ['honors'], kind: 'changed' });
+  });
+
+  it('reports a value that switched between nested and plain data', () => {
+    expect(
+      diffAnalysisPasses({ address: '1 Main St' }, { address: { city: 'X' } })
+    ).toEqual([
+      {
+        path: ['address'],
+        kind: 'changed',
+        before: '1 Main St',
+        after: { city: 'X' },
+      },
+    ]);
+  });
+
+  it('ignores fields empty in both passes', () => {
+    expect(diffAnalysisPasses({ note: null }, { note: '' })).toEqual([]);
+  });
+});
+
+describe('summarizeAnalysisDiff', () => {
+  it('counts every kind and the corrected total', () => {
+    const summary = summarizeAnalysisDiff(
+      diffAnalysisPasses({ a: 1, b: 2, c: 3 }, { a: 1, b: 5, d: 4 })
+    );
+
+    expect(summary).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 1,
+      corrected: 3,
+      total: 4,
+    });
+  });
+});
+
+describe('formatting', () => {
+  it('labels paths with one-based indexes', () => {
+    expect(formatDiffPath(['degrees', 0, 'major'])).toBe(
+      'Degrees › #1 › Major'
+    );
+  });
+
+  it('formats empty, boolean, list and object values', () => {
+    expect(formatDiffValue(null)).toBe('—');
+    expect(formatDiffValue(true)).toBe('Yes');
+    expect(formatDiffValue(['A', 'B'])).toBe('A, B');
+    expect(formatDiffValue({ a: 1 })).toBe('{"a":1}');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/analysisDiff.ts
+ * Description: Field-by-field comparison of the first and final extraction passes
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { formatFieldName } from './transcriptFormatters';
+
+// ────────────────────────────────────────
+// Types
+// ────────────────────────────────────────
+
+export type FieldChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface AnalysisFieldDiff {
+  /** Keys and array indexes leading to the field */
+  path: Array<string | number>;
+  kind: FieldChangeKind;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AnalysisDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** Fields the correction pass added, removed or changed */
+  corrected: number;
+  total: number;
+}
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Arrays of objects are compared item by item; other arrays as one value
+const isObjectArray = (value: unknown): value is unknown[] =>
+  Array.isArray(value) && value.some(isPlainObject);
+
+export const isNestedValue = (value: unknown): boolean =>
+  isPlainObject(value) || isObjectArray(value);
+
+export const getChildKeys = (value: unknown): Array<string | number> => {
+  if (Array.isArray(value)) return value.map((_, index) => index);
+  if (isPlainObject(value)) {
+    // Keys starting with an underscore (e.g. _confidence) are metadata
+    return Object.keys(value).filter(key => !key.startsWith('_'));
+  }
+  return [];
+};
+
+export const getChildValue = (
+  value: unknown,
+  key: string | number
+): unknown => {
+  if (Array.isArray(value)) return value[key as number];
+  if (isPlainObject(value)) return value[key as string];
+  return undefined;
+};
+
+const valuesEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// ────────────────────────────────────────
+// Diff
+// ────────────────────────────────────────
+
+/**
+ * Walks both passes in parallel and classifies every leaf field
+ *
+ * @example
+ * diffAnalysisPasses({ gpa: 3.2 }, { gpa: 3.4, hours: 120 });
+ * // [{ path: ['gpa'], kind: 'changed', ... }, { path: ['hours'], kind: 'added', ... }]
+ */
+export const diffAnalysisPasses = (
+  before: unknown,
+  after: unknown,
+  path: Array<string | number> = []
+): AnalysisFieldDiff[] => {
+  const beforeIsBranch = isNestedValue(before);
+  const afterIsBranch = isNestedValue(after);
+
+  // A value that switched between nested data and a plain value
+  if (
+    path.length > 0 &&
+    ((beforeIsBranch && !afterIsBranch && !isEmptyValue(after)) ||
+      (afterIsBranch && !beforeIsBranch && !isEmptyValue(before)))
+  ) {
+    return [{ path, kind: 'changed', before, after }];
+  }
+
+  if (beforeIsBranch || afterIsBranch) {
+    const keys = [...getChildKeys(before)];
+    getChildKeys(after).forEach(key => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+
+    return keys.flatMap(key =>
+      diffAnalysisPasses(
+        beforeIsBranch ? getChildValue(before, key) : undefined,
+        afterIsBranch ? getChildValue(after, key) : undefined,
+        [...path, key]
+      )
+    );
+  }
+
+  if (path.length === 0) return [];
+
+  const beforeEmpty = isEmptyValue(before);
+  const afterEmpty = isEmptyValue(after);
+  if (beforeEmpty && afterEmpty) return [];
+
+  let kind: FieldChangeKind = 'unchanged';
+  if (beforeEmpty) {
+    kind = 'added';
+  } else if (afterEmpty) {
+    kind = 'removed';
+  } else if (!valuesEqual(before, after)) {
+    kind = 'changed';
+  }
+
+  return [{ path, kind, before, after }];
+};
+
+export const summarizeAnalysisDiff = (
+  diffs: AnalysisFieldDiff[]
+): AnalysisDiffSummary => {
+  const summary: AnalysisDiffSummary = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    corrected: 0,
+    total: diffs.length,
+  };
+
+  diffs.forEach(diff => {
+    summary[diff.kind] += 1;
+  });
+  summary.corrected = summary.added + summary.removed + summary.changed;
+
+  return summary;
+};
+
+/**
+ * Builds a readable label for a diff path
+ *
+ * @example
+ * formatDiffPath(['degrees', 0, 'degrees_majors']); // "Degrees › #1 › Degrees majors"
+ */
+export const formatDiffPath = (path: Array<string | number>): string =>
+  path
+    .map(segment =>
+      typeof segment === 'number' ? `#${segment + 1}` : formatFieldName(segment)
+    )
+    .join(' › ');
+
+/**
+ * Formats a leaf value for display in the diff table
+ */
+export const formatDiffValue = (value: unknown): string => {
+  if (isEmptyValue(value)) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value) && !isObjectArray(value)) {
+    return value.map(String).join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
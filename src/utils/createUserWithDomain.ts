@@ -0,0 +1,57 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/createUserWithDomain.ts
+ * Description: Creates a user and assigns them to a domain of their organization
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { apiHelpers } from '../services/api';
+import { type CreateUserRequest, type User } from '../types';
+
+// ────────────────────────────────────────
+// User Creation
+// ────────────────────────────────────────
+
+/**
+ * Creates a user, assigns the selected domain to them and copies the
+ * initial password to the clipboard.
+ */
+export const createUserWithDomain = async (
+  formData: CreateUserRequest
+): Promise<User> => {
+  // Step 1: Create user without domain_id
+  const userData: CreateUserRequest = {
+    organization_id: formData.organization_id,
+    email: formData.email,
+    first_name: formData.first_name,
+    last_name: formData.last_name,
+    role: formData.role,
+    ...(formData.password && { password: formData.password }),
+  };
+
+  const userResponse = await apiHelpers.createUser(userData);
+  const newUserId = userResponse.data.id;
+
+  // Step 2: Update the selected domain with the new user_id
+  if (formData.domain_id) {
+    try {
+      await apiHelpers.updateDomain(String(formData.domain_id), {
+        user_id: newUserId,
+      });
+    } catch (domainError) {
+      console.error('Failed to assign domain to user:', domainError);
+      // Optionally delete the user if domain assignment fails
+      // await apiHelpers.deleteUser(newUserId);
+      throw new Error('User created but domain assignment failed');
+    }
+  }
+
+  if (formData.password) {
+    navigator.clipboard.writeText(formData.password);
+  }
+
+  return userResponse.data;
+};
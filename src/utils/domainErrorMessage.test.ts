@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ERROR_MESSAGES } from '../types';
+import { getDomainErrorMessage } from './domainErrorMessage';
+
+describe('getDomainErrorMessage', () => {
+  it('maps an exact API message', () => {
+    expect(
+      getDomainErrorMessage(new Error('Domain already exists'), 'Failed')
+    ).toBe(ERROR_MESSAGES['Domain already exists']);
+  });
+
+  it('prefers the subdomain message over the domain one it contains', () => {
+    expect(
+      getDomainErrorMessage(new Error('Subdomain already exists'), 'Failed')
+    ).toBe(ERROR_MESSAGES['Subdomain already exists']);
+  });
+
+  it('uses the longest key found in a longer detail string', () => {
+    expect(
+      getDomainErrorMessage(
+        new Error('Conflict: subdomain already exists for company.com'),
+        'Failed'
+      )
+    ).toBe(ERROR_MESSAGES['Subdomain already exists']);
+  });
+
+  it('keeps unknown messages as they are', () => {
+    expect(getDomainErrorMessage(new Error('Server exploded'), 'Failed')).toBe(
+      'Server exploded'
+    );
+  });
+
+  it('falls back for non-error values', () => {
+    expect(getDomainErrorMessage('oops', 'Failed to update domain')).toBe(
+      'Failed to update domain'
+    );
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/domainErrorMessage.ts
+ * Description: Maps domain API errors to the user-friendly ERROR_MESSAGES
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { ERROR_MESSAGES } from '../types';
+import { getApiErrorMessage } from './getApiErrorMessage';
+
+type KnownErrorKey = keyof typeof ERROR_MESSAGES;
+
+const KNOWN_ERROR_KEYS = Object.keys(ERROR_MESSAGES) as KnownErrorKey[];
+
+/**
+ * Finds the ERROR_MESSAGES key for an API message. An exact match wins;
+ * otherwise the longest key contained in the message is used, so
+ * "Subdomain already exists" is not mistaken for "Domain already exists".
+ */
+const findKnownErrorKey = (message: string): KnownErrorKey | undefined => {
+  const normalized = message.trim().toLowerCase();
+
+  const exactKey = KNOWN_ERROR_KEYS.find(
+    key => key.toLowerCase() === normalized
+  );
+  if (exactKey) return exactKey;
+
+  return KNOWN_ERROR_KEYS.filter(key =>
+    normalized.includes(key.toLowerCase())
+  ).reduce<KnownErrorKey | undefined>(
+    (longest, key) => (!longest || key.length > longest.length ? key : longest),
+    undefined
+  );
+};
+
+/**
+ * Maps known API error messages (including those embedded in a longer
+ * detail string) to the user-friendly versions in ERROR_MESSAGES
+ */
+export const getDomainErrorMessage = (
+  error: unknown,
+  fallback: string
+): string => {
+  const errorMessage = getApiErrorMessage(error, fallback);
+  const knownKey = findKnownErrorKey(errorMessage);
+
+  return knownKey ? ERROR_MESSAGES[knownKey] : errorMessage;
+};
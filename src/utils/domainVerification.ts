@@ -0,0 +1,168 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/domainVerification.ts
+ * Description: DNS verification records and SSL certificate parsing for domains
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { ENV_CONFIG } from '@/config/env';
+import {
+  type Domain,
+  type DnsVerificationRecord,
+  type SslCertificateInfo,
+  type SslCertificateStatus,
+} from '../types';
+
+// Certificates expiring within this many days are flagged as expiring
+export const SSL_EXPIRY_WARNING_DAYS = 30;
+
+const VERIFICATION_HOST_PREFIX = '_tondro-verification';
+
+// ────────────────────────────────────────
+// DNS Verification
+// ────────────────────────────────────────
+
+const getSetting = (domain: Domain, key: string): string | null => {
+  const value = domain.dns_settings?.[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+/**
+ * Gets the DNS records a tenant must add to verify a domain. The TXT record is
+ * only listed once the API has issued a token in dns_settings; the CNAME
+ * target falls back to the platform default.
+ *
+ * @param domain - The domain being verified
+ * @returns The expected TXT and CNAME records
+ */
+export function getVerificationRecords(
+  domain: Domain
+): DnsVerificationRecord[] {
+  const domainName = domain.domain_name || domain.name || '';
+  const token = getSetting(domain, 'verification_token');
+  const txtValue =
+    getSetting(domain, 'txt_record') ??
+    (token ? `tondro-verification=${token}` : null);
+
+  const cnameRecord: DnsVerificationRecord = {
+    type: 'CNAME',
+    host: getSetting(domain, 'cname_host') ?? domainName,
+    value: getSetting(domain, 'cname_target') ?? ENV_CONFIG.DOMAIN_CNAME_TARGET,
+  };
+
+  if (!txtValue) return [cnameRecord];
+
+  return [
+    {
+      type: 'TXT',
+      host:
+        getSetting(domain, 'txt_host') ??
+        `${VERIFICATION_HOST_PREFIX}.${domainName}`,
+      value: txtValue,
+    },
+    cnameRecord,
+  ];
+}
+
+// ────────────────────────────────────────
+// SSL Certificates
+// ────────────────────────────────────────
+
+const toDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Reads the validity dates from a PEM certificate. The first two ASN.1
+ * UTCTime/GeneralizedTime values in a certificate are notBefore and notAfter.
+ */
+const getPemExpiry = (pem: string): Date | null => {
+  const body = pem
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+
+  let der: string;
+  try {
+    der = atob(body);
+  } catch {
+    return null;
+  }
+
+  const timePattern = /\x17\x0d(\d{12})Z|\x18\x0f(\d{14})Z/g;
+  timePattern.exec(der);
+  const notAfter = timePattern.exec(der);
+  if (!notAfter) return null;
+
+  // UTCTime uses a two-digit year: 50-99 is 19xx, 00-49 is 20xx
+  const digits = notAfter[1]
+    ? `${Number(notAfter[1].slice(0, 2)) >= 50 ? '19' : '20'}${notAfter[1]}`
+    : notAfter[2]!;
+
+  return toDate(
+    `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}T` +
+      `${digits.slice(8, 10)}:${digits.slice(10, 12)}:${digits.slice(12, 14)}Z`
+  );
+};
+
+const getExpiryStatus = (expiresAt: Date): SslCertificateStatus => {
+  const daysLeft = (expiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= SSL_EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'valid';
+};
+
+/**
+ * Parses the certificate status and expiry from a domain's ssl_certificate.
+ * Accepts a JSON summary, a PEM certificate or a bare expiry date.
+ *
+ * @param sslCertificate - The raw ssl_certificate value
+ * @returns The certificate status, expiry and issuer where available
+ */
+export function parseSslCertificate(
+  sslCertificate: string | null | undefined
+): SslCertificateInfo {
+  const raw = sslCertificate?.trim();
+  if (!raw) {
+    return { status: 'missing', expires_at: null, issuer: null };
+  }
+
+  if (raw.includes('BEGIN CERTIFICATE')) {
+    const expiresAt = getPemExpiry(raw);
+    return {
+      status: expiresAt ? getExpiryStatus(expiresAt) : 'unknown',
+      expires_at: expiresAt,
+      issuer: null,
+    };
+  }
+
+  if (raw.startsWith('{')) {
+    try {
+      const summary = JSON.parse(raw) as Record<string, unknown>;
+      const expiresAt = toDate(
+        summary.expires_at ??
+          summary.valid_to ??
+          summary.not_after ??
+          summary.expiry
+      );
+      return {
+        status: expiresAt ? getExpiryStatus(expiresAt) : 'unknown',
+        expires_at: expiresAt,
+        issuer: typeof summary.issuer === 'string' ? summary.issuer : null,
+      };
+    } catch {
+      return { status: 'unknown', expires_at: null, issuer: null };
+    }
+  }
+
+  const expiresAt = toDate(raw);
+  return {
+    status: expiresAt ? getExpiryStatus(expiresAt) : 'unknown',
+    expires_at: expiresAt,
+    issuer: null,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/entityLinks.ts
+ * Description: Builds deep links from audit entity references to their detail views
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+// Query parameter used by entity pages to open a detail dialog on load
+export const ENTITY_VIEW_QUERY_PARAM = 'view';
+
+// Entity types that have a routed page with a detail dialog
+const ENTITY_PAGE_PATHS: Record<string, string> = {
+  organization: '/organizations',
+  user: '/users',
+  subscription: '/subscriptions',
+  product: '/products',
+};
+
+/**
+ * Resolves the page link that opens the detail view of an entity
+ *
+ * @param entityType - The entity type as recorded in the audit log
+ * @param entityId - The identifier of the entity
+ * @returns The link to the detail view, or null if the entity has no page
+ *
+ * @example
+ * getEntityDetailLink('organization', '42'); // "/organizations?view=42"
+ */
+export function getEntityDetailLink(
+  entityType: string,
+  entityId: string | number | null | undefined
+): string | null {
+  if (entityId === null || entityId === undefined || entityId === '') {
+    return null;
+  }
+
+  const path = ENTITY_PAGE_PATHS[entityType.toLowerCase()];
+  if (!path) {
+    return null;
+  }
+
+  return `${path}?${ENTITY_VIEW_QUERY_PARAM}=${encodeURIComponent(String(entityId))}`;
+}
+
+/**
+ * Link to the Audit Log filtered to a single entity
+ *
+ * @example
+ * getEntityAuditLogLink('organization', 42); // "/audit-log?entity_type=organization&entity_id=42"
+ */
+export function getEntityAuditLogLink(
+  entityType: string,
+  entityId: string | number
+): string {
+  const params = new URLSearchParams({
+    entity_type: entityType,
+    entity_id: String(entityId),
+  });
+  return `/audit-log?${params.toString()}`;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatConfidence,
+  getConfidence,
+  getConfidenceLevel,
+  getFieldConfidence,
+  isLowConfidence,
+  sortByConfidence,
+} from './extractionConfidence';
+
+describe('getConfidence', () => {
+  it('reads a numeric _confidence from objects only', () => {
+    expect(getConfidence({ _confidence: 0.8 })).toBe(0.8);
+    expect(getConfidence({ _confidence: '0.8' })).toBeNull();
+    expect(getConfidence([{ _confidence: 0.8 }])).toBeNull();
+    expect(getConfidence(null)).toBeNull();
+  });
+});
+
+describe('getFieldConfidence', () => {
+  const data = {
+    _confidence: 0.95,
+    studentInfo: { name: 'Jane' },
+    degrees: [{ degrees_majors: ['Math'], _confidence: 0.62 }],
+  };
+
+  it('uses the closest enclosing score', () => {
+    expect(getFieldConfidence(data, ['degrees', 0, 'degrees_majors'])).toBe(
+      0.62
+    );
+  });
+
+  it('falls back to an outer score', () => {
+    expect(getFieldConfidence(data, ['studentInfo', 'name'])).toBe(0.95);
+  });
+
+  it('returns null without any score', () => {
+    expect(getFieldConfidence({ a: { b: 1 } }, ['a', 'b'])).toBeNull();
+  });
+});
+
+describe('confidence levels', () => {
+  it('splits scores at the thresholds', () => {
+    expect(getConfidenceLevel(0.9)).toBe('high');
+    expect(getConfidenceLevel(0.7)).toBe('medium');
+    expect(getConfidenceLevel(0.69)).toBe('low');
+  });
+
+  it('flags only scored values below the low threshold', () => {
+    expect(isLowConfidence(0.5)).toBe(true);
+    expect(isLowConfidence(0.7)).toBe(false);
+    expect(isLowConfidence(null)).toBe(false);
+  });
+
+  it('formats scores as percentages', () => {
+    expect(formatConfidence(0.875)).toBe('87.5%');
+  });
+});
+
+describe('sortByConfidence', () => {
+  it('puts the least confident first and unscored items last', () => {
+    const items = [
+      { id: 'a', score: 0.9 },
+      { id: 'b', score: null },
+      { id: 'c', score: 0.4 },
+      { id: 'd', score: 0.9 },
+      { id: 'e', score: null },
+    ];
+
+    expect(
+      sortByConfidence(items, item => item.score).map(item => item.id)
+    ).toEqual(['c', 'a', 'd', 'b', 'e']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/extractionConfidence.ts
+ * Description: Reads the model's confidence scores from extraction results
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { getChildValue } from './analysisDiff';
+import type { FieldPath } from './extractionReview';
+
+// ────────────────────────────────────────
+// Types
+// ────────────────────────────────────────
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// ────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────
+
+// Scores below these bounds are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+export const HIGH_CONFIDENCE_THRESHOLD = 0.9;
+
+export const CONFIDENCE_COLORS: Record<
+  ConfidenceLevel,
+  'success' | 'warning' | 'error'
+> = {
+  high: 'success',
+  medium: 'warning',
+  low: 'error',
+};
+
+// ────────────────────────────────────────
+// Confidence Lookup
+// ────────────────────────────────────────
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Returns the `_confidence` score the model attached to a section or item
+ */
+export const getConfidence = (value: unknown): number | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null;
+  }
+  const confidence = (value as Record<string, unknown>)._confidence;
+  return isScore(confidence) ? confidence : null;
+};
+
+/**
+ * Confidence of a field, taken from the closest enclosing object that has one
+ *
+ * @example
+ * getFieldConfidence(
+ *   { degrees: [{ degrees_majors: ['Math'], _confidence: 0.62 }] },
+ *   ['degrees', 0, 'degrees_majors']
+ * ); // 0.62
+ */
+export const getFieldConfidence = (
+  data: unknown,
+  path: FieldPath
+): number | null => {
+  let confidence: number | null = null;
+  let current: unknown = data;
+
+  for (const key of path) {
+    confidence = getConfidence(current) ?? confidence;
+    current = getChildValue(current, key);
+  }
+
+  return confidence;
+};
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel => {
+  if (confidence >= HIGH_CONFIDENCE_THRESHOLD) return 'high';
+  if (confidence >= LOW_CONFIDENCE_THRESHOLD) return 'medium';
+  return 'low';
+};
+
+export const isLowConfidence = (confidence: number | null): boolean =>
+  confidence !== null && confidence < LOW_CONFIDENCE_THRESHOLD;
+
+/**
+ * Orders items from least to most confident, keeping unscored items last
+ * and the original order among equal scores
+ */
+export const sortByConfidence = <T>(
+  items: T[],
+  getScore: (item: T) => number | null
+): T[] =>
+  items
+    .map((item, index) => ({ item, index, score: getScore(item) }))
+    .sort((a, b) => {
+      if (a.score === null || b.score === null) {
+        if (a.score === b.score) return a.index - b.index;
+        return a.score === null ? 1 : -1;
+      }
+      return a.score - b.score || a.index - b.index;
+    })
+    .map(({ item }) => item);
+
+export const formatConfidence = (confidence: number): string =>
+  `${(confidence * 100).toFixed(1)}%`;
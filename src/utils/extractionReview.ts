@@ -0,0 +1,112 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/extractionReview.ts
+ * Description: Helpers for editing extracted transcript fields during human review
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { getChildKeys, getChildValue, isNestedValue } from './analysisDiff';
+
+// ────────────────────────────────────────
+// Types
+// ────────────────────────────────────────
+
+export type FieldPath = Array<string | number>;
+
+export interface ExtractionField {
+  path: FieldPath;
+  /** Dot-separated path, as stored in a revision's reviewed_fields */
+  key: string;
+  value: unknown;
+}
+
+// ────────────────────────────────────────
+// Field Paths
+// ────────────────────────────────────────
+
+export const getFieldKey = (path: FieldPath): string => path.join('.');
+
+/**
+ * Lists every editable leaf of an extraction result
+ *
+ * @example
+ * flattenExtractionFields({ studentInfo: { name: 'Jane' } });
+ * // [{ path: ['studentInfo', 'name'], key: 'studentInfo.name', value: 'Jane' }]
+ */
+export const flattenExtractionFields = (
+  data: unknown,
+  path: FieldPath = []
+): ExtractionField[] => {
+  if (isNestedValue(data)) {
+    return getChildKeys(data).flatMap(key =>
+      flattenExtractionFields(getChildValue(data, key), [...path, key])
+    );
+  }
+
+  return path.length > 0 ? [{ path, key: getFieldKey(path), value: data }] : [];
+};
+
+/**
+ * Returns a copy of `data` with the value at `path` replaced
+ */
+export const setFieldValue = <T>(
+  data: T,
+  path: FieldPath,
+  value: unknown
+): T => {
+  const [head, ...rest] = path;
+  if (head === undefined) return value as T;
+
+  const container = (
+    Array.isArray(data) ? [...data] : { ...(data as object) }
+  ) as Record<string | number, unknown>;
+  container[head] = setFieldValue(container[head], rest, value);
+  return container as T;
+};
+
+// ────────────────────────────────────────
+// Input Conversion
+// ────────────────────────────────────────
+
+/**
+ * Formats a field value for a text input
+ */
+export const formatFieldInput = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+/**
+ * Converts text typed by a reviewer back to the type of the original value
+ *
+ * @example
+ * parseFieldInput('3.5', 3.2); // 3.5
+ * parseFieldInput('Math, Physics', ['Math']); // ['Math', 'Physics']
+ */
+export const parseFieldInput = (input: string, original: unknown): unknown => {
+  const trimmed = input.trim();
+
+  if (Array.isArray(original)) {
+    return trimmed
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  if (typeof original === 'boolean') {
+    return trimmed === 'true';
+  }
+
+  if (trimmed === '') return null;
+
+  if (typeof original === 'number') {
+    const parsed = Number(trimmed);
+    return Number.isNaN(parsed) ? input : parsed;
+  }
+
+  return input;
+};
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  transcriptsApiHelpers,
+  type JobDiagnosticsResponse,
+} from '../services/transcriptsApi';
+import { isJobSettled, pollJobUntilSettled } from './jobPolling';
+
+vi.mock('../services/transcriptsApi', () => ({
+  transcriptsApiHelpers: { getJobStatus: vi.fn() },
+}));
+
+const getJobStatus = vi.mocked(transcriptsApiHelpers.getJobStatus);
+
+const buildJob = (
+  statuses: JobDiagnosticsResponse['documents'][number]['status'][],
+  overallStatus = 'processing'
+): JobDiagnosticsResponse => ({
+  id: 42,
+  overall_status: overallStatus,
+  documents: statuses.map((status, index) => ({
+    id: `doc-${index}`,
+    document_type: 'transcript',
+    status,
+  })),
+  created_timestamp: '2026-10-19T10:00:00Z',
+  processing_duration_seconds: 0,
+});
+
+const respondWith = (job: JobDiagnosticsResponse) =>
+  ({ data: job }) as Awaited<ReturnType<typeof getJobStatus>>;
+
+const fastPolling = { initialDelayMs: 1, maxDelayMs: 1 };
+
+describe('isJobSettled', () => {
+  it('waits for every document to finish', () => {
+    expect(isJobSettled(buildJob(['completed', 'processing']))).toBe(false);
+    expect(isJobSettled(buildJob(['completed', 'failed']))).toBe(true);
+  });
+
+  it('falls back to the overall status without documents', () => {
+    expect(isJobSettled(buildJob([], 'Completed'))).toBe(true);
+    expect(isJobSettled(buildJob([], 'processing'))).toBe(false);
+  });
+});
+
+describe('pollJobUntilSettled', () => {
+  beforeEach(() => {
+    getJobStatus.mockReset();
+  });
+
+  it('polls until the job settles and reports every update', async () => {
+    const onUpdate = vi.fn();
+    getJobStatus
+      .mockResolvedValueOnce(respondWith(buildJob(['processing'])))
+      .mockResolvedValueOnce(respondWith(buildJob(['completed'])));
+
+    const result = await pollJobUntilSettled(42, { ...fastPolling, onUpdate });
+
+    expect(result.outcome).toBe('settled');
+    expect(result.job?.documents[0]?.status).toBe('completed');
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out against the original start time', async () => {
+    const result = await pollJobUntilSettled(42, {
+      ...fastPolling,
+      maxWaitMs: 1000,
+      startedAt: Date.now() - 2000,
+    });
+
+    expect(result).toEqual({ outcome: 'timeout', job: null });
+    expect(getJobStatus).not.toHaveBeenCalled();
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await pollJobUntilSettled(42, {
+      ...fastPolling,
+      signal: controller.signal,
+    });
+
+    expect(result.outcome).toBe('aborted');
+    expect(getJobStatus).not.toHaveBeenCalled();
+  });
+
+  it('tolerates brief errors but gives up after too many in a row', async () => {
+    getJobStatus
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockResolvedValueOnce(respondWith(buildJob(['completed'])));
+
+    await expect(pollJobUntilSettled(42, fastPolling)).resolves.toMatchObject({
+      outcome: 'settled',
+    });
+
+    getJobStatus.mockRejectedValue(new Error('Network Error'));
+
+    await expect(
+      pollJobUntilSettled(42, { ...fastPolling, maxConsecutiveErrors: 2 })
+    ).rejects.toThrow('Network Error');
+    expect(getJobStatus).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/jobPolling.ts
+ * Description: Polls transcript job diagnostics with exponential backoff until the job settles
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import {
+  transcriptsApiHelpers,
+  type JobDiagnosticsResponse,
+} from '../services/transcriptsApi';
+
+// ────────────────────────────────────────
+// Types and Defaults
+// ────────────────────────────────────────
+
+export interface JobPollingOptions {
+  /** Delay before the first status check */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between checks */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after every check */
+  backoffFactor?: number;
+  /** Total time to wait for the job, measured from `startedAt` */
+  maxWaitMs?: number;
+  /** Consecutive failed status requests tolerated before giving up */
+  maxConsecutiveErrors?: number;
+}
+
+interface PollJobParams extends JobPollingOptions {
+  signal?: AbortSignal;
+  /** When the job was submitted; lets a resumed poll keep its original deadline */
+  startedAt?: number;
+  /** Called with every status response, including intermediate ones */
+  onUpdate?: (job: JobDiagnosticsResponse) => void;
+}
+
+export type JobPollOutcome = 'settled' | 'timeout' | 'aborted';
+
+export interface JobPollResult {
+  outcome: JobPollOutcome;
+  /** The last status received, if any */
+  job: JobDiagnosticsResponse | null;
+}
+
+export const DEFAULT_JOB_POLLING_OPTIONS: Required<JobPollingOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  maxWaitMs: 5 * 60 * 1000,
+  maxConsecutiveErrors: 3,
+};
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+/**
+ * A job is settled once every document has finished, successfully or not
+ */
+export const isJobSettled = (job: JobDiagnosticsResponse): boolean => {
+  if (job.documents?.length) {
+    return job.documents.every(document => document.status !== 'processing');
+  }
+  return ['completed', 'failed'].includes(job.overall_status?.toLowerCase());
+};
+
+/**
+ * Resolves after `ms`, or early when the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+
+// ────────────────────────────────────────
+// Polling
+// ────────────────────────────────────────
+
+/**
+ * Polls a job until all of its documents settle, the maximum wait elapses
+ * or the signal aborts. The delay between checks grows exponentially.
+ *
+ * @example
+ * const { outcome, job } = await pollJobUntilSettled(42, {
+ *   signal: controller.signal,
+ *   maxWaitMs: 120000,
+ * });
+ */
+export const pollJobUntilSettled = async (
+  jobId: number,
+  { signal, startedAt = Date.now(), onUpdate, ...options }: PollJobParams = {}
+): Promise<JobPollResult> => {
+  const {
+    initialDelayMs,
+    maxDelayMs,
+    backoffFactor,
+    maxWaitMs,
+    maxConsecutiveErrors,
+  } = { ...DEFAULT_JOB_POLLING_OPTIONS, ...options };
+
+  const deadline = startedAt + maxWaitMs;
+  let delay = initialDelayMs;
+  let consecutiveErrors = 0;
+  let lastJob: JobDiagnosticsResponse | null = null;
+
+  while (!signal?.aborted) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { outcome: 'timeout', job: lastJob };
+    }
+
+    await wait(Math.min(delay, remaining), signal);
+    if (signal?.aborted) break;
+
+    try {
+      const response = await transcriptsApiHelpers.getJobStatus(jobId, signal);
+      if (signal?.aborted) break;
+
+      consecutiveErrors = 0;
+      lastJob = response.data;
+      onUpdate?.(lastJob);
+
+      if (isJobSettled(lastJob)) {
+        return { outcome: 'settled', job: lastJob };
+      }
+    } catch (error) {
+      if (signal?.aborted) break;
+
+      // Tolerate brief outages; the job keeps running on the server
+      consecutiveErrors += 1;
+      if (consecutiveErrors >= maxConsecutiveErrors) {
+        throw error;
+      }
+    }
+
+    delay = Math.min(delay * backoffFactor, maxDelayMs);
+  }
+
+  return { outcome: 'aborted', job: lastJob };
+};
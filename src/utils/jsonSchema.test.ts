@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { validateJsonSchema, type JsonSchema } from './jsonSchema';
+
+const settingsSchema: JsonSchema = {
+  type: 'object',
+  required: ['limit'],
+  additionalProperties: false,
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    mode: { enum: ['fast', 'accurate'] },
+    code: { type: 'string', pattern: '^[A-Z]{3}$' },
+    tags: { type: 'array', items: { type: 'string', maxLength: 5 } },
+  },
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a valid value', () => {
+    expect(
+      validateJsonSchema(
+        { limit: 10, mode: 'fast', code: 'USD', tags: ['a'] },
+        settingsSchema
+      )
+    ).toEqual([]);
+  });
+
+  it('reports a type mismatch at the root', () => {
+    expect(validateJsonSchema([], settingsSchema)).toEqual([
+      'settings must be of type object',
+    ]);
+  });
+
+  it('treats integers as numbers but not the other way round', () => {
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual([
+      'settings must be of type integer',
+    ]);
+  });
+
+  it('reports missing, unknown and out-of-range properties', () => {
+    expect(validateJsonSchema({ extra: true }, settingsSchema)).toEqual([
+      'limit is required',
+      'extra is not an allowed setting',
+    ]);
+    expect(validateJsonSchema({ limit: 0 }, settingsSchema)).toEqual([
+      'limit must be at least 1',
+    ]);
+  });
+
+  it('checks enums, patterns and array items with their paths', () => {
+    expect(
+      validateJsonSchema(
+        { limit: 5, mode: 'slow', code: 'usd', tags: ['ok', 'too long'] },
+        settingsSchema
+      )
+    ).toEqual([
+      'mode must be one of: fast, accurate',
+      'code must match the pattern ^[A-Z]{3}$',
+      'tags[1] must be at most 5 characters',
+    ]);
+  });
+
+  it('validates additional properties against a schema', () => {
+    expect(
+      validateJsonSchema(
+        { a: 1, b: 'two' },
+        { type: 'object', additionalProperties: { type: 'number' } }
+      )
+    ).toEqual(['b must be of type number']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/jsonSchema.ts
+ * Description: Minimal JSON Schema validator for configuration editors
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+// ────────────────────────────────────────
+// Schema Types
+// ────────────────────────────────────────
+
+type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * The subset of JSON Schema keywords supported by validateJsonSchema
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+// ────────────────────────────────────────
+// Helper Functions
+// ────────────────────────────────────────
+
+const getJsonType = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  const actualType = getJsonType(value);
+  // Integers are also valid numbers
+  return actualType === type || (type === 'number' && actualType === 'integer');
+};
+
+const formatPath = (path: string): string => path || 'settings';
+
+// ────────────────────────────────────────
+// Validator
+// ────────────────────────────────────────
+
+/**
+ * Validates a value against a schema and returns one message per problem.
+ * An empty array means the value is valid.
+ *
+ * @example
+ * validateJsonSchema({ limit: 'ten' }, { type: 'object', properties: { limit: { type: 'integer' } } });
+ * // ["limit must be of type integer"]
+ */
+export const validateJsonSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string = ''
+): string[] => {
+  const label = formatPath(path);
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${label} must be of type ${schema.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(
+      `${label} must be one of: ${schema.enum.map(String).join(', ')}`
+    );
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label} must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${label} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${label} must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(item, schema.items!, `${path}[${index}]`)
+      );
+    });
+  }
+
+  if (getJsonType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    schema.required?.forEach(key => {
+      if (!(key in record)) {
+        errors.push(`${path ? `${path}.` : ''}${key} is required`);
+      }
+    });
+
+    Object.entries(record).forEach(([key, propertyValue]) => {
+      const propertyPath = path ? `${path}.${key}` : key;
+      const propertySchema = properties[key];
+
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(propertyValue, propertySchema, propertyPath)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath} is not an allowed setting`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            schema.additionalProperties,
+            propertyPath
+          )
+        );
+      }
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,26 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/listResponse.ts
+ * Description: Normalizes list endpoints that return an array or a page
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { type PaginatedResponse } from '../types';
+
+/**
+ * Gets the items of a list response, whether the endpoint returned a plain
+ * array or a paginated response
+ *
+ * @example
+ * getResponseItems([a, b]); // [a, b]
+ * getResponseItems({ items: [a], total: 1, page: 1, page_size: 10 }); // [a]
+ */
+export const getResponseItems = <T>(
+  data: T[] | PaginatedResponse<T> | null | undefined
+): T[] => {
+  if (Array.isArray(data)) return data;
+  return data?.items || [];
+};
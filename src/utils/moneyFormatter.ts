@@ -0,0 +1,77 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/moneyFormatter.ts
+ * Description: Locale-aware formatting for prices and currency totals
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies offered in the price pickers
+export const SUPPORTED_CURRENCIES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'CAD',
+  'AUD',
+  'AED',
+  'INR',
+  'PKR',
+] as const;
+
+interface FormatMoneyOptions {
+  /** Defaults to the browser locale */
+  locale?: string;
+  /** Extra precision for small amounts such as per-unit prices */
+  maximumFractionDigits?: number;
+}
+
+/**
+ * Formats an amount in the given currency for the user's locale
+ *
+ * @example
+ * formatMoney(1200, 'USD'); // "$1,200.00" in en-US
+ * formatMoney(1200, 'EUR', { locale: 'de-DE' }); // "1.200,00 €"
+ */
+export const formatMoney = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  options: FormatMoneyOptions = {}
+): string => {
+  const currencyCode = (currency || DEFAULT_CURRENCY).toUpperCase();
+
+  try {
+    return new Intl.NumberFormat(options.locale, {
+      style: 'currency',
+      currency: currencyCode,
+      ...(options.maximumFractionDigits !== undefined && {
+        maximumFractionDigits: options.maximumFractionDigits,
+      }),
+    }).format(amount);
+  } catch {
+    // Unknown currency codes are rejected by Intl
+    return `${amount.toFixed(2)} ${currencyCode}`;
+  }
+};
+
+/**
+ * Formats amounts that may be in several currencies. Amounts are never
+ * converted, so each currency is listed separately.
+ *
+ * @example
+ * formatMoneyTotals({ USD: 1200, EUR: 300 }); // "$1,200.00 + €300.00"
+ */
+export const formatMoneyTotals = (
+  totals: Record<string, number>,
+  options: FormatMoneyOptions = {}
+): string => {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) return formatMoney(0, DEFAULT_CURRENCY, options);
+
+  return entries
+    .map(([currency, amount]) => formatMoney(amount, currency, options))
+    .join(' + ');
+};
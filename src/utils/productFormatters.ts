@@ -0,0 +1,119 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/productFormatters.ts
+ * Description: Shared status, feature and settings helpers for products
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { type Product, type ProductFeature } from '../types';
+import { validateJsonSchema } from './jsonSchema';
+import { PRODUCT_SETTINGS_SCHEMA } from '../config/productSettingsSchema';
+
+// ────────────────────────────────────────
+// Status
+// ────────────────────────────────────────
+
+/**
+ * Older products only report `is_active`, newer ones report `status`.
+ * A product is treated as active unless either field says otherwise.
+ */
+export const isProductActive = (product: Product): boolean =>
+  product.status !== 'Inactive' && product.is_active !== false;
+
+/**
+ * Products that can be offered on new subscriptions
+ */
+export const getActiveProducts = (products: Product[]): Product[] =>
+  products.filter(isProductActive);
+
+// ────────────────────────────────────────
+// Features
+// ────────────────────────────────────────
+
+export const FEATURE_KEY_PATTERN = /^[a-z0-9_]+$/;
+
+/**
+ * Converts the features returned by the API into editable entries. Legacy
+ * products list bare feature keys, which come back with no enabled tiers, so
+ * callers must not save the result unless the user edited it.
+ */
+export const normalizeProductFeatures = (
+  features: Product['features']
+): ProductFeature[] =>
+  (features || []).map(feature =>
+    typeof feature === 'string'
+      ? { key: feature, description: '', enabled_tiers: [] }
+      : {
+          key: feature.key,
+          description: feature.description || '',
+          enabled_tiers: feature.enabled_tiers || [],
+        }
+  );
+
+/**
+ * Returns the first problem with the feature list, or null when it is valid
+ */
+export const validateProductFeatures = (
+  features: ProductFeature[]
+): string | null => {
+  const seenKeys = new Set<string>();
+
+  for (const feature of features) {
+    if (!feature.key) {
+      return 'Every feature needs a key';
+    }
+    if (!FEATURE_KEY_PATTERN.test(feature.key)) {
+      return `Feature key "${feature.key}" may only contain lowercase letters, numbers and underscores`;
+    }
+    if (seenKeys.has(feature.key)) {
+      return `Feature key "${feature.key}" is used more than once`;
+    }
+    seenKeys.add(feature.key);
+  }
+
+  return null;
+};
+
+// ────────────────────────────────────────
+// Settings
+// ────────────────────────────────────────
+
+export interface ParsedProductSettings {
+  settings: Record<string, unknown> | null;
+  errors: string[];
+}
+
+/**
+ * Parses the settings editor text and validates it against the product
+ * settings schema
+ */
+export const parseProductSettings = (text: string): ParsedProductSettings => {
+  if (!text.trim()) {
+    return { settings: {}, errors: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return {
+      settings: null,
+      errors: [
+        `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+      ],
+    };
+  }
+
+  const errors = validateJsonSchema(parsed, PRODUCT_SETTINGS_SCHEMA);
+  return errors.length > 0
+    ? { settings: null, errors }
+    : { settings: parsed as Record<string, unknown>, errors: [] };
+};
+
+export const formatProductSettings = (settings: Product['settings']): string =>
+  settings && Object.keys(settings).length > 0
+    ? JSON.stringify(settings, null, 2)
+    : '';
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditLog } from '../types';
+import {
+  canTransitionSubscription,
+  getAllowedTransitions,
+  getTransitionLabel,
+  parseStatusTransition,
+} from './subscriptionLifecycle';
+
+const buildLog = (details: Record<string, unknown>): AuditLog => ({
+  id: 1,
+  entity_type: 'subscription',
+  entity_id: 'sub-1',
+  action: 'update',
+  performed_by: 'admin@example.com',
+  details,
+  created_at: '2026-10-19T10:00:00Z',
+});
+
+describe('subscription transitions', () => {
+  it('allows suspending an active subscription', () => {
+    expect(canTransitionSubscription('active', 'suspended')).toBe(true);
+  });
+
+  it('treats cancelled as terminal', () => {
+    expect(getAllowedTransitions('cancelled')).toEqual([]);
+    expect(canTransitionSubscription('cancelled', 'active')).toBe(false);
+  });
+
+  it('labels activation from trial differently from reactivation', () => {
+    expect(getTransitionLabel('trial', 'active')).toBe('Activate');
+    expect(getTransitionLabel('suspended', 'active')).toBe('Reactivate');
+  });
+});
+
+describe('parseStatusTransition', () => {
+  it('reads flat old and new statuses with a reason', () => {
+    expect(
+      parseStatusTransition(
+        buildLog({
+          old_status: 'active',
+          new_status: 'suspended',
+          reason: 'Unpaid invoice',
+        })
+      )
+    ).toEqual({
+      from: 'active',
+      to: 'suspended',
+      reason: 'Unpaid invoice',
+      performed_by: 'admin@example.com',
+      created_at: '2026-10-19T10:00:00Z',
+    });
+  });
+
+  it('reads nested old and new values case-insensitively', () => {
+    const transition = parseStatusTransition(
+      buildLog({
+        old_values: { status: 'TRIAL' },
+        new_values: { status: 'Active' },
+      })
+    );
+    expect(transition?.from).toBe('trial');
+    expect(transition?.to).toBe('active');
+    expect(transition?.reason).toBeNull();
+  });
+
+  it('ignores entries that did not change the status', () => {
+    expect(parseStatusTransition(buildLog({ name: 'Renamed' }))).toBeNull();
+    expect(
+      parseStatusTransition(
+        buildLog({ old_status: 'active', new_status: 'active' })
+      )
+    ).toBeNull();
+  });
+
+  it('ignores unknown statuses', () => {
+    expect(parseStatusTransition(buildLog({ new_status: 'archived' }))).toBe(
+      null
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/subscriptionLifecycle.ts
+ * Description: Client-side lifecycle model for subscription status transitions
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import {
+  type AuditLog,
+  type SubscriptionStatus,
+  type SubscriptionStatusTransition,
+} from '../types';
+
+// ────────────────────────────────────────
+// Transition Model
+// ────────────────────────────────────────
+
+// Allowed target statuses for each current status. Cancelled is terminal.
+export const SUBSCRIPTION_TRANSITIONS: Record<
+  SubscriptionStatus,
+  SubscriptionStatus[]
+> = {
+  trial: ['active', 'cancelled'],
+  active: ['suspended', 'cancelled'],
+  suspended: ['active', 'cancelled'],
+  inactive: ['active', 'cancelled'],
+  expired: ['cancelled'],
+  cancelled: [],
+};
+
+const SUBSCRIPTION_STATUSES = Object.keys(
+  SUBSCRIPTION_TRANSITIONS
+) as SubscriptionStatus[];
+
+/**
+ * Gets the statuses a subscription may move to from its current status
+ *
+ * @param status - The current subscription status
+ * @returns The allowed target statuses
+ */
+export function getAllowedTransitions(
+  status: SubscriptionStatus
+): SubscriptionStatus[] {
+  return SUBSCRIPTION_TRANSITIONS[status] ?? [];
+}
+
+/**
+ * Checks whether a status transition is allowed by the lifecycle model
+ *
+ * @param from - The current subscription status
+ * @param to - The requested subscription status
+ * @returns True if the transition is allowed
+ */
+export function canTransitionSubscription(
+  from: SubscriptionStatus,
+  to: SubscriptionStatus
+): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Gets the action label for moving a subscription into a status
+ *
+ * @param from - The current subscription status
+ * @param to - The target subscription status
+ * @returns A user-friendly action label
+ *
+ * @example
+ * getTransitionLabel('suspended', 'active'); // "Reactivate"
+ */
+export function getTransitionLabel(
+  from: SubscriptionStatus,
+  to: SubscriptionStatus
+): string {
+  switch (to) {
+    case 'active':
+      return from === 'trial' ? 'Activate' : 'Reactivate';
+    case 'suspended':
+      return 'Suspend';
+    case 'cancelled':
+      return 'Cancel';
+    default:
+      return `Mark as ${to}`;
+  }
+}
+
+// ────────────────────────────────────────
+// Transition History
+// ────────────────────────────────────────
+
+const toSubscriptionStatus = (value: unknown): SubscriptionStatus | null => {
+  if (typeof value !== 'string') return null;
+  const status = value.toLowerCase() as SubscriptionStatus;
+  return SUBSCRIPTION_STATUSES.includes(status) ? status : null;
+};
+
+const getNestedStatus = (value: unknown): unknown =>
+  value && typeof value === 'object'
+    ? (value as Record<string, unknown>).status
+    : undefined;
+
+/**
+ * Extracts a status transition from a subscription audit log entry
+ *
+ * @param log - An audit log entry for a subscription
+ * @returns The transition, or null if the entry did not change the status
+ */
+export function parseStatusTransition(
+  log: AuditLog
+): SubscriptionStatusTransition | null {
+  const details = log.details ?? {};
+
+  const to = toSubscriptionStatus(
+    details.new_status ?? getNestedStatus(details.new_values) ?? details.status
+  );
+  if (!to) return null;
+
+  const from = toSubscriptionStatus(
+    details.old_status ??
+      details.previous_status ??
+      getNestedStatus(details.old_values)
+  );
+  if (from === to) return null;
+
+  return {
+    from,
+    to,
+    reason: typeof details.reason === 'string' ? details.reason : null,
+    performed_by: log.performed_by,
+    created_at: log.created_at,
+  };
+}
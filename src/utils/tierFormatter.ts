@@ -1,70 +1,108 @@
 /**
  * ──────────────────────────────────────────────────
  * File: client/src/utils/tierFormatter.ts
- * Description: Utility functions for formatting tier names from backend to user-friendly display
+ * Description: Utility functions for resolving tier display names and colors from product tier data
  * Author: Muhammad Abubakar Khan
  * Created: 18-06-2025
- * Last Updated: 27-06-2025
+ * Last Updated: 19-10-2026
  * ──────────────────────────────────────────────────
  */
 
-// Tier color mapping for consistent visual representation
-export const TIER_COLORS = {
-  // Admissions tiers - Blue shades
-  ADMISSIONS: 'primary',
-  // Transcript tiers - Green shades
-  TRANSCRIPT: 'success',
-} as const;
+import type { Product, ProductTier } from '../types';
 
-export type TierColorType = (typeof TIER_COLORS)[keyof typeof TIER_COLORS];
+// Chip colors available to tiers, in the order the palette is assigned
+export const TIER_PALETTE = [
+  'primary',
+  'success',
+  'info',
+  'secondary',
+  'warning',
+] as const;
+
+export type TierColorType = (typeof TIER_PALETTE)[number];
 
 /**
- * Gets the standardized color for a tier based on its category
- *
- * @param tierName - The tier name from backend
- * @returns The color type for the tier category
+ * Per-product overrides read from `Product.settings`
  *
  * @example
- * getTierColor("admissions_200"); // "primary"
+ * { tier_labels: { admissions_200: 'Admis 200' }, tier_colors: { admissions_200: 'info' } }
  */
-export function getTierColor(tierName: string): TierColorType {
-  const lowerTierName = tierName.toLowerCase();
+interface TierDisplaySettings {
+  tier_labels?: Record<string, string>;
+  tier_colors?: Record<string, string>;
+}
+
+const getTierDisplaySettings = (product?: Product): TierDisplaySettings =>
+  (product?.settings as TierDisplaySettings | undefined) || {};
+
+const isTierColor = (value: unknown): value is TierColorType =>
+  TIER_PALETTE.includes(value as TierColorType);
 
-  // Admissions tiers
-  if (lowerTierName.includes('admissions')) {
-    return TIER_COLORS.ADMISSIONS;
-  } else if (lowerTierName.includes('transcript')) {
-    return TIER_COLORS.TRANSCRIPT;
+/**
+ * Picks a palette color from the tier name so that the same tier always
+ * gets the same color, even when it has no configured color
+ *
+ * @param tierName - The tier name from backend
+ * @returns A stable color from the tier palette
+ */
+export function getPaletteTierColor(tierName: string): TierColorType {
+  let hash = 0;
+  for (let i = 0; i < tierName.length; i++) {
+    hash = (hash * 31 + tierName.charCodeAt(i)) >>> 0;
   }
-  // Default fallback
-  return TIER_COLORS.ADMISSIONS;
+  return TIER_PALETTE[hash % TIER_PALETTE.length] ?? 'primary';
 }
 
 /**
- * Formats a tier name from backend format to user-friendly display format
- * Removes redundant product names since they're displayed separately
+ * Turns a raw tier name into a readable label
  *
- * @param tierName - The tier name from backend (e.g., "admissions_200")
- * @returns Formatted tier name for display (e.g., "Admis 200")
+ * @example
+ * humanizeTierName("admissions_200"); // "Admissions 200"
+ */
+export function humanizeTierName(tierName: string): string {
+  return tierName
+    .split(/[_-]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Resolves the display name for a tier. A label configured in the product
+ * settings wins over the tier's display_name; unknown tiers are humanized.
  *
+ * @param tierName - The tier name from backend (e.g., "admissions_200")
+ * @param tier - The matching product tier, if loaded
+ * @param product - The product the tier belongs to, if loaded
+ * @returns Formatted tier name for display
  */
-export function formatTierName(tierName: string): string {
+export function formatTierName(
+  tierName: string,
+  tier?: ProductTier,
+  product?: Product
+): string {
   if (!tierName) return '';
 
-  // Handle common tier patterns - remove redundant product names
-  const tierMappings: Record<string, string> = {
-    admissions_200: 'Admis 200',
-    admissions_500: 'Admis 500',
-    admissions_1000: 'Admis 1000',
-    transcripts_500: 'Trans 500',
-    transcripts_1000: 'Trans 1000',
-    transcripts_2000: 'Trans 2000',
-  };
+  const configuredLabel =
+    getTierDisplaySettings(product).tier_labels?.[tierName];
+  return configuredLabel || tier?.display_name || humanizeTierName(tierName);
+}
 
-  // Check if we have a direct mapping
-  const mappedTier = tierMappings[tierName.toLowerCase()];
-  if (mappedTier) {
-    return mappedTier;
-  }
-  return tierName;
+/**
+ * Resolves the chip color for a tier from the product settings, falling back
+ * to a deterministic palette color
+ *
+ * @param tierName - The tier name from backend
+ * @param product - The product the tier belongs to, if loaded
+ * @returns The color type for the tier
+ */
+export function getTierColor(
+  tierName: string,
+  product?: Product
+): TierColorType {
+  const configuredColor =
+    getTierDisplaySettings(product).tier_colors?.[tierName];
+  return isTierColor(configuredColor)
+    ? configuredColor
+    : getPaletteTierColor(tierName);
 }
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { JobDiagnosticsResponse } from '../services/transcriptsApi';
+import {
+  buildTranscriptCoursesCsv,
+  buildTranscriptFieldsCsv,
+  buildTranscriptFileInfo,
+  getTranscriptReportLink,
+  hasTranscriptCourses,
+} from './transcriptExport';
+
+const buildJob = (finalPass: unknown): JobDiagnosticsResponse => ({
+  id: 7,
+  overall_status: 'completed',
+  documents: [
+    {
+      id: 'doc-1',
+      document_type: 'transcript',
+      original_filename: 'transcript.pdf',
+      status: 'completed',
+      result: { pass_1_extraction: {}, pass_2_correction: finalPass },
+    },
+  ],
+  created_timestamp: '2026-10-19T10:00:00Z',
+  processing_duration_seconds: 12,
+});
+
+const job = buildJob({
+  studentInfo: { name: 'Doe, "Jane"', gpa: 3.5 },
+  terms: [
+    {
+      term_name: 'Fall',
+      term_courses: [
+        { term_courses_course_code: 'CS101', term_courses_grade: 'A' },
+        { term_courses_course_code: 'MA201', term_courses_credits: 4 },
+      ],
+    },
+  ],
+});
+
+describe('buildTranscriptFieldsCsv', () => {
+  it('lists every field except course lists and escapes quotes and commas', () => {
+    expect(buildTranscriptFieldsCsv(job).split('\r\n')).toEqual([
+      'Document,Field,Value',
+      'transcript.pdf,Student Info › Name,"Doe, ""Jane"""',
+      'transcript.pdf,Student Info › Gpa,3.5',
+      'transcript.pdf,Terms › #1 › Term name,Fall',
+    ]);
+  });
+
+  it('quotes values with line breaks', () => {
+    const csv = buildTranscriptFieldsCsv(buildJob({ note: 'line 1\nline 2' }));
+    expect(csv).toContain('"line 1\nline 2"');
+  });
+
+  it('keeps spreadsheet formulas from being evaluated', () => {
+    const csv = buildTranscriptFieldsCsv(
+      buildJob({ a: '=SUM(A1:A9)', b: '+1', c: '@cmd', d: '-5' })
+    );
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      "transcript.pdf,A,'=SUM(A1:A9)",
+      "transcript.pdf,B,'+1",
+      "transcript.pdf,C,'@cmd",
+      'transcript.pdf,D,-5',
+    ]);
+  });
+});
+
+describe('buildTranscriptCoursesCsv', () => {
+  it('writes one row per course with the union of course columns', () => {
+    expect(hasTranscriptCourses(job)).toBe(true);
+    expect(buildTranscriptCoursesCsv(job).split('\r\n')).toEqual([
+      'Document,Section,Course code,Grade,Credits',
+      'transcript.pdf,Terms › #1,CS101,A,',
+      'transcript.pdf,Terms › #1,MA201,,4',
+    ]);
+  });
+
+  it('reports jobs without courses', () => {
+    expect(hasTranscriptCourses(buildJob({ name: 'Jane' }))).toBe(false);
+  });
+});
+
+describe('file info and report link', () => {
+  it('falls back to the document filename and defaults', () => {
+    expect(buildTranscriptFileInfo(job)).toMatchObject({
+      filename: 'transcript.pdf',
+      file_size: 0,
+      file_type: 'application/pdf',
+      processing_started_at: null,
+      total_processing_time_seconds: 12,
+    });
+  });
+
+  it('carries known file details in the report link', () => {
+    expect(getTranscriptReportLink(7)).toBe('/jobs/7/report');
+    expect(
+      getTranscriptReportLink(7, { filename: 'a b.pdf', fileSize: 1024 })
+    ).toBe('/jobs/7/report?filename=a+b.pdf&size=1024');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/transcriptExport.ts
+ * Description: Builds JSON and CSV exports of transcript job results
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import type {
+  JobDiagnosticsDocument,
+  JobDiagnosticsResponse,
+} from '../services/transcriptsApi';
+import {
+  formatDiffPath,
+  formatDiffValue,
+  getChildKeys,
+  getChildValue,
+} from './analysisDiff';
+import { flattenExtractionFields, type FieldPath } from './extractionReview';
+import { formatFieldName } from './transcriptFormatters';
+
+// ────────────────────────────────────────
+// File Info
+// ────────────────────────────────────────
+
+export interface TranscriptFileInfo {
+  filename: string;
+  file_size: number;
+  file_type: string;
+  uploaded_at: string;
+  processing_started_at: string | null;
+  processing_completed_at: string | null;
+  total_processing_time_seconds: number;
+}
+
+// Details of the uploaded file that the diagnostics endpoint does not return
+export interface TranscriptFileMeta {
+  filename?: string;
+  fileSize?: number;
+  fileType?: string;
+}
+
+export const buildTranscriptFileInfo = (
+  job: JobDiagnosticsResponse,
+  meta: TranscriptFileMeta = {}
+): TranscriptFileInfo => ({
+  filename: meta.filename || job.documents?.[0]?.original_filename || 'Unknown',
+  file_size: meta.fileSize || 0,
+  file_type: meta.fileType || 'application/pdf',
+  uploaded_at: job.created_timestamp,
+  processing_started_at: job.processing_started_timestamp ?? null,
+  processing_completed_at: job.processing_completed_timestamp ?? null,
+  total_processing_time_seconds: job.processing_duration_seconds || 0, // Use the actual processing duration from API
+});
+
+// ────────────────────────────────────────
+// JSON Export
+// ────────────────────────────────────────
+
+/**
+ * Serializes the raw job result together with its file info
+ */
+export const buildTranscriptJson = (
+  job: JobDiagnosticsResponse,
+  meta: TranscriptFileMeta = {}
+): string =>
+  JSON.stringify(
+    {
+      job_id: job.id,
+      overall_status: job.overall_status,
+      file_info: buildTranscriptFileInfo(job, meta),
+      documents: (job.documents || []).map(document => ({
+        document_id: document.id,
+        document_type: document.document_type,
+        original_filename: document.original_filename ?? null,
+        status: document.status,
+        first_pass: document.result?.pass_1_extraction ?? null,
+        final_pass: document.result?.pass_2_correction ?? null,
+        error: document.error ?? null,
+        processing_metadata: document.processing_metadata ?? null,
+      })),
+    },
+    null,
+    2
+  );
+
+// ────────────────────────────────────────
+// CSV Export
+// ────────────────────────────────────────
+
+// Arrays whose key ends with "courses" hold one object per course
+const isCourseListKey = (key: string | number): boolean =>
+  typeof key === 'string' && /courses$/i.test(key);
+
+// Spreadsheet apps evaluate cells that start with these characters
+const FORMULA_PREFIX = /^[=+@]/;
+
+const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : formatDiffValue(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+const documentLabel = (document: JobDiagnosticsDocument): string =>
+  document.original_filename || document.id;
+
+export interface TranscriptFieldRow {
+  /** Readable field path, e.g. "Student Info › Name" */
+  field: string;
+  value: unknown;
+}
+
+export interface TranscriptCourseRow {
+  /** Readable path of the list the course belongs to */
+  section: string;
+  /** Course values keyed by column label */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Every extracted field of the final pass except course lists
+ */
+export const getTranscriptFieldRows = (
+  document: JobDiagnosticsDocument
+): TranscriptFieldRow[] =>
+  flattenExtractionFields(document.result?.pass_2_correction)
+    .filter(field => !field.path.some(isCourseListKey))
+    .map(field => ({ field: formatDiffPath(field.path), value: field.value }));
+
+const collectCourseRows = (
+  data: unknown,
+  path: FieldPath = []
+): TranscriptCourseRow[] =>
+  getChildKeys(data).flatMap(key => {
+    const value = getChildValue(data, key);
+
+    if (isCourseListKey(key) && Array.isArray(value)) {
+      return value.map(course => {
+        const values: Record<string, unknown> = {};
+        getChildKeys(course).forEach(courseKey => {
+          // Drop the list prefix: "term_courses_course_code" → "course_code"
+          const column = String(courseKey).replace(/^.*courses_/, '');
+          values[formatFieldName(column)] = getChildValue(course, courseKey);
+        });
+        return { section: formatDiffPath(path), values };
+      });
+    }
+
+    return collectCourseRows(value, [...path, key]);
+  });
+
+/**
+ * One row per course across academic terms and transfer credit blocks
+ */
+export const getTranscriptCourseRows = (
+  document: JobDiagnosticsDocument
+): TranscriptCourseRow[] =>
+  collectCourseRows(document.result?.pass_2_correction);
+
+/**
+ * Column labels of a set of course rows, in first-seen order
+ */
+export const getTranscriptCourseColumns = (
+  rows: TranscriptCourseRow[]
+): string[] => {
+  const columns: string[] = [];
+  rows.forEach(row =>
+    Object.keys(row.values).forEach(column => {
+      if (!columns.includes(column)) columns.push(column);
+    })
+  );
+  return columns;
+};
+
+export const hasTranscriptCourses = (job: JobDiagnosticsResponse): boolean =>
+  (job.documents || []).some(
+    document => getTranscriptCourseRows(document).length > 0
+  );
+
+export const buildTranscriptFieldsCsv = (job: JobDiagnosticsResponse): string =>
+  toCsv([
+    ['Document', 'Field', 'Value'],
+    ...(job.documents || []).flatMap(document =>
+      getTranscriptFieldRows(document).map(row => [
+        documentLabel(document),
+        row.field,
+        row.value,
+      ])
+    ),
+  ]);
+
+export const buildTranscriptCoursesCsv = (
+  job: JobDiagnosticsResponse
+): string => {
+  const courseRows = (job.documents || []).flatMap(document =>
+    getTranscriptCourseRows(document).map(row => ({
+      document: documentLabel(document),
+      ...row,
+    }))
+  );
+  const columns = getTranscriptCourseColumns(courseRows);
+
+  return toCsv([
+    ['Document', 'Section', ...columns],
+    ...courseRows.map(row => [
+      row.document,
+      row.section,
+      ...columns.map(column => row.values[column]),
+    ]),
+  ]);
+};
+
+// ────────────────────────────────────────
+// Download
+// ────────────────────────────────────────
+
+/**
+ * Saves text content as a file through a temporary link
+ */
+export const downloadTextFile = (
+  content: string,
+  filename: string,
+  mimeType: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Link to the printable report of a job
+ */
+export const getTranscriptReportLink = (
+  jobId: number | string,
+  meta: TranscriptFileMeta = {}
+): string => {
+  const params = new URLSearchParams();
+  if (meta.filename) params.set('filename', meta.filename);
+  if (meta.fileSize) params.set('size', String(meta.fileSize));
+  if (meta.fileType) params.set('type', meta.fileType);
+
+  const query = params.toString();
+  return `/jobs/${jobId}/report${query ? `?${query}` : ''}`;
+};
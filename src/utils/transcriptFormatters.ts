@@ -0,0 +1,141 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/transcriptFormatters.ts
+ * Description: Formatting helpers shared by transcript analysis and job diagnostics views
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { isAxiosError } from 'axios';
+
+/**
+ * Converts a camelCase or snake_case extraction key to a readable label
+ *
+ * @example
+ * formatFieldName('studentInfo_student_name'); // "Student Info student name"
+ */
+export const formatFieldName = (fieldName: string): string => {
+  return fieldName
+    .replace(/([A-Z])/g, ' $1') // Add space before capital letters
+    .replace(/_/g, ' ') // Replace underscores with spaces
+    .replace(/^./, str => str.toUpperCase()) // Capitalize first letter
+    .trim();
+};
+
+/**
+ * Maps transcript processing error codes to user-friendly error messages
+ *
+ * @param errorCode - The error code from the API
+ * @param defaultMessage - Default message if code is not recognized
+ * @returns User-friendly error message
+ */
+export const getTranscriptErrorMessage = (
+  errorCode?: string,
+  defaultMessage?: string
+): string => {
+  if (!errorCode) {
+    return defaultMessage || 'Job processing failed';
+  }
+
+  switch (errorCode) {
+    case 'FILE_TOO_LARGE':
+      return 'The uploaded file is too large. Please use a smaller file (max 10MB).';
+    case 'INVALID_FILE_TYPE':
+      return 'The uploaded file type is not supported. Please use PDF, JPG, JPEG, or PNG files.';
+    case 'PROCESSING_TIMEOUT':
+      return 'Processing timed out. Please try again with a smaller file or contact support.';
+    case 'SERVER_ERROR':
+      return 'Server error occurred. Please try again later or contact support.';
+    case 'INSUFFICIENT_QUOTA':
+      return 'Processing quota exceeded. Please try again later or upgrade your plan.';
+    case 'FILE_CORRUPTED':
+      return 'The uploaded file appears to be corrupted. Please try a different file.';
+    case 'UNSUPPORTED_LANGUAGE':
+      return 'The document language is not supported. Please use English documents.';
+    default:
+      return (
+        defaultMessage || 'An unexpected error occurred. Please try again.'
+      );
+  }
+};
+
+/**
+ * Maps a job or document status to a chip color
+ */
+export const getJobStatusColor = (
+  status: string
+): 'success' | 'primary' | 'error' | 'default' => {
+  switch (status.toLowerCase()) {
+    case 'completed':
+      return 'success';
+    case 'processing':
+      return 'primary';
+    case 'failed':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+// ────────────────────────────────────────
+// Upload Validation
+// ────────────────────────────────────────
+
+export const TRANSCRIPT_ALLOWED_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+];
+
+export const TRANSCRIPT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Checks a file against the transcript upload rules
+ * @returns An error message, or null if the file can be uploaded
+ */
+export const validateTranscriptFile = (file: File): string | null => {
+  if (!TRANSCRIPT_ALLOWED_TYPES.includes(file.type)) {
+    return 'Please select a valid file type (PDF, JPG, JPEG or PNG)';
+  }
+  if (file.size > TRANSCRIPT_MAX_FILE_SIZE) {
+    return 'File size must be less than 10MB';
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number): string =>
+  `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+/**
+ * Maps a failed job submission to a user-friendly error message
+ * @param err - The error thrown by `submitTranscriptJob`
+ */
+export const getTranscriptSubmitErrorMessage = (err: unknown): string => {
+  if (isAxiosError<{ error?: { code?: string; message?: string } }>(err)) {
+    const apiError = err.response?.data?.error;
+    const status = err.response?.status ?? 0;
+
+    if (apiError?.code) {
+      return getTranscriptErrorMessage(apiError.code, apiError.message);
+    }
+    if (status === 413) {
+      return 'File too large. Please use a smaller file (max 10MB).';
+    }
+    if (status === 415) {
+      return 'Unsupported file type. Please use PDF, JPG, JPEG, or PNG files.';
+    }
+    if (status >= 500) {
+      return 'Server error. Please try again later or contact support.';
+    }
+    if (err.code === 'NETWORK_ERROR') {
+      return 'Network error. Please check your connection and try again.';
+    }
+  }
+  if (err instanceof Error && err.message) {
+    return err.message;
+  }
+  return 'Failed to process transcript. Please try again.';
+};
@@ -0,0 +1,24 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/usageFormatters.ts
+ * Description: Display helpers for subscription usage against its limit
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+// Usage at or above this share of the limit is shown as a warning
+const USAGE_WARNING_PERCENTAGE = 80;
+
+/**
+ * Progress bar color for a usage percentage: warning from 80%, error once
+ * the limit is reached
+ */
+export const getUsageProgressColor = (
+  percentage: number
+): 'primary' | 'warning' | 'error' => {
+  if (percentage >= 100) return 'error';
+  if (percentage >= USAGE_WARNING_PERCENTAGE) return 'warning';
+  return 'primary';
+};
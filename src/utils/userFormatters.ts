@@ -0,0 +1,150 @@
+/**
+ * ──────────────────────────────────────────────────
+ * File: src/utils/userFormatters.ts
+ * Description: Shared role, status and domain display helpers for users
+ * Author: Muhammad Abubakar Khan
+ * Created: 19-10-2026
+ * Last Updated: 19-10-2026
+ * ──────────────────────────────────────────────────
+ */
+
+import { type Domain, type User, type UserStatus } from '../types';
+
+export const getRoleColor = (
+  role: string
+): 'error' | 'warning' | 'info' | 'default' => {
+  // Handle both backend format and display format
+  const normalizedRole = role.toLowerCase().replace('_', ' ');
+
+  switch (normalizedRole) {
+    case 'global admin':
+      return 'error';
+    case 'tenant admin':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
+
+export const getRoleDisplayName = (role: string): string => {
+  switch (role) {
+    case 'global_admin':
+      return 'Global Admin';
+    case 'tenant_admin':
+      return 'Tenant Admin';
+    default:
+      return role.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+  }
+};
+
+export const getDomainName = (
+  user: User,
+  domains: Record<string, Domain[]>
+): string => {
+  // Flatten all domains from all organizations to search for user's assigned domain
+  const allDomains = Object.values(domains).flat();
+
+  // Find the domain assigned to this specific user
+  const userDomain = allDomains.find(domain => domain.user_id === user.id);
+
+  if (userDomain) {
+    return userDomain.domain_name || 'Unknown';
+  }
+
+  // Fallback: if no direct assignment, show primary domain for their organization
+  const orgId = user.organization_id;
+  const orgDomains = domains[orgId] || [];
+
+  const primaryDomain = orgDomains.find(d => d.is_primary);
+  if (primaryDomain) {
+    return primaryDomain.domain_name || 'Unknown';
+  }
+
+  // Final fallback: first available domain for organization
+  if (orgDomains.length > 0) {
+    return orgDomains[0]?.domain_name || 'Unknown';
+  }
+
+  return 'N/A';
+};
+
+// Get available roles that match the expected role values
+export const USER_ROLES: User['role'][] = ['global_admin', 'tenant_admin'];
+
+// Statuses an administrator can assign to a user
+export const USER_STATUSES: UserStatus[] = [
+  'active',
+  'inactive',
+  'suspended',
+  'invited',
+];
+
+// ────────────────────────────────────────
+// Role & Status Changes
+// ────────────────────────────────────────
+
+// Quick status actions offered from the users table
+export const USER_STATUS_ACTIONS: { status: UserStatus; label: string }[] = [
+  { status: 'active', label: 'Activate' },
+  { status: 'inactive', label: 'Deactivate' },
+  { status: 'suspended', label: 'Suspend' },
+];
+
+export type UserChange =
+  | { type: 'role'; value: User['role'] }
+  | { type: 'status'; value: UserStatus };
+
+/**
+ * Applies a role or status change to a user
+ *
+ * @param user - The user to update
+ * @param change - The role or status change
+ * @returns A copy of the user with the change applied
+ */
+export const applyUserChange = (user: User, change: UserChange): User =>
+  change.type === 'role'
+    ? { ...user, role: change.value }
+    : { ...user, status: change.value };
+
+/**
+ * Describes a role or status change for confirmations and alerts
+ *
+ * @example
+ * describeUserChange({ type: 'status', value: 'suspended' }); // "Suspend"
+ */
+export const describeUserChange = (change: UserChange): string => {
+  if (change.type === 'role') {
+    return `Change role to ${getRoleDisplayName(change.value)}`;
+  }
+
+  const action = USER_STATUS_ACTIONS.find(a => a.status === change.value);
+  return action ? action.label : `Mark as ${change.value}`;
+};
+
+/**
+ * Prevents a global admin from locking themselves out by demoting,
+ * deactivating or suspending their own account.
+ *
+ * @param currentUser - The signed-in user
+ * @param target - The user being changed
+ * @param change - The requested role or status change
+ * @returns The reason the change is blocked, or null if it is allowed
+ */
+export const getSelfChangeBlockReason = (
+  currentUser: User | null,
+  target: User,
+  change: UserChange
+): string | null => {
+  if (!currentUser || String(currentUser.id) !== String(target.id)) {
+    return null;
+  }
+  if (currentUser.role?.toLowerCase() !== 'global_admin') return null;
+
+  if (change.type === 'role' && change.value !== 'global_admin') {
+    return 'You cannot remove the Global Admin role from your own account';
+  }
+  if (change.type === 'status' && change.value !== 'active') {
+    return 'You cannot deactivate or suspend your own account';
+  }
+  return null;
+};
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    // Unit tests for pure helpers; api.test.ts is a manual script
+    include: ['src/utils/**/*.test.ts'],
+  },
+});